@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+
+export default function AcceptInvite() {
+  const [token, setToken] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const inviteToken = new URLSearchParams(window.location.search).get('token');
+    if (inviteToken) {
+      setToken(inviteToken);
+    } else {
+      setError('This invitation link is missing its token.');
+    }
+  }, []);
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const res = await fetch('http://localhost:4000/auth/accept-invitation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, name: name || undefined, password }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok && data.twoFactorRequired) {
+        // Existing account with 2FA: roles are granted, sign in with the code as usual
+        window.location.href = '/admin-login';
+      } else if (res.ok) {
+        localStorage.setItem('token', data.token);
+        localStorage.setItem('refreshToken', data.refreshToken);
+        localStorage.setItem('user', JSON.stringify(data.user));
+        window.location.href = data.twoFactorSetupRequired ? '/setup-2fa' : '/admin';
+      } else {
+        setError(data.error || 'Could not accept invitation');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputStyle = {
+    width: '100%',
+    padding: '15px',
+    border: '2px solid #e1e5e9',
+    borderRadius: '8px',
+    fontSize: '16px',
+    outline: 'none',
+    boxSizing: 'border-box' as const
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div
+        style={{
+          background: 'white',
+          padding: '40px',
+          borderRadius: '15px',
+          boxShadow: '0 20px 40px rgba(0,0,0,0.1)',
+          width: '100%',
+          maxWidth: '400px'
+        }}
+      >
+        <div style={{ textAlign: 'center', marginBottom: '30px' }}>
+          <h1 style={{ color: '#667eea', margin: '0 0 10px 0', fontSize: '2.5em' }}>✉️</h1>
+          <h2 style={{ color: '#333', margin: 0 }}>Join the Admin Team</h2>
+          <p style={{ color: '#666', margin: '10px 0 0 0' }}>
+            Choose a password, or enter your current one if you already have an account
+          </p>
+        </div>
+
+        <form onSubmit={handleAccept}>
+          <div style={{ marginBottom: '20px' }}>
+            <input
+              type="text"
+              placeholder="Name (new accounts)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              style={inputStyle}
+            />
+          </div>
+
+          <div style={{ marginBottom: '30px' }}>
+            <input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={6}
+              style={inputStyle}
+            />
+          </div>
+
+          {error && (
+            <div
+              style={{
+                background: '#fee',
+                color: '#c33',
+                padding: '10px',
+                borderRadius: '5px',
+                marginBottom: '20px',
+                textAlign: 'center',
+                border: '1px solid #fcc'
+              }}
+            >
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading || !token}
+            style={{
+              width: '100%',
+              padding: '15px',
+              background: loading || !token ? '#ccc' : '#667eea',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              fontSize: '16px',
+              cursor: loading || !token ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {loading ? 'Joining...' : 'Accept Invitation'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,62 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 
 export default function AdminLogin() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [partialToken, setPartialToken] = useState('');
+  const [code, setCode] = useState('');
+  const [providers, setProviders] = useState<{ id: string; label: string }[]>([]);
+
+  useEffect(() => {
+    fetch('http://localhost:4000/auth/oidc/providers')
+      .then((res) => res.ok ? res.json() : [])
+      .then(setProviders)
+      .catch(() => setProviders([]));
+
+    // Back from the identity provider with a one-time ticket (or an error)
+    const params = new URLSearchParams(window.location.search);
+    const ticket = params.get('oidcTicket');
+    const oidcError = params.get('oidcError');
+    if (ticket || oidcError) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    if (oidcError) {
+      setError(oidcError);
+    }
+    if (ticket) {
+      setLoading(true);
+      fetch('http://localhost:4000/auth/oidc/exchange', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ticket }),
+      })
+        .then(async (res) => handleResult(res, await res.json()))
+        .catch(() => setError('Network error. Please try again.'))
+        .finally(() => setLoading(false));
+    }
+  }, []);
+
+  const handleResult = (res: Response, data: any) => {
+    if (res.ok && data.twoFactorRequired) {
+      setPartialToken(data.partialToken);
+    } else if (res.ok && data.user.permissions.length > 0) {
+      localStorage.setItem('token', data.token);
+      localStorage.setItem('refreshToken', data.refreshToken);
+      localStorage.setItem('user', JSON.stringify(data.user));
+      window.location.href = data.twoFactorSetupRequired ? '/setup-2fa' : '/admin';
+    } else if (res.ok) {
+      setError('Access denied. Admin privileges required.');
+    } else if (res.status === 401 && partialToken && data.error !== 'Invalid authentication code') {
+      // Partial token expired: start over from the password step
+      setPartialToken('');
+      setCode('');
+      setError(data.error);
+    } else {
+      setError(data.error || 'Login failed');
+    }
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -12,23 +64,20 @@ export default function AdminLogin() {
     setError('');
 
     try {
-      const res = await fetch('http://localhost:4000/auth/login', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password }),
-      });
-
-      const data = await res.json();
+      // Second step: exchange the partial token and authenticator code for a session
+      const res = partialToken
+        ? await fetch('http://localhost:4000/auth/2fa/verify', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ partialToken, code }),
+          })
+        : await fetch('http://localhost:4000/auth/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email, password }),
+          });
 
-      if (res.ok && data.user.isAdmin) {
-        localStorage.setItem('token', data.token);
-        localStorage.setItem('user', JSON.stringify(data.user));
-        window.location.href = '/admin';
-      } else if (res.ok && !data.user.isAdmin) {
-        setError('Access denied. Admin privileges required.');
-      } else {
-        setError(data.error || 'Login failed');
-      }
+      handleResult(res, await res.json());
     } catch (err) {
       setError('Network error. Please try again.');
     } finally {
@@ -64,49 +113,81 @@ export default function AdminLogin() {
         </div>
 
         <form onSubmit={handleLogin}>
-          <div style={{ marginBottom: '20px' }}>
-            <input
-              type="email"
-              placeholder="Admin Email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              required
-              style={{
-                width: '100%',
-                padding: '15px',
-                border: '2px solid #e1e5e9',
-                borderRadius: '8px',
-                fontSize: '16px',
-                outline: 'none',
-                transition: 'border-color 0.3s',
-                boxSizing: 'border-box'
-              }}
-              onFocus={(e) => e.target.style.borderColor = '#667eea'}
-              onBlur={(e) => e.target.style.borderColor = '#e1e5e9'}
-            />
-          </div>
+          {partialToken ? (
+            <div style={{ marginBottom: '30px' }}>
+              <p style={{ color: '#666', marginTop: 0 }}>
+                Enter the 6-digit code from your authenticator app, or a recovery code.
+              </p>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="Authentication code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                autoFocus
+                style={{
+                  width: '100%',
+                  padding: '15px',
+                  border: '2px solid #e1e5e9',
+                  borderRadius: '8px',
+                  fontSize: '16px',
+                  outline: 'none',
+                  transition: 'border-color 0.3s',
+                  boxSizing: 'border-box'
+                }}
+                onFocus={(e) => e.target.style.borderColor = '#667eea'}
+                onBlur={(e) => e.target.style.borderColor = '#e1e5e9'}
+              />
+            </div>
+          ) : (
+            <>
+              <div style={{ marginBottom: '20px' }}>
+                <input
+                  type="email"
+                  placeholder="Admin Email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  style={{
+                    width: '100%',
+                    padding: '15px',
+                    border: '2px solid #e1e5e9',
+                    borderRadius: '8px',
+                    fontSize: '16px',
+                    outline: 'none',
+                    transition: 'border-color 0.3s',
+                    boxSizing: 'border-box'
+                  }}
+                  onFocus={(e) => e.target.style.borderColor = '#667eea'}
+                  onBlur={(e) => e.target.style.borderColor = '#e1e5e9'}
+                />
+              </div>
 
-          <div style={{ marginBottom: '30px' }}>
-            <input
-              type="password"
-              placeholder="Password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              style={{
-                width: '100%',
-                padding: '15px',
-                border: '2px solid #e1e5e9',
-                borderRadius: '8px',
-                fontSize: '16px',
-                outline: 'none',
-                transition: 'border-color 0.3s',
-                boxSizing: 'border-box'
-              }}
-              onFocus={(e) => e.target.style.borderColor = '#667eea'}
-              onBlur={(e) => e.target.style.borderColor = '#e1e5e9'}
-            />
-          </div>
+              <div style={{ marginBottom: '30px' }}>
+                <input
+                  type="password"
+                  placeholder="Password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  style={{
+                    width: '100%',
+                    padding: '15px',
+                    border: '2px solid #e1e5e9',
+                    borderRadius: '8px',
+                    fontSize: '16px',
+                    outline: 'none',
+                    transition: 'border-color 0.3s',
+                    boxSizing: 'border-box'
+                  }}
+                  onFocus={(e) => e.target.style.borderColor = '#667eea'}
+                  onBlur={(e) => e.target.style.borderColor = '#e1e5e9'}
+                />
+              </div>
+            </>
+          )}
 
           {error && (
             <div
@@ -139,9 +220,29 @@ export default function AdminLogin() {
               transition: 'background-color 0.3s'
             }}
           >
-            {loading ? 'Logging in...' : 'Login as Admin'}
+            {loading ? 'Logging in...' : partialToken ? 'Verify' : 'Login as Admin'}
           </button>
         </form>
+
+        {!partialToken && providers.map((provider) => (
+          <a
+            key={provider.id}
+            href={`http://localhost:4000/auth/oidc/${provider.id}/start?app=admin`}
+            style={{
+              display: 'block',
+              marginTop: '12px',
+              padding: '15px',
+              border: '2px solid #e1e5e9',
+              borderRadius: '8px',
+              color: '#333',
+              textAlign: 'center',
+              textDecoration: 'none',
+              fontSize: '16px'
+            }}
+          >
+            Continue with {provider.label}
+          </a>
+        ))}
       </div>
     </div>
   );
@@ -1,10 +1,12 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 
 interface User {
   id: string;
   email: string;
   name?: string;
-  isAdmin: boolean;
+  roles: { role: { id: string; name: string } }[];
+  lockedUntil?: string | null;
+  deletedAt?: string | null;
   createdAt: string;
   _count: {
     orders: number;
@@ -14,8 +16,15 @@ interface User {
 
 interface Order {
   id: string;
-  total: number;
+  subtotalMinor: number;
+  discountMinor: number;
+  totalMinor: number;
+  discounts: { id: string; code: string; amountMinor: number }[];
+  currency: string;
+  exchangeRate: string;
   status: string;
+  // Statuses the order may move to next
+  allowedStatuses: string[];
   createdAt: string;
   user: {
     id: string;
@@ -23,162 +32,1426 @@ interface Order {
     name?: string;
   };
   items: {
+    id: string;
     product: {
       id: string;
       name: string;
-      price: number;
+      priceMinor: number;
     };
+    sku?: string | null;
+    variantTitle?: string | null;
+    priceMinor: number;
     quantity: number;
   }[];
 }
 
-interface Product {
-  id: string;
-  name: string;
-  description?: string;
-  price: number;
-  stock: number;
-}
+interface OrderStatusEvent {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  note: string | null;
+  createdAt: string;
+  actor: { id: string; email: string; name?: string | null } | null;
+}
+
+// One try at paying an order, as sent to the payment provider
+interface PaymentAttempt {
+  id: string;
+  provider: string;
+  reference: string | null;
+  amountMinor: number;
+  currency: string;
+  status: string;
+  failureReason: string | null;
+  createdAt: string;
+}
+
+const orderStatusLabels: Record<string, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  payment_failed: 'Payment failed',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled'
+};
+
+const orderStatusColors: Record<string, { background: string; color: string }> = {
+  pending: { background: '#fff3cd', color: '#856404' },
+  paid: { background: '#e2e3f3', color: '#383d7c' },
+  payment_failed: { background: '#f8d7da', color: '#721c24' },
+  processing: { background: '#cce5ff', color: '#004085' },
+  shipped: { background: '#d1ecf1', color: '#0c5460' },
+  delivered: { background: '#d4edda', color: '#155724' },
+  cancelled: { background: '#f8d7da', color: '#721c24' }
+};
+
+interface Product {
+  id: string;
+  name: string;
+  description?: string;
+  priceMinor: number;
+  compareAtPriceMinor?: number | null;
+  stock: number;
+  status: ProductStatus;
+  archivedAt?: string | null;
+  ratingAverage: number;
+  ratingCount: number;
+  categoryId?: string | null;
+  category?: { id: string; name: string } | null;
+  tags?: Tag[];
+  optionTypes?: OptionType[];
+  variants?: ProductVariant[];
+  images?: ProductImage[];
+}
+
+type ProductStatus = 'draft' | 'active' | 'archived';
+
+const statusColors: Record<ProductStatus, string> = { draft: '#ffc107', active: '#28a745', archived: '#6c757d' };
+
+interface ProductImage {
+  id: string;
+  position: number;
+  url: string;
+  mediumUrl: string;
+  thumbnailUrl: string;
+}
+
+interface OptionValue {
+  id: string;
+  optionTypeId: string;
+  name: string;
+  position: number;
+}
+
+interface OptionType {
+  id: string;
+  name: string;
+  position: number;
+  values: OptionValue[];
+}
+
+interface ProductVariant {
+  id: string;
+  sku: string;
+  priceMinor: number | null;
+  stock: number;
+  optionValues: OptionValue[];
+}
+
+// A row of the variant matrix editor; rows without an id are created on save
+interface VariantRow {
+  id?: string;
+  sku: string;
+  price: string;
+  stock: number;
+  optionValueIds: string[];
+}
+
+interface VariantEditor {
+  productId: string;
+  optionTypeIds: string[];
+  valueIds: string[];
+  rows: VariantRow[];
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  summary: { total: number; created: number; updated: number; failed: number };
+  rows: { row: number; sku: string; action: 'create' | 'update' | 'error'; errors?: string[] }[];
+}
+
+interface PriceList {
+  id: string;
+  name: string;
+  currency: string;
+  exchangeRate: string;
+  active: boolean;
+  prices: { sku: string; priceMinor: number }[];
+}
+
+// Explicit prices edited as "SKU, amount" lines in the list's currency
+interface PriceListEditor {
+  priceListId: string;
+  currency: string;
+  text: string;
+}
+
+type CouponType = 'percent' | 'fixed' | 'free_item';
+
+// Amounts are base currency minor units
+interface Coupon {
+  id: string;
+  code: string;
+  description: string;
+  type: CouponType;
+  percentOff: number | null;
+  amountOffMinor: number | null;
+  freeSku: string | null;
+  minSubtotalMinor: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  automatic: boolean;
+  active: boolean;
+  redemptions: number;
+}
+
+// The coupon editor works in text fields; `value` is the percentage or the amount off
+interface CouponForm {
+  code: string;
+  description: string;
+  type: CouponType;
+  value: string;
+  freeSku: string;
+  minSubtotal: string;
+  startsAt: string;
+  endsAt: string;
+  usageLimit: string;
+  perCustomerLimit: string;
+  automatic: boolean;
+}
+
+const emptyCouponForm: CouponForm = {
+  code: '',
+  description: '',
+  type: 'percent',
+  value: '',
+  freeSku: '',
+  minSubtotal: '',
+  startsAt: '',
+  endsAt: '',
+  usageLimit: '',
+  perCustomerLimit: '',
+  automatic: false
+};
+
+interface PriceSchedule {
+  id: string;
+  variantId: string | null;
+  variant?: { sku: string } | null;
+  priceMinor: number;
+  compareAtPriceMinor: number | null;
+  startsAt: string;
+  endsAt: string | null;
+  note?: string | null;
+  state: 'scheduled' | 'active' | 'ended';
+  createdBy?: { email: string } | null;
+}
+
+type PriceHistoryEntry =
+  | {
+      type: 'change';
+      at: string;
+      reason: string;
+      variantId: string | null;
+      previousPriceMinor: number | null;
+      priceMinor: number | null;
+      previousCompareAtPriceMinor: number | null;
+      compareAtPriceMinor: number | null;
+      changedBy: { email: string } | null;
+    }
+  | { type: 'sale_started' | 'sale_ended'; at: string; scheduleId: string; variantId: string | null; priceMinor: number };
+
+interface PricingPanel {
+  productId: string;
+  schedules: PriceSchedule[];
+  history: PriceHistoryEntry[];
+}
+
+const priceChangeLabels: Record<string, string> = {
+  manual: 'Edited',
+  import: 'Imported',
+  schedule_created: 'Sale scheduled',
+  schedule_updated: 'Sale changed',
+  schedule_cancelled: 'Sale cancelled'
+};
+
+type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+interface Review {
+  id: string;
+  rating: number;
+  title?: string | null;
+  body: string;
+  status: ReviewStatus;
+  createdAt: string;
+  moderatedAt?: string | null;
+  product: { id: string; name: string };
+  user: { id: string; email: string; name?: string | null };
+  moderatedBy?: { email: string } | null;
+}
+
+interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  children: Category[];
+}
+
+interface Tag {
+  id: string;
+  name: string;
+  slug: string;
+  _count?: { products: number };
+}
+
+interface Role {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  expiresAt: string;
+  roles: { id: string; name: string }[];
+  invitedBy?: { email: string; name?: string };
+}
+
+interface LoginAttempt {
+  id: string;
+  email: string;
+  ip?: string;
+  reason: string;
+  createdAt: string;
+}
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt?: string | null;
+  lastUsedAt?: string | null;
+  lastUsedIp?: string | null;
+  revokedAt?: string | null;
+  createdAt: string;
+  user?: { id: string; email: string };
+}
+
+interface Stats {
+  users: number;
+  products: number;
+  orders: number;
+  revenue: { currency: string; totalMinor: number; orders: number }[];
+  cartRecovery: {
+    remindersSent: number;
+    restored: number;
+    recovered: number;
+    recoveryRate: number;
+    revenue: { currency: string; totalMinor: number; orders: number }[];
+  };
+}
+
+type TabKey = 'dashboard' | 'users' | 'orders' | 'products' | 'reviews' | 'coupons' | 'apiKeys';
+
+// Tabs without a permission are open to every admin user
+const tabs: { key: TabKey; label: string; permission?: string }[] = [
+  { key: 'dashboard', label: 'Dashboard', permission: 'stats:read' },
+  { key: 'users', label: 'Users', permission: 'users:read' },
+  { key: 'orders', label: 'Orders', permission: 'orders:read' },
+  { key: 'products', label: 'Products', permission: 'products:write' },
+  { key: 'reviews', label: 'Reviews', permission: 'reviews:moderate' },
+  { key: 'coupons', label: 'Coupons', permission: 'promotions:manage' },
+  { key: 'apiKeys', label: 'API Keys' }
+];
+
+const hasPermission = (permissions: string[], permission: string) =>
+  permissions.includes('*') || permissions.includes(permission);
+
+// Depth-first list of the category tree, for selects and the category editor
+const flattenCategories = (nodes: Category[], depth = 0): { category: Category; depth: number }[] =>
+  nodes.flatMap((category) => [{ category, depth }, ...flattenCategories(category.children, depth + 1)]);
+
+const parseTags = (value: string) => value.split(',').map((tag) => tag.trim()).filter(Boolean);
+
+// Every combination picking one entry from each list
+const combinations = <T,>(lists: T[][]): T[][] =>
+  lists.reduce<T[][]>((acc, list) => acc.flatMap((combo) => list.map((item) => [...combo, item])), [[]]);
+
+const sameValues = (a: string[], b: string[]) => a.length === b.length && a.every((id) => b.includes(id));
+
+// Money comes from the API as integer minor units plus a currency code
+const currencyDigits = (currency: string) =>
+  new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+
+const formatMoney = (minor: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(minor / 10 ** currencyDigits(currency));
+
+// Amounts typed in major units ("19.99") to minor units and back
+const toMinorUnits = (amount: string | number, currency: string) => Math.round(Number(amount) * 10 ** currencyDigits(currency));
+
+const fromMinorUnits = (minor: number, currency: string) => minor / 10 ** currencyDigits(currency);
+
+// An ISO timestamp as the browser-local value datetime-local inputs expect
+const toDateTimeInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export default function Admin() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loginAttempts, setLoginAttempts] = useState<LoginAttempt[]>([]);
+  const [user, setUser] = useState<{ id: string; email: string; permissions: string[]; twoFactorEnabled: boolean } | null>(null);
+  const [token, setToken] = useState<string>('');
+  const [activeTab, setActiveTab] = useState<TabKey>('dashboard');
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [apiKeyScopes, setApiKeyScopes] = useState<string[]>([]);
+  const [allApiKeys, setAllApiKeys] = useState<ApiKey[]>([]);
+  const [newApiKey, setNewApiKey] = useState<{ name: string; scopes: string[]; expiresInDays: string }>({ name: '', scopes: [], expiresInDays: '90' });
+  const [createdKey, setCreatedKey] = useState('');
+  const [editingRolesFor, setEditingRolesFor] = useState<string | null>(null);
+  const [selectedRoleIds, setSelectedRoleIds] = useState<string[]>([]);
+  const [newInvitation, setNewInvitation] = useState<{ email: string; roleIds: string[] }>({ email: '', roleIds: [] });
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [editingTags, setEditingTags] = useState('');
+  const [newProduct, setNewProduct] = useState({
+    name: '',
+    description: '',
+    price: 0,
+    stock: 0,
+    sku: '',
+    status: 'active' as ProductStatus,
+    categoryId: '',
+    tags: ''
+  });
+  const [productStatusFilter, setProductStatusFilter] = useState('draft,active');
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [reviewStatusFilter, setReviewStatusFilter] = useState<ReviewStatus>('pending');
+  const [optionTypes, setOptionTypes] = useState<OptionType[]>([]);
+  const [newOptionType, setNewOptionType] = useState({ name: '', values: '' });
+  const [variantEditor, setVariantEditor] = useState<VariantEditor | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [newCategory, setNewCategory] = useState({ name: '', parentId: '' });
+  const [baseCurrency, setBaseCurrency] = useState('USD');
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [newPriceList, setNewPriceList] = useState({ name: '', currency: '', exchangeRate: '' });
+  const [priceListEditor, setPriceListEditor] = useState<PriceListEditor | null>(null);
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [couponForm, setCouponForm] = useState<CouponForm>(emptyCouponForm);
+  const [editingCouponId, setEditingCouponId] = useState<string | null>(null);
+  const [pricing, setPricing] = useState<PricingPanel | null>(null);
+  const [orderTimeline, setOrderTimeline] = useState<{ orderId: string; events: OrderStatusEvent[]; payments: PaymentAttempt[] } | null>(null);
+  const [newSchedule, setNewSchedule] = useState({ variantId: '', price: '', compareAtPrice: '', startsAt: '', endsAt: '', note: '' });
+
+  useEffect(() => {
+    const storedToken = localStorage.getItem('token');
+    const storedUser = localStorage.getItem('user');
+    if (storedToken && storedUser) {
+      const parsedUser = JSON.parse(storedUser);
+      setToken(storedToken);
+      setUser(parsedUser);
+
+      if (!parsedUser.permissions?.length) {
+        alert('Access denied. Admin privileges required.');
+        window.location.href = '/admin-login';
+        return;
+      }
+
+      if (!parsedUser.twoFactorEnabled) {
+        window.location.href = '/setup-2fa';
+        return;
+      }
+
+      const firstTab = tabs.find((tab) => !tab.permission || hasPermission(parsedUser.permissions, tab.permission));
+      if (firstTab) setActiveTab(firstTab.key);
+
+      fetchData();
+    } else {
+      window.location.href = '/admin-login';
+    }
+  }, []);
+
+  const clearSession = () => {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('user');
+    window.location.href = '/admin-login';
+  };
+
+  // Requests failing together (the dashboard loads everything at once) share
+  // one refresh: the refresh token rotates on use, so a second refresh with
+  // the same token would be refused
+  const refreshing = useRef<Promise<string | null> | null>(null);
+
+  const refreshSession = () => {
+    refreshing.current ??= rotateRefreshToken().finally(() => {
+      refreshing.current = null;
+    });
+    return refreshing.current;
+  };
+
+  const rotateRefreshToken = async (): Promise<string | null> => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (!refreshToken) return null;
+    try {
+      const res = await fetch('http://localhost:4000/auth/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+      });
+      if (!res.ok) return null;
+      const data = await res.json();
+      setToken(data.token);
+      localStorage.setItem('token', data.token);
+      localStorage.setItem('refreshToken', data.refreshToken);
+      return data.token;
+    } catch (error) {
+      console.error('Failed to refresh session:', error);
+      return null;
+    }
+  };
+
+  // Sends the stored access token and retries once with a rotated one on 401
+  const authFetch = async (url: string, init: RequestInit = {}) => {
+    const send = (accessToken: string) =>
+      fetch(url, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${accessToken}` }
+      });
+    const sentToken = localStorage.getItem('token') || token;
+    const res = await send(sentToken);
+    if (res.status !== 401) return res;
+    // Another request may have refreshed the session while this one was out
+    const currentToken = localStorage.getItem('token');
+    if (currentToken && currentToken !== sentToken) return send(currentToken);
+    const refreshedToken = await refreshSession();
+    if (!refreshedToken) {
+      clearSession();
+      return res;
+    }
+    return send(refreshedToken);
+  };
+
+  const logout = async () => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      try {
+        await fetch('http://localhost:4000/auth/logout', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken })
+        });
+      } catch (error) {
+        console.error('Failed to logout:', error);
+      }
+    }
+    clearSession();
+  };
+
+  const fetchData = async () => {
+    try {
+      const [usersRes, ordersRes, productsRes, statsRes, rolesRes, invitationsRes, attemptsRes, apiKeysRes, allApiKeysRes, categoriesRes, tagsRes, optionTypesRes, reviewsRes, currenciesRes, priceListsRes, couponsRes] = await Promise.all([
+        authFetch('http://localhost:4000/admin/users'),
+        authFetch('http://localhost:4000/admin/orders'),
+        authFetch(`http://localhost:4000/admin/products?sort=newest&limit=100&status=${productStatusFilter}`),
+        authFetch('http://localhost:4000/admin/stats'),
+        authFetch('http://localhost:4000/admin/roles'),
+        authFetch('http://localhost:4000/admin/invitations'),
+        authFetch('http://localhost:4000/admin/login-attempts'),
+        authFetch('http://localhost:4000/me/api-keys'),
+        authFetch('http://localhost:4000/admin/api-keys'),
+        fetch('http://localhost:4000/categories'),
+        fetch('http://localhost:4000/tags'),
+        fetch('http://localhost:4000/option-types'),
+        authFetch(`http://localhost:4000/admin/reviews?status=${reviewStatusFilter}&limit=50`),
+        fetch('http://localhost:4000/currencies'),
+        authFetch('http://localhost:4000/admin/price-lists'),
+        authFetch('http://localhost:4000/admin/coupons')
+      ]);
+
+      if (usersRes.ok) setUsers(await usersRes.json());
+      if (ordersRes.ok) setOrders(await ordersRes.json());
+      if (productsRes.ok) setProducts((await productsRes.json()).items);
+      if (statsRes.ok) setStats(await statsRes.json());
+      if (rolesRes.ok) setRoles((await rolesRes.json()).roles);
+      if (invitationsRes.ok) setInvitations(await invitationsRes.json());
+      if (attemptsRes.ok) setLoginAttempts(await attemptsRes.json());
+      if (apiKeysRes.ok) {
+        const data = await apiKeysRes.json();
+        setApiKeys(data.apiKeys);
+        setApiKeyScopes(data.scopes);
+      }
+      if (allApiKeysRes.ok) setAllApiKeys(await allApiKeysRes.json());
+      if (categoriesRes.ok) setCategories(await categoriesRes.json());
+      if (tagsRes.ok) setTags(await tagsRes.json());
+      if (optionTypesRes.ok) setOptionTypes(await optionTypesRes.json());
+      if (reviewsRes.ok) setReviews((await reviewsRes.json()).items);
+      if (currenciesRes.ok) {
+        const currencies: { code: string; base: boolean }[] = await currenciesRes.json();
+        setBaseCurrency(currencies.find((currency) => currency.base)?.code || 'USD');
+      }
+      if (priceListsRes.ok) setPriceLists(await priceListsRes.json());
+      if (couponsRes.ok) setCoupons(await couponsRes.json());
+    } catch (error) {
+      console.error('Failed to fetch admin data:', error);
+    }
+  };
+
+  const filterProducts = async (status: string) => {
+    setProductStatusFilter(status);
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products?sort=newest&limit=100&status=${status}`);
+      if (res.ok) setProducts((await res.json()).items);
+    } catch (error) {
+      console.error('Failed to fetch products:', error);
+    }
+  };
+
+  const filterReviews = async (status: ReviewStatus) => {
+    setReviewStatusFilter(status);
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/reviews?status=${status}&limit=50`);
+      if (res.ok) setReviews((await res.json()).items);
+    } catch (error) {
+      console.error('Failed to fetch reviews:', error);
+    }
+  };
+
+  // Coupon payload for POST/PUT /admin/coupons; dates are in the browser's time zone
+  const couponBody = (form: CouponForm, active: boolean) => ({
+    code: form.code,
+    description: form.description,
+    type: form.type,
+    percentOff: form.type === 'percent' ? Number(form.value) : null,
+    amountOffMinor: form.type === 'fixed' ? toMinorUnits(form.value, baseCurrency) : null,
+    freeSku: form.type === 'free_item' ? form.freeSku : null,
+    minSubtotalMinor: form.minSubtotal ? toMinorUnits(form.minSubtotal, baseCurrency) : null,
+    startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+    endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+    usageLimit: form.usageLimit ? Number(form.usageLimit) : null,
+    perCustomerLimit: form.perCustomerLimit ? Number(form.perCustomerLimit) : null,
+    automatic: form.automatic,
+    active
+  });
+
+  const couponFormOf = (coupon: Coupon): CouponForm => ({
+    code: coupon.code,
+    description: coupon.description,
+    type: coupon.type,
+    value:
+      coupon.type === 'percent'
+        ? String(coupon.percentOff ?? '')
+        : coupon.type === 'fixed' && coupon.amountOffMinor !== null
+          ? String(fromMinorUnits(coupon.amountOffMinor, baseCurrency))
+          : '',
+    freeSku: coupon.freeSku || '',
+    minSubtotal: coupon.minSubtotalMinor !== null ? String(fromMinorUnits(coupon.minSubtotalMinor, baseCurrency)) : '',
+    startsAt: coupon.startsAt ? toDateTimeInput(coupon.startsAt) : '',
+    endsAt: coupon.endsAt ? toDateTimeInput(coupon.endsAt) : '',
+    usageLimit: coupon.usageLimit !== null ? String(coupon.usageLimit) : '',
+    perCustomerLimit: coupon.perCustomerLimit !== null ? String(coupon.perCustomerLimit) : '',
+    automatic: coupon.automatic
+  });
+
+  const editCoupon = (coupon: Coupon | null) => {
+    setEditingCouponId(coupon?.id ?? null);
+    setCouponForm(coupon ? couponFormOf(coupon) : emptyCouponForm);
+  };
+
+  const saveCoupon = async () => {
+    const editing = coupons.find((coupon) => coupon.id === editingCouponId);
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/coupons${editing ? `/${editing.id}` : ''}`, {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(couponBody(couponForm, editing?.active ?? true))
+      });
+      if (res.ok) {
+        editCoupon(null);
+        fetchData();
+      } else {
+        const data = await res.json();
+        alert(data.details ? data.details.map((issue: { path: string[]; message: string }) => `${issue.path.join('.')}: ${issue.message}`).join('\n') : data.error);
+      }
+    } catch (error) {
+      console.error('Failed to save coupon:', error);
+    }
+  };
+
+  const setCouponActive = async (coupon: Coupon, active: boolean) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/coupons/${coupon.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(couponBody(couponFormOf(coupon), active))
+      });
+      if (res.ok) {
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to update coupon:', error);
+    }
+  };
+
+  const deleteCoupon = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}? Past orders keep their discounts.`)) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/coupons/${coupon.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        if (editingCouponId === coupon.id) editCoupon(null);
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to delete coupon:', error);
+    }
+  };
+
+  const couponSummary = (coupon: Coupon) => {
+    const value =
+      coupon.type === 'percent'
+        ? `${coupon.percentOff}% off`
+        : coupon.type === 'fixed'
+          ? `${formatMoney(coupon.amountOffMinor ?? 0, baseCurrency)} off`
+          : `One ${coupon.freeSku ?? '(deleted variant)'} free`;
+    const conditions = [
+      coupon.minSubtotalMinor !== null && `from ${formatMoney(coupon.minSubtotalMinor, baseCurrency)}`,
+      coupon.startsAt && `starts ${new Date(coupon.startsAt).toLocaleString()}`,
+      coupon.endsAt && `ends ${new Date(coupon.endsAt).toLocaleString()}`,
+      `used ${coupon.redemptions}${coupon.usageLimit !== null ? ` of ${coupon.usageLimit}` : ''}`,
+      coupon.perCustomerLimit !== null && `${coupon.perCustomerLimit} per customer`
+    ].filter(Boolean);
+    return `${value} · ${conditions.join(' · ')}`;
+  };
+
+  const moderateReview = async (review: Review, status: ReviewStatus) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/reviews/${review.id}/status`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      });
+      if (res.ok) {
+        setReviews(reviews.filter((candidate) => candidate.id !== review.id));
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to moderate review:', error);
+    }
+  };
+
+  const can = (permission?: string) => !!user && (!permission || hasPermission(user.permissions, permission));
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+  const saveUserRoles = async (userId: string) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/users/${userId}/roles`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roleIds: selectedRoleIds })
+      });
+      if (res.ok) {
+        setEditingRolesFor(null);
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to update user roles:', error);
+    }
+  };
+
+  const sendInvitation = async () => {
+    try {
+      const res = await authFetch('http://localhost:4000/admin/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newInvitation)
+      });
+      if (res.ok) {
+        setNewInvitation({ email: '', roleIds: [] });
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to send invitation:', error);
+    }
+  };
+
+  const revokeInvitation = async (invitationId: string) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/invitations/${invitationId}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        fetchData();
+      }
+    } catch (error) {
+      console.error('Failed to revoke invitation:', error);
+    }
+  };
+
+  const unlockUser = async (userId: string) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/users/${userId}/unlock`, {
+        method: 'POST'
+      });
+      if (res.ok) {
+        fetchData();
+      }
+    } catch (error) {
+      console.error('Failed to unlock user:', error);
+    }
+  };
+
+  const createApiKey = async () => {
+    try {
+      const res = await authFetch('http://localhost:4000/me/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newApiKey.name,
+          scopes: newApiKey.scopes,
+          expiresInDays: newApiKey.expiresInDays ? Number(newApiKey.expiresInDays) : undefined
+        })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setCreatedKey(data.key);
+        setNewApiKey({ name: '', scopes: [], expiresInDays: '90' });
+        fetchData();
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+    }
+  };
+
+  // Own keys go through /me, anyone's through /admin (users:manage)
+  const revokeApiKey = async (apiKeyId: string, asAdmin = false) => {
+    if (!confirm('Revoke this API key? Integrations using it will stop working.')) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/${asAdmin ? 'admin' : 'me'}/api-keys/${apiKeyId}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        fetchData();
+      }
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+    }
+  };
+
+  const apiKeyStatus = (apiKey: ApiKey) => {
+    if (apiKey.revokedAt) return 'Revoked';
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date()) return 'Expired';
+    return apiKey.expiresAt ? `Expires ${new Date(apiKey.expiresAt).toLocaleDateString()}` : 'No expiry';
+  };
+
+  const exportUserData = async (userId: string) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/users/${userId}/export?format=zip`);
+      if (!res.ok) return alert((await res.json()).error);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(await res.blob());
+      link.download = `user-${userId}.zip`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Failed to export user data:', error);
+    }
+  };
+
+  const deleteUser = async (userId: string, email: string) => {
+    if (!confirm(`Delete ${email}? Personal data is erased and orders are kept anonymously.`)) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/users/${userId}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to delete user:', error);
+    }
+  };
+
+  // Status changes cannot be undone, so they are confirmed; the note goes into the timeline
+  const updateOrderStatus = async (orderId: string, status: string) => {
+    const note = prompt(`Change the order to ${orderStatusLabels[status] || status}? Add a note (optional)`);
+    if (note === null) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/orders/${orderId}/status`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, note: note || undefined })
+      });
+      if (res.ok) {
+        fetchData();
+        if (orderTimeline?.orderId === orderId) openOrderTimeline(orderId);
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to update order status:', error);
+    }
+  };
+
+  const openOrderTimeline = async (orderId: string) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/orders/${orderId}/history`);
+      if (res.ok) {
+        const { events, payments } = await res.json();
+        setOrderTimeline({ orderId, events, payments });
+      }
+    } catch (error) {
+      console.error('Failed to fetch order history:', error);
+    }
+  };
+
+  const updateProduct = async (product: Product) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/${product.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: product.name,
+          description: product.description,
+          priceMinor: product.priceMinor,
+          compareAtPriceMinor: product.compareAtPriceMinor ?? null,
+          // Products with options keep their stock on the variants. The stock
+          // the form opened with goes along, so only the admin's change applies.
+          ...(product.optionTypes?.length
+            ? {}
+            : { stock: product.stock, previousStock: products.find((candidate) => candidate.id === product.id)?.stock }),
+          status: product.status,
+          categoryId: product.categoryId || null,
+          tags: parseTags(editingTags)
+        })
+      });
+      if (res.ok) {
+        setEditingProduct(null);
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to update product:', error);
+    }
+  };
+
+  const archiveProduct = async (product: Product) => {
+    if (!confirm(`Archive ${product.name}? It leaves the store but stays in past orders, and can be restored.`)) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/${product.id}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        fetchData();
+      }
+    } catch (error) {
+      console.error('Failed to archive product:', error);
+    }
+  };
+
+  const restoreProduct = async (product: Product) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/${product.id}/restore`, {
+        method: 'POST'
+      });
+      if (res.ok) {
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to restore product:', error);
+    }
+  };
+
+  const addProduct = async () => {
+    const { price, ...fields } = newProduct;
+    try {
+      const res = await authFetch('http://localhost:4000/products', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...fields,
+          priceMinor: toMinorUnits(price, baseCurrency),
+          sku: newProduct.sku || undefined,
+          categoryId: newProduct.categoryId || null,
+          tags: parseTags(newProduct.tags)
+        })
+      });
+      if (res.ok) {
+        setNewProduct({ name: '', description: '', price: 0, stock: 0, sku: '', status: 'active', categoryId: '', tags: '' });
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to add product:', error);
+    }
+  };
+
+  const createOptionType = async () => {
+    try {
+      const res = await authFetch('http://localhost:4000/admin/option-types', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newOptionType.name, values: parseTags(newOptionType.values) })
+      });
+      if (res.ok) {
+        setNewOptionType({ name: '', values: '' });
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to create option type:', error);
+    }
+  };
+
+  const editOptionTypeValues = async (optionType: OptionType) => {
+    const values = prompt(`Values for ${optionType.name}, comma separated`, optionType.values.map((value) => value.name).join(', '));
+    if (values === null) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/option-types/${optionType.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: optionType.name, position: optionType.position, values: parseTags(values) })
+      });
+      if (res.ok) {
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to update option type:', error);
+    }
+  };
+
+  const deleteOptionType = async (optionType: OptionType) => {
+    if (!confirm(`Delete the option ${optionType.name}?`)) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/option-types/${optionType.id}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to delete option type:', error);
+    }
+  };
+
+  const importProducts = async (dryRun: boolean) => {
+    if (!importFile) return;
+    const body = new FormData();
+    body.append('file', importFile);
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/import?dryRun=${dryRun}`, {
+        method: 'POST',
+        body
+      });
+      const data = await res.json();
+      if (!res.ok) return alert(data.error);
+      setImportResult(data);
+      if (!dryRun) fetchData();
+    } catch (error) {
+      console.error('Failed to import products:', error);
+    }
+  };
+
+  const exportProducts = async (format: 'csv' | 'json') => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/export?format=${format}`);
+      if (!res.ok) return alert((await res.json()).error);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(await res.blob());
+      link.download = `products.${format}`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Failed to export products:', error);
+    }
+  };
+
+  const uploadImages = async (product: Product, files: FileList | null) => {
+    if (!files?.length) return;
+    const body = new FormData();
+    Array.from(files).forEach((file) => body.append('images', file));
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/${product.id}/images`, {
+        method: 'POST',
+        body
+      });
+      if (res.ok) {
+        const images: ProductImage[] = await res.json();
+        setEditingProduct((current) => current && { ...current, images: [...(current.images || []), ...images] });
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to upload images:', error);
+    }
+  };
+
+  const moveImage = async (product: Product, index: number, offset: number) => {
+    const images = [...(product.images || [])];
+    const [image] = images.splice(index, 1);
+    images.splice(index + offset, 0, image);
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/${product.id}/images`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ imageIds: images.map((candidate) => candidate.id) })
+      });
+      if (res.ok) {
+        setEditingProduct((current) => current && { ...current, images });
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to reorder images:', error);
+    }
+  };
+
+  const deleteImage = async (product: Product, image: ProductImage) => {
+    if (!confirm('Delete this image?')) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/${product.id}/images/${image.id}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        setEditingProduct((current) => current && { ...current, images: (current.images || []).filter((candidate) => candidate.id !== image.id) });
+        fetchData();
+      }
+    } catch (error) {
+      console.error('Failed to delete image:', error);
+    }
+  };
 
-interface Stats {
-  users: number;
-  products: number;
-  orders: number;
-  revenue: number;
-}
+  const openVariantEditor = (product: Product) => {
+    const variants = product.variants || [];
+    setVariantEditor({
+      productId: product.id,
+      optionTypeIds: (product.optionTypes || []).map((optionType) => optionType.id),
+      valueIds: Array.from(new Set(variants.flatMap((variant) => variant.optionValues.map((value) => value.id)))),
+      rows: variants.map((variant) => ({
+        id: variant.id,
+        sku: variant.sku,
+        price: variant.priceMinor === null ? '' : String(fromMinorUnits(variant.priceMinor, baseCurrency)),
+        stock: variant.stock,
+        optionValueIds: variant.optionValues.map((value) => value.id)
+      }))
+    });
+  };
 
-export default function Admin() {
-  const [users, setUsers] = useState<User[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [stats, setStats] = useState<Stats | null>(null);
-  const [user, setUser] = useState<{ id: string; email: string; isAdmin: boolean } | null>(null);
-  const [token, setToken] = useState<string>('');
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'users' | 'orders' | 'products'>('dashboard');
-  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
-  const [newProduct, setNewProduct] = useState({
-    name: '',
-    description: '',
-    price: 0,
-    stock: 0
-  });
+  // Rebuilds the rows from the chosen values, keeping rows whose combination still exists
+  const generateVariantRows = (editor: VariantEditor, productName: string) => {
+    const chosen = optionTypes
+      .filter((optionType) => editor.optionTypeIds.includes(optionType.id))
+      .map((optionType) => optionType.values.filter((value) => editor.valueIds.includes(value.id)));
+    if (chosen.some((values) => values.length === 0)) {
+      alert('Pick at least one value for every option');
+      return;
+    }
+    const base = productName.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 16);
+    const rows = combinations(chosen).map((values) => {
+      const optionValueIds = values.map((value) => value.id);
+      return editor.rows.find((row) => sameValues(row.optionValueIds, optionValueIds)) || {
+        sku: [base, ...values.map((value) => value.name.toUpperCase().replace(/[^A-Z0-9]+/g, ''))].join('-'),
+        price: '',
+        stock: 0,
+        optionValueIds
+      };
+    });
+    setVariantEditor({ ...editor, rows });
+  };
 
-  useEffect(() => {
-    const storedToken = localStorage.getItem('token');
-    const storedUser = localStorage.getItem('user');
-    if (storedToken && storedUser) {
-      const parsedUser = JSON.parse(storedUser);
-      setToken(storedToken);
-      setUser(parsedUser);
+  const saveVariants = async (editor: VariantEditor) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/${editor.productId}/variants`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          optionTypeIds: editor.optionTypeIds,
+          variants: editor.rows.map((row) => ({
+            id: row.id,
+            sku: row.sku,
+            priceMinor: row.price === '' ? null : toMinorUnits(row.price, baseCurrency),
+            stock: row.stock,
+            optionValueIds: row.optionValueIds
+          }))
+        })
+      });
+      if (res.ok) {
+        setVariantEditor(null);
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to save variants:', error);
+    }
+  };
 
-      if (!parsedUser.isAdmin) {
-        alert('Access denied. Admin privileges required.');
-        window.location.href = '/admin-login';
-        return;
+  const openPricing = async (productId: string) => {
+    try {
+      const [schedulesRes, historyRes] = await Promise.all([
+        authFetch(`http://localhost:4000/admin/products/${productId}/price-schedules`),
+        authFetch(`http://localhost:4000/admin/products/${productId}/price-history`)
+      ]);
+      if (schedulesRes.ok && historyRes.ok) {
+        setPricing({ productId, schedules: await schedulesRes.json(), history: await historyRes.json() });
       }
+    } catch (error) {
+      console.error('Failed to fetch pricing:', error);
+    }
+  };
 
-      fetchData();
-    } else {
-      window.location.href = '/admin-login';
+  // datetime-local inputs are in the browser's time zone
+  const createSchedule = async (productId: string) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/${productId}/price-schedules`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          variantId: newSchedule.variantId || null,
+          priceMinor: toMinorUnits(newSchedule.price, baseCurrency),
+          compareAtPriceMinor: newSchedule.compareAtPrice ? toMinorUnits(newSchedule.compareAtPrice, baseCurrency) : null,
+          startsAt: new Date(newSchedule.startsAt).toISOString(),
+          endsAt: newSchedule.endsAt ? new Date(newSchedule.endsAt).toISOString() : null,
+          note: newSchedule.note || undefined
+        })
+      });
+      if (res.ok) {
+        setNewSchedule({ variantId: '', price: '', compareAtPrice: '', startsAt: '', endsAt: '', note: '' });
+        openPricing(productId);
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to schedule sale:', error);
     }
-  }, []);
+  };
 
-  const fetchData = async () => {
+  const cancelSchedule = async (productId: string, schedule: PriceSchedule) => {
+    if (!confirm(schedule.state === 'active' ? 'End this sale now?' : 'Cancel this sale?')) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/products/${productId}/price-schedules/${schedule.id}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        openPricing(productId);
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to cancel sale:', error);
+    }
+  };
+
+  const createPriceList = async () => {
     try {
-      const [usersRes, ordersRes, productsRes, statsRes] = await Promise.all([
-        fetch('http://localhost:4000/admin/users', {
-          headers: { Authorization: `Bearer ${token}` }
-        }),
-        fetch('http://localhost:4000/admin/orders', {
-          headers: { Authorization: `Bearer ${token}` }
-        }),
-        fetch('http://localhost:4000/products'),
-        fetch('http://localhost:4000/admin/stats', {
-          headers: { Authorization: `Bearer ${token}` }
+      const res = await authFetch('http://localhost:4000/admin/price-lists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newPriceList)
+      });
+      if (res.ok) {
+        setNewPriceList({ name: '', currency: '', exchangeRate: '' });
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to create price list:', error);
+    }
+  };
+
+  const updatePriceList = async (priceList: PriceList, changes: Partial<Pick<PriceList, 'exchangeRate' | 'active'>>) => {
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/price-lists/${priceList.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: priceList.name,
+          currency: priceList.currency,
+          exchangeRate: priceList.exchangeRate,
+          active: priceList.active,
+          ...changes
         })
-      ]);
+      });
+      if (res.ok) {
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to update price list:', error);
+    }
+  };
 
-      if (usersRes.ok) setUsers(await usersRes.json());
-      if (ordersRes.ok) setOrders(await ordersRes.json());
-      if (productsRes.ok) setProducts(await productsRes.json());
-      if (statsRes.ok) setStats(await statsRes.json());
+  const deletePriceList = async (priceList: PriceList) => {
+    if (!confirm(`Delete the ${priceList.currency} price list? Shoppers can no longer pay in ${priceList.currency}.`)) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/price-lists/${priceList.id}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        fetchData();
+      }
     } catch (error) {
-      console.error('Failed to fetch admin data:', error);
+      console.error('Failed to delete price list:', error);
     }
   };
 
-  const updateOrderStatus = async (orderId: string, status: string) => {
+  const openPriceListEditor = (priceList: PriceList) =>
+    setPriceListEditor({
+      priceListId: priceList.id,
+      currency: priceList.currency,
+      text: priceList.prices
+        .map((price) => `${price.sku}, ${fromMinorUnits(price.priceMinor, priceList.currency)}`)
+        .join('\n')
+    });
+
+  // SKUs dropped from the text lose their explicit price and fall back to conversion
+  const savePriceListPrices = async (editor: PriceListEditor) => {
+    const priceList = priceLists.find((candidate) => candidate.id === editor.priceListId);
+    const prices = editor.text
+      .split('\n')
+      .map((line) => line.split(',').map((part) => part.trim()))
+      .filter(([sku]) => sku)
+      .map(([sku, amount]) => ({ sku, priceMinor: amount ? toMinorUnits(amount, editor.currency) : null }));
+    const removed = (priceList?.prices || [])
+      .filter((price) => !prices.some((candidate) => candidate.sku === price.sku))
+      .map((price) => ({ sku: price.sku, priceMinor: null }));
+    if (prices.length + removed.length === 0) {
+      setPriceListEditor(null);
+      return;
+    }
     try {
-      const res = await fetch(`http://localhost:4000/admin/orders/${orderId}/status`, {
+      const res = await authFetch(`http://localhost:4000/admin/price-lists/${editor.priceListId}/prices`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
-        body: JSON.stringify({ status })
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prices: [...prices, ...removed] })
       });
       if (res.ok) {
+        setPriceListEditor(null);
         fetchData();
+      } else {
+        alert((await res.json()).error);
       }
     } catch (error) {
-      console.error('Failed to update order status:', error);
+      console.error('Failed to save prices:', error);
     }
   };
 
-  const updateProduct = async (product: Product) => {
+  const createCategory = async () => {
+    try {
+      const res = await authFetch('http://localhost:4000/admin/categories', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newCategory.name, parentId: newCategory.parentId || null })
+      });
+      if (res.ok) {
+        setNewCategory({ name: '', parentId: '' });
+        fetchData();
+      } else {
+        alert((await res.json()).error);
+      }
+    } catch (error) {
+      console.error('Failed to create category:', error);
+    }
+  };
+
+  const updateCategory = async (category: Category, changes: { name?: string; parentId?: string | null }) => {
     try {
-      const res = await fetch(`http://localhost:4000/admin/products/${product.id}`, {
+      const res = await authFetch(`http://localhost:4000/admin/categories/${category.id}`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
-        body: JSON.stringify(product)
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: category.name, slug: category.slug, parentId: category.parentId, ...changes })
       });
       if (res.ok) {
-        setEditingProduct(null);
         fetchData();
+      } else {
+        alert((await res.json()).error);
       }
     } catch (error) {
-      console.error('Failed to update product:', error);
+      console.error('Failed to update category:', error);
     }
   };
 
-  const deleteProduct = async (productId: string) => {
-    if (!confirm('Are you sure you want to delete this product?')) return;
+  const deleteCategory = async (category: Category) => {
+    if (!confirm(`Delete ${category.name}? Its products become uncategorised.`)) return;
     try {
-      const res = await fetch(`http://localhost:4000/admin/products/${productId}`, {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` }
+      const res = await authFetch(`http://localhost:4000/admin/categories/${category.id}`, {
+        method: 'DELETE'
       });
       if (res.ok) {
         fetchData();
+      } else {
+        alert((await res.json()).error);
       }
     } catch (error) {
-      console.error('Failed to delete product:', error);
+      console.error('Failed to delete category:', error);
     }
   };
 
-  const addProduct = async () => {
+  const renameTag = async (tag: Tag) => {
+    const name = prompt('Rename tag', tag.name);
+    if (!name || name === tag.name) return;
     try {
-      const res = await fetch('http://localhost:4000/products', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
-        body: JSON.stringify(newProduct)
+      const res = await authFetch(`http://localhost:4000/admin/tags/${tag.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
       });
       if (res.ok) {
-        setNewProduct({ name: '', description: '', price: 0, stock: 0 });
         fetchData();
+      } else {
+        alert((await res.json()).error);
       }
     } catch (error) {
-      console.error('Failed to add product:', error);
+      console.error('Failed to rename tag:', error);
+    }
+  };
+
+  const deleteTag = async (tag: Tag) => {
+    if (!confirm(`Remove the tag ${tag.name} from all products?`)) return;
+    try {
+      const res = await authFetch(`http://localhost:4000/admin/tags/${tag.id}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        fetchData();
+      }
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
     }
   };
 
-  if (!user?.isAdmin) {
+  if (!user?.permissions?.length) {
     return (
       <div style={{
         display: 'flex',
@@ -226,11 +1499,7 @@ export default function Admin() {
               👤 User Portal
             </button>
             <button
-              onClick={() => {
-                localStorage.removeItem('token');
-                localStorage.removeItem('user');
-                window.location.href = '/admin-login';
-              }}
+              onClick={logout}
               style={{
                 padding: '10px 20px',
                 background: '#dc3545',
@@ -259,15 +1528,10 @@ export default function Admin() {
             boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
           }}
         >
-          {[
-            { key: 'dashboard', label: 'Dashboard' },
-            { key: 'users', label: 'Users' },
-            { key: 'orders', label: 'Orders' },
-            { key: 'products', label: 'Products' }
-          ].map((tab) => (
+          {tabs.filter((tab) => can(tab.permission)).map((tab) => (
             <button
               key={tab.key}
-              onClick={() => setActiveTab(tab.key as any)}
+              onClick={() => setActiveTab(tab.key)}
               style={{
                 padding: '10px 20px',
                 background: activeTab === tab.key ? '#667eea' : 'transparent',
@@ -292,33 +1556,524 @@ export default function Admin() {
               gap: '20px'
             }}
           >
-            {[
-              { title: 'Total Users', value: stats.users, color: '#28a745' },
-              { title: 'Total Products', value: stats.products, color: '#007bff' },
-              { title: 'Total Orders', value: stats.orders, color: '#ffc107' },
-              { title: 'Total Revenue', value: `$${stats.revenue.toFixed(2)}`, color: '#dc3545' }
-            ].map((stat, index) => (
-              <div
-                key={stat.title}
-                style={{
-                  background: 'white',
-                  padding: '30px',
-                  borderRadius: '10px',
-                  boxShadow: '0 4px 6px rgba(0,0,0,0.1)',
-                  textAlign: 'center'
-                }}
-              >
-                <h3 style={{ margin: '0 0 10px 0', color: '#666' }}>{stat.title}</h3>
-                <p style={{ margin: 0, fontSize: '2em', fontWeight: 'bold', color: stat.color }}>
-                  {stat.value}
-                </p>
+            {[
+              { title: 'Total Users', value: stats.users, color: '#28a745' },
+              { title: 'Total Products', value: stats.products, color: '#007bff' },
+              { title: 'Total Orders', value: stats.orders, color: '#ffc107' },
+              {
+                title: 'Total Revenue',
+                value: stats.revenue.length > 0
+                  ? stats.revenue.map((row) => formatMoney(row.totalMinor, row.currency)).join(' · ')
+                  : formatMoney(0, baseCurrency),
+                color: '#dc3545'
+              },
+              {
+                title: 'Cart Recovery Rate',
+                value: `${stats.cartRecovery.recoveryRate}%`,
+                detail: `${stats.cartRecovery.recovered} of ${stats.cartRecovery.remindersSent} reminders led to an order · ${stats.cartRecovery.restored} carts restored`,
+                color: '#17a2b8'
+              },
+              {
+                title: 'Recovered Revenue',
+                value: stats.cartRecovery.revenue.length > 0
+                  ? stats.cartRecovery.revenue.map((row) => formatMoney(row.totalMinor, row.currency)).join(' · ')
+                  : formatMoney(0, baseCurrency),
+                color: '#6f42c1'
+              }
+            ].map((stat, index) => (
+              <div
+                key={stat.title}
+                style={{
+                  background: 'white',
+                  padding: '30px',
+                  borderRadius: '10px',
+                  boxShadow: '0 4px 6px rgba(0,0,0,0.1)',
+                  textAlign: 'center'
+                }}
+              >
+                <h3 style={{ margin: '0 0 10px 0', color: '#666' }}>{stat.title}</h3>
+                <p style={{ margin: 0, fontSize: '2em', fontWeight: 'bold', color: stat.color }}>
+                  {stat.value}
+                </p>
+                {'detail' in stat && (
+                  <p style={{ margin: '10px 0 0 0', color: '#666', fontSize: '0.9em' }}>{stat.detail}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Users Tab */}
+        {activeTab === 'users' && (
+          <div
+            style={{
+              background: 'white',
+              borderRadius: '10px',
+              padding: '20px',
+              boxShadow: '0 4px 6px rgba(0,0,0,0.1)'
+            }}
+          >
+            <h2 style={{ marginBottom: '20px', color: '#667eea' }}>Users Management</h2>
+            <div style={{ overflowX: 'auto' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ background: '#f8f9fa' }}>
+                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Email</th>
+                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Name</th>
+                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Roles</th>
+                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Orders</th>
+                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Messages</th>
+                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Joined</th>
+                    {can('users:manage') && (
+                      <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Data</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map((user) => (
+                    <tr
+                      key={user.id}
+                      style={{ borderBottom: '1px solid #dee2e6' }}
+                    >
+                      <td style={{ padding: '12px' }}>
+                        {user.email}
+                        {user.deletedAt && (
+                          <div style={{ marginTop: '4px' }}>
+                            <span style={{ padding: '2px 6px', borderRadius: '4px', background: '#6c757d', color: 'white', fontSize: '0.75em' }}>
+                              Deleted {new Date(user.deletedAt).toLocaleDateString()}
+                            </span>
+                          </div>
+                        )}
+                        {user.lockedUntil && new Date(user.lockedUntil) > new Date() && (
+                          <div style={{ marginTop: '4px' }}>
+                            <span style={{ padding: '2px 6px', borderRadius: '4px', background: '#dc3545', color: 'white', fontSize: '0.75em' }}>
+                              Locked until {new Date(user.lockedUntil).toLocaleTimeString()}
+                            </span>
+                            {can('users:manage') && (
+                              <button
+                                onClick={() => unlockUser(user.id)}
+                                style={{ marginLeft: '6px', padding: '2px 6px', background: 'transparent', color: '#dc3545', border: '1px solid #dc3545', borderRadius: '4px', cursor: 'pointer', fontSize: '0.75em' }}
+                              >
+                                Unlock
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      <td style={{ padding: '12px' }}>{user.name || 'N/A'}</td>
+                      <td style={{ padding: '12px' }}>
+                        {editingRolesFor === user.id ? (
+                          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center' }}>
+                            {roles.map((role) => (
+                              <label key={role.id} style={{ fontSize: '0.9em' }}>
+                                <input
+                                  type="checkbox"
+                                  checked={selectedRoleIds.includes(role.id)}
+                                  onChange={() => setSelectedRoleIds(toggleId(selectedRoleIds, role.id))}
+                                />
+                                {' '}{role.name}
+                              </label>
+                            ))}
+                            <button
+                              onClick={() => saveUserRoles(user.id)}
+                              style={{ padding: '4px 8px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                            >
+                              Save
+                            </button>
+                            <button
+                              onClick={() => setEditingRolesFor(null)}
+                              style={{ padding: '4px 8px', background: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        ) : (
+                          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', alignItems: 'center' }}>
+                            {user.roles.length === 0 && (
+                              <span style={{ padding: '4px 8px', borderRadius: '4px', background: '#6c757d', color: 'white', fontSize: '0.8em' }}>
+                                Customer
+                              </span>
+                            )}
+                            {user.roles.map(({ role }) => (
+                              <span
+                                key={role.id}
+                                style={{ padding: '4px 8px', borderRadius: '4px', background: '#28a745', color: 'white', fontSize: '0.8em' }}
+                              >
+                                {role.name}
+                              </span>
+                            ))}
+                            {can('roles:manage') && (
+                              <button
+                                onClick={() => {
+                                  setEditingRolesFor(user.id);
+                                  setSelectedRoleIds(user.roles.map(({ role }) => role.id));
+                                }}
+                                style={{ padding: '2px 6px', background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                              >
+                                Edit
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      <td style={{ padding: '12px' }}>{user._count.orders}</td>
+                      <td style={{ padding: '12px' }}>{user._count.messages}</td>
+                      <td style={{ padding: '12px' }}>{new Date(user.createdAt).toLocaleDateString()}</td>
+                      {can('users:manage') && (
+                        <td style={{ padding: '12px', whiteSpace: 'nowrap' }}>
+                          <button
+                            onClick={() => exportUserData(user.id)}
+                            style={{ padding: '2px 6px', background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                          >
+                            Export
+                          </button>
+                          {!user.deletedAt && (
+                            <button
+                              onClick={() => deleteUser(user.id, user.email)}
+                              style={{ marginLeft: '6px', padding: '2px 6px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Failed Logins */}
+            {loginAttempts.length > 0 && (
+              <div style={{ marginTop: '20px' }}>
+                <h3>Recent Failed Logins</h3>
+                <div style={{ overflowX: 'auto', maxHeight: '300px', overflowY: 'auto' }}>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9em' }}>
+                    <thead>
+                      <tr style={{ background: '#f8f9fa' }}>
+                        <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Time</th>
+                        <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Email</th>
+                        <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>IP</th>
+                        <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {loginAttempts.map((attempt) => (
+                        <tr key={attempt.id} style={{ borderBottom: '1px solid #dee2e6' }}>
+                          <td style={{ padding: '8px' }}>{new Date(attempt.createdAt).toLocaleString()}</td>
+                          <td style={{ padding: '8px' }}>{attempt.email}</td>
+                          <td style={{ padding: '8px' }}>{attempt.ip || 'N/A'}</td>
+                          <td style={{ padding: '8px' }}>{attempt.reason.replace(/_/g, ' ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* Admin Invitations */}
+            {can('roles:manage') && (
+              <div
+                style={{
+                  background: '#f8f9fa',
+                  padding: '20px',
+                  borderRadius: '8px',
+                  marginTop: '20px'
+                }}
+              >
+                <h3 style={{ marginTop: 0 }}>Invite Team Member</h3>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '15px', alignItems: 'center' }}>
+                  <input
+                    type="email"
+                    placeholder="Email"
+                    value={newInvitation.email}
+                    onChange={(e) => setNewInvitation({ ...newInvitation, email: e.target.value })}
+                    style={{ padding: '10px', borderRadius: '4px', border: '1px solid #ddd', minWidth: '250px' }}
+                  />
+                  {roles.map((role) => (
+                    <label key={role.id} title={role.description}>
+                      <input
+                        type="checkbox"
+                        checked={newInvitation.roleIds.includes(role.id)}
+                        onChange={() => setNewInvitation({ ...newInvitation, roleIds: toggleId(newInvitation.roleIds, role.id) })}
+                      />
+                      {' '}{role.name}
+                    </label>
+                  ))}
+                  <button
+                    onClick={sendInvitation}
+                    disabled={!newInvitation.email || newInvitation.roleIds.length === 0}
+                    style={{
+                      padding: '10px',
+                      background: '#28a745',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    Send Invitation
+                  </button>
+                </div>
+                {invitations.length > 0 && (
+                  <ul style={{ margin: '15px 0 0 0', paddingLeft: '20px' }}>
+                    {invitations.map((invitation) => (
+                      <li key={invitation.id} style={{ marginBottom: '8px' }}>
+                        {invitation.email} ({invitation.roles.map((role) => role.name).join(', ')}) - expires{' '}
+                        {new Date(invitation.expiresAt).toLocaleDateString()}{' '}
+                        <button
+                          onClick={() => revokeInvitation(invitation.id)}
+                          style={{ padding: '2px 6px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                        >
+                          Revoke
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* API Keys Tab */}
+        {/* Reviews Tab */}
+        {activeTab === 'reviews' && (
+          <div
+            style={{
+              background: 'white',
+              borderRadius: '10px',
+              padding: '20px',
+              boxShadow: '0 4px 6px rgba(0,0,0,0.1)'
+            }}
+          >
+            <h2 style={{ marginBottom: '20px', color: '#667eea' }}>Reviews</h2>
+            <p style={{ color: '#666', marginTop: 0 }}>
+              Only approved reviews are shown in the store and count towards product ratings.
+            </p>
+            <div style={{ display: 'flex', gap: '8px', marginBottom: '15px' }}>
+              {(['pending', 'approved', 'rejected'] as ReviewStatus[]).map((status) => (
+                <button
+                  key={status}
+                  onClick={() => filterReviews(status)}
+                  style={{
+                    padding: '6px 12px',
+                    background: reviewStatusFilter === status ? '#667eea' : 'transparent',
+                    color: reviewStatusFilter === status ? 'white' : '#667eea',
+                    border: '1px solid #667eea',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    textTransform: 'capitalize'
+                  }}
+                >
+                  {status}
+                </button>
+              ))}
+            </div>
+            {reviews.length === 0 && <p style={{ color: '#666' }}>No {reviewStatusFilter} reviews.</p>}
+            {reviews.map((review) => (
+              <div key={review.id} style={{ border: '1px solid #dee2e6', borderRadius: '8px', padding: '15px', marginBottom: '10px' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '8px' }}>
+                  <span>
+                    <strong>{review.product.name}</strong>{' '}
+                    <span style={{ color: '#ffc107' }}>{'★'.repeat(review.rating)}{'☆'.repeat(5 - review.rating)}</span>
+                  </span>
+                  <small style={{ color: '#666' }}>
+                    {review.user.email} · {new Date(review.createdAt).toLocaleString()}
+                  </small>
+                </div>
+                {review.title && <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>{review.title}</div>}
+                <p style={{ margin: '0 0 10px 0', whiteSpace: 'pre-wrap' }}>{review.body}</p>
+                {review.moderatedBy && (
+                  <p style={{ margin: '0 0 10px 0', color: '#999', fontSize: '0.85em' }}>
+                    Moderated by {review.moderatedBy.email}
+                    {review.moderatedAt && ` on ${new Date(review.moderatedAt).toLocaleString()}`}
+                  </p>
+                )}
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  {review.status !== 'approved' && (
+                    <button
+                      onClick={() => moderateReview(review, 'approved')}
+                      style={{ padding: '6px 12px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {review.status !== 'rejected' && (
+                    <button
+                      onClick={() => moderateReview(review, 'rejected')}
+                      style={{ padding: '6px 12px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                    >
+                      Reject
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {activeTab === 'coupons' && (
+          <div
+            style={{
+              background: 'white',
+              borderRadius: '10px',
+              padding: '20px',
+              boxShadow: '0 4px 6px rgba(0,0,0,0.1)'
+            }}
+          >
+            <h2 style={{ marginBottom: '20px', color: '#667eea' }}>Coupons</h2>
+            <p style={{ color: '#666', marginTop: 0 }}>
+              Shoppers enter a coupon code in their cart. Automatic coupons apply to every cart that qualifies, without a
+              code. Amounts are in {baseCurrency} and converted for other currencies.
+            </p>
+            <div style={{ background: '#f8f9fa', padding: '20px', borderRadius: '8px', marginBottom: '20px' }}>
+              <h3 style={{ marginTop: 0 }}>{editingCouponId ? `Edit ${couponForm.code}` : 'New Coupon'}</h3>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', alignItems: 'center' }}>
+                <input
+                  type="text"
+                  placeholder="Code, e.g. WELCOME10"
+                  value={couponForm.code}
+                  onChange={(e) => setCouponForm({ ...couponForm, code: e.target.value.toUpperCase() })}
+                  style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
+                <input
+                  type="text"
+                  placeholder="Description shown to shoppers"
+                  value={couponForm.description}
+                  onChange={(e) => setCouponForm({ ...couponForm, description: e.target.value })}
+                  style={{ flex: 1, minWidth: '200px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
+                <select
+                  value={couponForm.type}
+                  onChange={(e) => setCouponForm({ ...couponForm, type: e.target.value as CouponType })}
+                  style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                >
+                  <option value="percent">Percent off</option>
+                  <option value="fixed">Amount off</option>
+                  <option value="free_item">Free item</option>
+                </select>
+                {couponForm.type === 'free_item' ? (
+                  <input
+                    type="text"
+                    placeholder="SKU of the free item"
+                    value={couponForm.freeSku}
+                    onChange={(e) => setCouponForm({ ...couponForm, freeSku: e.target.value })}
+                    style={{ width: '160px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                  />
+                ) : (
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder={couponForm.type === 'percent' ? 'Percent' : `Amount in ${baseCurrency}`}
+                    value={couponForm.value}
+                    onChange={(e) => setCouponForm({ ...couponForm, value: e.target.value })}
+                    style={{ width: '140px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                  />
+                )}
+              </div>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', alignItems: 'center', marginTop: '10px' }}>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder={`Minimum subtotal (${baseCurrency})`}
+                  value={couponForm.minSubtotal}
+                  onChange={(e) => setCouponForm({ ...couponForm, minSubtotal: e.target.value })}
+                  style={{ width: '190px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="Total uses"
+                  value={couponForm.usageLimit}
+                  onChange={(e) => setCouponForm({ ...couponForm, usageLimit: e.target.value })}
+                  style={{ width: '110px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="Uses per customer"
+                  value={couponForm.perCustomerLimit}
+                  onChange={(e) => setCouponForm({ ...couponForm, perCustomerLimit: e.target.value })}
+                  style={{ width: '150px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
+                <label style={{ fontSize: '0.9em' }}>
+                  From{' '}
+                  <input
+                    type="datetime-local"
+                    value={couponForm.startsAt}
+                    onChange={(e) => setCouponForm({ ...couponForm, startsAt: e.target.value })}
+                    style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                  />
+                </label>
+                <label style={{ fontSize: '0.9em' }}>
+                  Until{' '}
+                  <input
+                    type="datetime-local"
+                    value={couponForm.endsAt}
+                    onChange={(e) => setCouponForm({ ...couponForm, endsAt: e.target.value })}
+                    style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                  />
+                </label>
+                <label style={{ fontSize: '0.9em' }}>
+                  <input
+                    type="checkbox"
+                    checked={couponForm.automatic}
+                    onChange={(e) => setCouponForm({ ...couponForm, automatic: e.target.checked })}
+                  />{' '}
+                  Apply automatically
+                </label>
+              </div>
+              <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+                <button
+                  onClick={saveCoupon}
+                  disabled={!couponForm.code}
+                  style={{ padding: '8px 12px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  {editingCouponId ? 'Save' : 'Create'}
+                </button>
+                {editingCouponId && (
+                  <button
+                    onClick={() => editCoupon(null)}
+                    style={{ padding: '8px 12px', background: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+            {coupons.length === 0 && <p style={{ color: '#666' }}>No coupons yet.</p>}
+            {coupons.map((coupon) => (
+              <div key={coupon.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '8px 0', borderTop: '1px solid #e9ecef' }}>
+                <span style={{ flex: 1 }}>
+                  <strong>{coupon.code}</strong>
+                  {coupon.automatic && <small style={{ marginLeft: '6px', color: '#667eea' }}>automatic</small>}
+                  {coupon.description && <span style={{ marginLeft: '6px' }}>{coupon.description}</span>}
+                  <br />
+                  <small style={{ color: '#666' }}>{couponSummary(coupon)}</small>
+                </span>
+                <label style={{ fontSize: '0.85em' }}>
+                  <input type="checkbox" checked={coupon.active} onChange={(e) => setCouponActive(coupon, e.target.checked)} /> Active
+                </label>
+                <button
+                  onClick={() => editCoupon(coupon)}
+                  style={{ padding: '2px 6px', background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => deleteCoupon(coupon)}
+                  style={{ padding: '2px 6px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                >
+                  Delete
+                </button>
               </div>
             ))}
           </div>
         )}
 
-        {/* Users Tab */}
-        {activeTab === 'users' && (
+        {activeTab === 'apiKeys' && (
           <div
             style={{
               background: 'white',
@@ -327,46 +2082,145 @@ export default function Admin() {
               boxShadow: '0 4px 6px rgba(0,0,0,0.1)'
             }}
           >
-            <h2 style={{ marginBottom: '20px', color: '#667eea' }}>Users Management</h2>
-            <div style={{ overflowX: 'auto' }}>
-              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
-                <thead>
-                  <tr style={{ background: '#f8f9fa' }}>
-                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Email</th>
-                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Name</th>
-                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Admin</th>
-                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Orders</th>
-                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Messages</th>
-                    <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Joined</th>
+            <h2 style={{ marginBottom: '20px', color: '#667eea' }}>API Keys</h2>
+            <p style={{ color: '#666', marginTop: 0 }}>
+              Send keys as <code>Authorization: ApiKey &lt;key&gt;</code>. A key acts as you, limited to its scopes.
+            </p>
+
+            <div
+              style={{
+                background: '#f8f9fa',
+                padding: '20px',
+                borderRadius: '8px',
+                marginBottom: '20px'
+              }}
+            >
+              <h3 style={{ marginTop: 0 }}>Create Key</h3>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '15px', alignItems: 'center' }}>
+                <input
+                  placeholder="Name, e.g. ERP sync"
+                  value={newApiKey.name}
+                  onChange={(e) => setNewApiKey({ ...newApiKey, name: e.target.value })}
+                  style={{ padding: '10px', borderRadius: '4px', border: '1px solid #ddd', minWidth: '200px' }}
+                />
+                <select
+                  value={newApiKey.expiresInDays}
+                  onChange={(e) => setNewApiKey({ ...newApiKey, expiresInDays: e.target.value })}
+                  style={{ padding: '10px', borderRadius: '4px', border: '1px solid #ddd' }}
+                >
+                  <option value="30">Expires in 30 days</option>
+                  <option value="90">Expires in 90 days</option>
+                  <option value="365">Expires in 1 year</option>
+                  <option value="">Never expires</option>
+                </select>
+                {apiKeyScopes.map((scope) => (
+                  <label key={scope}>
+                    <input
+                      type="checkbox"
+                      checked={newApiKey.scopes.includes(scope)}
+                      onChange={() => setNewApiKey({ ...newApiKey, scopes: toggleId(newApiKey.scopes, scope) })}
+                    />
+                    {' '}{scope}
+                  </label>
+                ))}
+                <button
+                  onClick={createApiKey}
+                  disabled={!newApiKey.name || newApiKey.scopes.length === 0}
+                  style={{
+                    padding: '10px',
+                    background: '#28a745',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Create Key
+                </button>
+              </div>
+              {createdKey && (
+                <div style={{ marginTop: '15px', padding: '10px', background: '#fff3cd', border: '1px solid #ffe69c', borderRadius: '4px' }}>
+                  Copy this key now, it will not be shown again:
+                  <code style={{ display: 'block', marginTop: '6px', wordBreak: 'break-all' }}>{createdKey}</code>
+                </div>
+              )}
+            </div>
+
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ background: '#f8f9fa' }}>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Name</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Key</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Scopes</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Last Used</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Status</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {apiKeys.map((apiKey) => (
+                  <tr key={apiKey.id} style={{ borderBottom: '1px solid #dee2e6' }}>
+                    <td style={{ padding: '12px' }}>{apiKey.name}</td>
+                    <td style={{ padding: '12px' }}><code>{apiKey.prefix}…</code></td>
+                    <td style={{ padding: '12px' }}>{apiKey.scopes.join(', ')}</td>
+                    <td style={{ padding: '12px' }}>
+                      {apiKey.lastUsedAt ? `${new Date(apiKey.lastUsedAt).toLocaleString()} (${apiKey.lastUsedIp || 'N/A'})` : 'Never'}
+                    </td>
+                    <td style={{ padding: '12px' }}>{apiKeyStatus(apiKey)}</td>
+                    <td style={{ padding: '12px' }}>
+                      {!apiKey.revokedAt && (
+                        <button
+                          onClick={() => revokeApiKey(apiKey.id)}
+                          style={{ padding: '4px 8px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </td>
                   </tr>
-                </thead>
-                <tbody>
-                  {users.map((user) => (
-                    <tr
-                      key={user.id}
-                      style={{ borderBottom: '1px solid #dee2e6' }}
-                    >
-                      <td style={{ padding: '12px' }}>{user.email}</td>
-                      <td style={{ padding: '12px' }}>{user.name || 'N/A'}</td>
-                      <td style={{ padding: '12px' }}>
-                        <span style={{
-                          padding: '4px 8px',
-                          borderRadius: '4px',
-                          background: user.isAdmin ? '#28a745' : '#6c757d',
-                          color: 'white',
-                          fontSize: '0.8em'
-                        }}>
-                          {user.isAdmin ? 'Admin' : 'User'}
-                        </span>
-                      </td>
-                      <td style={{ padding: '12px' }}>{user._count.orders}</td>
-                      <td style={{ padding: '12px' }}>{user._count.messages}</td>
-                      <td style={{ padding: '12px' }}>{new Date(user.createdAt).toLocaleDateString()}</td>
+                ))}
+              </tbody>
+            </table>
+
+            {/* Every user's keys */}
+            {can('users:read') && allApiKeys.length > 0 && (
+              <div style={{ marginTop: '20px' }}>
+                <h3>All Keys</h3>
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9em' }}>
+                  <thead>
+                    <tr style={{ background: '#f8f9fa' }}>
+                      <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Owner</th>
+                      <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Name</th>
+                      <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Scopes</th>
+                      <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Last Used</th>
+                      <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Status</th>
+                      <th style={{ padding: '8px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}></th>
                     </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+                  </thead>
+                  <tbody>
+                    {allApiKeys.map((apiKey) => (
+                      <tr key={apiKey.id} style={{ borderBottom: '1px solid #dee2e6' }}>
+                        <td style={{ padding: '8px' }}>{apiKey.user?.email}</td>
+                        <td style={{ padding: '8px' }}>{apiKey.name} <code>{apiKey.prefix}…</code></td>
+                        <td style={{ padding: '8px' }}>{apiKey.scopes.join(', ')}</td>
+                        <td style={{ padding: '8px' }}>{apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : 'Never'}</td>
+                        <td style={{ padding: '8px' }}>{apiKeyStatus(apiKey)}</td>
+                        <td style={{ padding: '8px' }}>
+                          {can('users:manage') && !apiKey.revokedAt && (
+                            <button
+                              onClick={() => revokeApiKey(apiKey.id, true)}
+                              style={{ padding: '2px 6px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                            >
+                              Revoke
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
         )}
 
@@ -399,35 +2253,80 @@ export default function Admin() {
                       </p>
                     </div>
                     <div style={{ textAlign: 'right' }}>
-                      <p style={{ margin: 0, fontSize: '1.2em', fontWeight: 'bold' }}>${order.total}</p>
+                      <p style={{ margin: 0, fontSize: '1.2em', fontWeight: 'bold' }}>{formatMoney(order.totalMinor, order.currency)}</p>
+                      {order.discounts.map((discount) => (
+                        <small key={discount.id} style={{ display: 'block', color: '#28a745' }}>
+                          {discount.code}: -{formatMoney(discount.amountMinor, order.currency)}
+                        </small>
+                      ))}
                       <select
                         value={order.status}
+                        disabled={!can('orders:update') || order.allowedStatuses.length === 0}
                         onChange={(e) => updateOrderStatus(order.id, e.target.value)}
                         style={{
                           padding: '5px',
                           borderRadius: '4px',
                           border: '1px solid #ddd',
-                          background: order.status === 'pending' ? '#fff3cd' : order.status === 'processing' ? '#cce5ff' : '#d4edda',
-                          color: order.status === 'pending' ? '#856404' : order.status === 'processing' ? '#004085' : '#155724'
+                          ...(orderStatusColors[order.status] || orderStatusColors.pending)
                         }}
                       >
-                        <option value="pending">Pending</option>
-                        <option value="processing">Processing</option>
-                        <option value="completed">Completed</option>
-                        <option value="cancelled">Cancelled</option>
+                        {[order.status, ...order.allowedStatuses].map((status) => (
+                          <option key={status} value={status}>{orderStatusLabels[status] || status}</option>
+                        ))}
                       </select>
+                      <button
+                        onClick={() => (orderTimeline?.orderId === order.id ? setOrderTimeline(null) : openOrderTimeline(order.id))}
+                        style={{ marginLeft: '8px', padding: '5px 10px', background: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                      >
+                        {orderTimeline?.orderId === order.id ? 'Hide timeline' : 'Timeline'}
+                      </button>
                     </div>
                   </div>
                   <div>
                     <strong>Items:</strong>
                     <ul style={{ margin: '5px 0', paddingLeft: '20px' }}>
                       {order.items.map((item) => (
-                        <li key={item.product.id}>
-                          {item.product.name} x{item.quantity} - ${item.product.price * item.quantity}
+                        <li key={item.id}>
+                          {item.product.name}
+                          {item.variantTitle && ` (${item.variantTitle})`}
+                          {item.sku && <small style={{ color: '#999' }}> {item.sku}</small>}
+                          {' '}x{item.quantity} - {formatMoney(item.priceMinor * item.quantity, order.currency)}
                         </li>
                       ))}
                     </ul>
                   </div>
+                  {orderTimeline?.orderId === order.id && (
+                    <div style={{ marginTop: '10px', paddingTop: '10px', borderTop: '1px solid #eee' }}>
+                      <strong>Timeline:</strong>
+                      <ol style={{ margin: '5px 0', paddingLeft: '20px', fontSize: '0.9em' }}>
+                        {orderTimeline.events.map((event) => (
+                          <li key={event.id} style={{ marginBottom: '4px' }}>
+                            <span style={{ color: '#666' }}>{new Date(event.createdAt).toLocaleString()}</span> ·{' '}
+                            {event.fromStatus
+                              ? `${orderStatusLabels[event.fromStatus] || event.fromStatus} → ${orderStatusLabels[event.toStatus] || event.toStatus}`
+                              : event.toStatus === 'pending' ? 'Placed' : orderStatusLabels[event.toStatus] || event.toStatus}
+                            <small style={{ color: '#999' }}> by {event.actor ? event.actor.name || event.actor.email : 'system'}</small>
+                            {event.note && <div style={{ color: '#555', fontStyle: 'italic' }}>{event.note}</div>}
+                          </li>
+                        ))}
+                      </ol>
+                      {orderTimeline.payments.length > 0 && (
+                        <>
+                          <strong>Payments:</strong>
+                          <ul style={{ margin: '5px 0', paddingLeft: '20px', fontSize: '0.9em' }}>
+                            {orderTimeline.payments.map((payment) => (
+                              <li key={payment.id} style={{ marginBottom: '4px' }}>
+                                <span style={{ color: '#666' }}>{new Date(payment.createdAt).toLocaleString()}</span> ·{' '}
+                                {formatMoney(payment.amountMinor, payment.currency)} via {payment.provider} · {payment.status}
+                                {payment.reference && <small style={{ color: '#999' }}> {payment.reference}</small>}
+                                {payment.failureReason && <div style={{ color: '#721c24' }}>{payment.failureReason}</div>}
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -466,7 +2365,8 @@ export default function Admin() {
                 />
                 <input
                   type="number"
-                  placeholder="Price"
+                  placeholder={`Price (${baseCurrency})`}
+                  step="0.01"
                   value={newProduct.price}
                   onChange={(e) => setNewProduct({ ...newProduct, price: parseFloat(e.target.value) || 0 })}
                   style={{ padding: '10px', borderRadius: '4px', border: '1px solid #ddd' }}
@@ -478,6 +2378,38 @@ export default function Admin() {
                   onChange={(e) => setNewProduct({ ...newProduct, stock: parseInt(e.target.value) || 0 })}
                   style={{ padding: '10px', borderRadius: '4px', border: '1px solid #ddd' }}
                 />
+                <input
+                  type="text"
+                  placeholder="SKU (generated if empty)"
+                  value={newProduct.sku}
+                  onChange={(e) => setNewProduct({ ...newProduct, sku: e.target.value })}
+                  style={{ padding: '10px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
+                <select
+                  value={newProduct.status}
+                  onChange={(e) => setNewProduct({ ...newProduct, status: e.target.value as ProductStatus })}
+                  style={{ padding: '10px', borderRadius: '4px', border: '1px solid #ddd' }}
+                >
+                  <option value="active">Active</option>
+                  <option value="draft">Draft</option>
+                </select>
+                <select
+                  value={newProduct.categoryId}
+                  onChange={(e) => setNewProduct({ ...newProduct, categoryId: e.target.value })}
+                  style={{ padding: '10px', borderRadius: '4px', border: '1px solid #ddd' }}
+                >
+                  <option value="">No category</option>
+                  {flattenCategories(categories).map(({ category, depth }) => (
+                    <option key={category.id} value={category.id}>{'— '.repeat(depth)}{category.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  placeholder="Tags, comma separated"
+                  value={newProduct.tags}
+                  onChange={(e) => setNewProduct({ ...newProduct, tags: e.target.value })}
+                  style={{ padding: '10px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
                 <button
                   onClick={addProduct}
                   style={{
@@ -507,7 +2439,595 @@ export default function Admin() {
               />
             </div>
 
+            {/* Import & Export */}
+            <div style={{ background: '#f8f9fa', padding: '20px', borderRadius: '8px', marginBottom: '20px' }}>
+              <h3 style={{ marginTop: 0 }}>Import &amp; Export</h3>
+              <p style={{ color: '#666', fontSize: '0.9em', marginTop: 0 }}>
+                CSV or JSON with the columns sku, name, description, price (in {baseCurrency}), stock, category (slug) and tags.
+                Known SKUs are updated, new ones create products. Preview first to see row errors.
+              </p>
+              <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => {
+                    setImportFile(e.target.files?.[0] || null);
+                    setImportResult(null);
+                  }}
+                />
+                <button
+                  onClick={() => importProducts(true)}
+                  disabled={!importFile}
+                  style={{ padding: '8px 12px', background: '#667eea', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  Preview
+                </button>
+                <button
+                  onClick={() => importProducts(false)}
+                  disabled={!importFile || !importResult?.dryRun}
+                  title={importResult?.dryRun ? undefined : 'Preview the file first'}
+                  style={{ padding: '8px 12px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  Import
+                </button>
+                <span style={{ flex: 1 }} />
+                <button
+                  onClick={() => exportProducts('csv')}
+                  style={{ padding: '8px 12px', background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => exportProducts('json')}
+                  style={{ padding: '8px 12px', background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  Export JSON
+                </button>
+              </div>
+              {importResult && (
+                <div style={{ marginTop: '15px' }}>
+                  <strong>
+                    {importResult.dryRun ? 'Preview' : 'Imported'}: {importResult.summary.created} new, {importResult.summary.updated} updated, {importResult.summary.failed} with errors
+                  </strong>
+                  {importResult.rows.some((row) => row.action === 'error') && (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px', fontSize: '0.9em' }}>
+                      <thead>
+                        <tr style={{ textAlign: 'left' }}>
+                          <th style={{ padding: '4px' }}>Row</th>
+                          <th style={{ padding: '4px' }}>SKU</th>
+                          <th style={{ padding: '4px' }}>Errors</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {importResult.rows.filter((row) => row.action === 'error').map((row) => (
+                          <tr key={row.row} style={{ borderTop: '1px solid #dee2e6' }}>
+                            <td style={{ padding: '4px' }}>{row.row}</td>
+                            <td style={{ padding: '4px' }}>{row.sku || '—'}</td>
+                            <td style={{ padding: '4px', color: '#dc3545' }}>{row.errors?.join('; ')}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Categories & Tags */}
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', gap: '20px', marginBottom: '20px' }}>
+              <div style={{ background: '#f8f9fa', padding: '20px', borderRadius: '8px' }}>
+                <h3 style={{ marginTop: 0 }}>Categories</h3>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', marginBottom: '15px' }}>
+                  <input
+                    type="text"
+                    placeholder="Category name"
+                    value={newCategory.name}
+                    onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+                    style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                  />
+                  <select
+                    value={newCategory.parentId}
+                    onChange={(e) => setNewCategory({ ...newCategory, parentId: e.target.value })}
+                    style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                  >
+                    <option value="">Top level</option>
+                    {flattenCategories(categories).map(({ category, depth }) => (
+                      <option key={category.id} value={category.id}>{'— '.repeat(depth)}{category.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={createCategory}
+                    disabled={!newCategory.name}
+                    style={{ padding: '8px 12px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                  >
+                    Add
+                  </button>
+                </div>
+                {flattenCategories(categories).map(({ category, depth }) => (
+                  <div key={category.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 0', paddingLeft: `${depth * 20}px` }}>
+                    <span style={{ flex: 1 }}>{category.name} <small style={{ color: '#999' }}>/{category.slug}</small></span>
+                    <select
+                      value={category.parentId || ''}
+                      onChange={(e) => updateCategory(category, { parentId: e.target.value || null })}
+                      title="Move under"
+                      style={{ padding: '2px', borderRadius: '4px', border: '1px solid #ddd', fontSize: '0.8em' }}
+                    >
+                      <option value="">Top level</option>
+                      {flattenCategories(categories).filter(({ category: option }) => option.id !== category.id).map(({ category: option, depth: optionDepth }) => (
+                        <option key={option.id} value={option.id}>{'— '.repeat(optionDepth)}{option.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => {
+                        const name = prompt('Rename category', category.name);
+                        if (name && name !== category.name) updateCategory(category, { name });
+                      }}
+                      style={{ padding: '2px 6px', background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => deleteCategory(category)}
+                      style={{ padding: '2px 6px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div style={{ background: '#f8f9fa', padding: '20px', borderRadius: '8px' }}>
+                <h3 style={{ marginTop: 0 }}>Tags</h3>
+                <p style={{ color: '#666', fontSize: '0.9em', marginTop: 0 }}>Tags are created from the product form.</p>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+                  {tags.map((tag) => (
+                    <span key={tag.id} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px', padding: '4px 8px', borderRadius: '12px', background: '#e9ecef', fontSize: '0.85em' }}>
+                      <span onClick={() => renameTag(tag)} style={{ cursor: 'pointer' }} title="Rename">
+                        {tag.name} ({tag._count?.products ?? 0})
+                      </span>
+                      <button
+                        onClick={() => deleteTag(tag)}
+                        style={{ background: 'transparent', border: 'none', color: '#dc3545', cursor: 'pointer', padding: 0 }}
+                        title="Delete"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div style={{ background: '#f8f9fa', padding: '20px', borderRadius: '8px' }}>
+                <h3 style={{ marginTop: 0 }}>Options</h3>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', marginBottom: '15px' }}>
+                  <input
+                    type="text"
+                    placeholder="Option name, e.g. Size"
+                    value={newOptionType.name}
+                    onChange={(e) => setNewOptionType({ ...newOptionType, name: e.target.value })}
+                    style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Values, comma separated"
+                    value={newOptionType.values}
+                    onChange={(e) => setNewOptionType({ ...newOptionType, values: e.target.value })}
+                    style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                  />
+                  <button
+                    onClick={createOptionType}
+                    disabled={!newOptionType.name || !parseTags(newOptionType.values).length}
+                    style={{ padding: '8px 12px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                  >
+                    Add
+                  </button>
+                </div>
+                {optionTypes.map((optionType) => (
+                  <div key={optionType.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 0' }}>
+                    <span style={{ flex: 1 }}>
+                      <strong>{optionType.name}</strong>{' '}
+                      <small style={{ color: '#666' }}>{optionType.values.map((value) => value.name).join(', ')}</small>
+                    </span>
+                    <button
+                      onClick={() => editOptionTypeValues(optionType)}
+                      style={{ padding: '2px 6px', background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                    >
+                      Values
+                    </button>
+                    <button
+                      onClick={() => deleteOptionType(optionType)}
+                      style={{ padding: '2px 6px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Price Lists */}
+            <div style={{ background: '#f8f9fa', padding: '20px', borderRadius: '8px', marginBottom: '20px' }}>
+              <h3 style={{ marginTop: 0 }}>Price Lists</h3>
+              <p style={{ color: '#666', fontSize: '0.9em', marginTop: 0 }}>
+                Catalog prices are in {baseCurrency}. A price list sells in another currency by converting with its
+                exchange rate, unless a variant has an explicit price in the list.
+              </p>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', marginBottom: '15px' }}>
+                <input
+                  type="text"
+                  placeholder="Name, e.g. Euro"
+                  value={newPriceList.name}
+                  onChange={(e) => setNewPriceList({ ...newPriceList, name: e.target.value })}
+                  style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
+                <input
+                  type="text"
+                  placeholder="Currency, e.g. EUR"
+                  maxLength={3}
+                  value={newPriceList.currency}
+                  onChange={(e) => setNewPriceList({ ...newPriceList, currency: e.target.value.toUpperCase() })}
+                  style={{ width: '140px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
+                <input
+                  type="text"
+                  placeholder={`Per 1 ${baseCurrency}, e.g. 0.92`}
+                  value={newPriceList.exchangeRate}
+                  onChange={(e) => setNewPriceList({ ...newPriceList, exchangeRate: e.target.value })}
+                  style={{ width: '160px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                />
+                <button
+                  onClick={createPriceList}
+                  disabled={!newPriceList.name || newPriceList.currency.length !== 3 || !newPriceList.exchangeRate}
+                  style={{ padding: '8px 12px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  Add
+                </button>
+              </div>
+              {priceLists.map((priceList) => (
+                <div key={priceList.id} style={{ padding: '6px 0', borderTop: '1px solid #e9ecef' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <span style={{ flex: 1 }}>
+                      <strong>{priceList.name}</strong> ({priceList.currency}){' '}
+                      <small style={{ color: '#666' }}>
+                        1 {baseCurrency} = {Number(priceList.exchangeRate)} {priceList.currency} · {priceList.prices.length} explicit prices
+                      </small>
+                    </span>
+                    <label style={{ fontSize: '0.85em' }}>
+                      <input
+                        type="checkbox"
+                        checked={priceList.active}
+                        onChange={(e) => updatePriceList(priceList, { active: e.target.checked })}
+                      />{' '}
+                      Active
+                    </label>
+                    <button
+                      onClick={() => {
+                        const exchangeRate = prompt(`${priceList.currency} per 1 ${baseCurrency}`, String(Number(priceList.exchangeRate)));
+                        if (exchangeRate) updatePriceList(priceList, { exchangeRate });
+                      }}
+                      style={{ padding: '2px 6px', background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                    >
+                      Rate
+                    </button>
+                    <button
+                      onClick={() => openPriceListEditor(priceList)}
+                      style={{ padding: '2px 6px', background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                    >
+                      Prices
+                    </button>
+                    <button
+                      onClick={() => deletePriceList(priceList)}
+                      style={{ padding: '2px 6px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  {priceListEditor?.priceListId === priceList.id && (
+                    <div style={{ marginTop: '10px' }}>
+                      <textarea
+                        rows={6}
+                        placeholder={`One variant per line: SKU, price in ${priceList.currency}`}
+                        value={priceListEditor.text}
+                        onChange={(e) => setPriceListEditor({ ...priceListEditor, text: e.target.value })}
+                        style={{ width: '100%', padding: '8px', borderRadius: '4px', border: '1px solid #ddd', fontFamily: 'monospace' }}
+                      />
+                      <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                        <button
+                          onClick={() => savePriceListPrices(priceListEditor)}
+                          style={{ padding: '6px 12px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                        >
+                          Save Prices
+                        </button>
+                        <button
+                          onClick={() => setPriceListEditor(null)}
+                          style={{ padding: '6px 12px', background: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Sales & Price History */}
+            {pricing && (() => {
+              const product = products.find((candidate) => candidate.id === pricing.productId);
+              const target = (variantId: string | null) =>
+                variantId ? product?.variants?.find((variant) => variant.id === variantId)?.sku || 'Variant' : 'All variants';
+              const money = (minor: number | null) => (minor === null ? '—' : formatMoney(minor, baseCurrency));
+              return (
+                <div style={{ background: '#f8f9fa', padding: '20px', borderRadius: '8px', marginBottom: '20px' }}>
+                  <h3 style={{ marginTop: 0 }}>Pricing of {product?.name}</h3>
+                  <p style={{ color: '#666', fontSize: '0.9em', marginTop: 0 }}>
+                    Sales switch prices on and off at the given times. A sale on all variants applies to those using the
+                    product price; the regular price is shown struck through unless a compare-at price is set.
+                  </p>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', marginBottom: '15px', alignItems: 'center' }}>
+                    <select
+                      value={newSchedule.variantId}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, variantId: e.target.value })}
+                      style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    >
+                      <option value="">All variants</option>
+                      {(product?.variants || []).map((variant) => (
+                        <option key={variant.id} value={variant.id}>{variant.sku}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="0.01"
+                      placeholder={`Sale price (${baseCurrency})`}
+                      value={newSchedule.price}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, price: e.target.value })}
+                      style={{ width: '150px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      placeholder="Compare-at (optional)"
+                      value={newSchedule.compareAtPrice}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, compareAtPrice: e.target.value })}
+                      style={{ width: '170px', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    />
+                    <label style={{ fontSize: '0.9em' }}>
+                      From{' '}
+                      <input
+                        type="datetime-local"
+                        value={newSchedule.startsAt}
+                        onChange={(e) => setNewSchedule({ ...newSchedule, startsAt: e.target.value })}
+                        style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      />
+                    </label>
+                    <label style={{ fontSize: '0.9em' }}>
+                      Until{' '}
+                      <input
+                        type="datetime-local"
+                        value={newSchedule.endsAt}
+                        onChange={(e) => setNewSchedule({ ...newSchedule, endsAt: e.target.value })}
+                        style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      />
+                    </label>
+                    <input
+                      type="text"
+                      placeholder="Note, e.g. Black Friday"
+                      value={newSchedule.note}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, note: e.target.value })}
+                      style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    />
+                    <button
+                      onClick={() => createSchedule(pricing.productId)}
+                      disabled={!newSchedule.price || !newSchedule.startsAt}
+                      style={{ padding: '8px 12px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                    >
+                      Schedule Sale
+                    </button>
+                  </div>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '15px' }}>
+                    <thead>
+                      <tr style={{ textAlign: 'left', borderBottom: '1px solid #ddd' }}>
+                        <th style={{ padding: '6px' }}>Applies to</th>
+                        <th style={{ padding: '6px' }}>Price</th>
+                        <th style={{ padding: '6px' }}>From</th>
+                        <th style={{ padding: '6px' }}>Until</th>
+                        <th style={{ padding: '6px' }}>State</th>
+                        <th style={{ padding: '6px' }}></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pricing.schedules.map((schedule) => (
+                        <tr key={schedule.id} style={{ borderBottom: '1px solid #eee' }}>
+                          <td style={{ padding: '6px' }}>{schedule.variant?.sku || 'All variants'}{schedule.note && <small style={{ color: '#666' }}> · {schedule.note}</small>}</td>
+                          <td style={{ padding: '6px' }}>
+                            {money(schedule.priceMinor)}
+                            {schedule.compareAtPriceMinor !== null && <s style={{ color: '#999', marginLeft: '6px' }}>{money(schedule.compareAtPriceMinor)}</s>}
+                          </td>
+                          <td style={{ padding: '6px' }}>{new Date(schedule.startsAt).toLocaleString()}</td>
+                          <td style={{ padding: '6px' }}>{schedule.endsAt ? new Date(schedule.endsAt).toLocaleString() : 'Until cancelled'}</td>
+                          <td style={{ padding: '6px' }}>{schedule.state}</td>
+                          <td style={{ padding: '6px' }}>
+                            {schedule.state !== 'ended' && (
+                              <button
+                                onClick={() => cancelSchedule(pricing.productId, schedule)}
+                                style={{ padding: '2px 6px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                              >
+                                {schedule.state === 'active' ? 'End now' : 'Cancel'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <h4 style={{ margin: '0 0 8px 0' }}>Price history</h4>
+                  <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '0.9em' }}>
+                    {pricing.history.map((entry, index) => (
+                      <li key={index}>
+                        <span style={{ color: '#666' }}>{new Date(entry.at).toLocaleString()}</span> · {target(entry.variantId)} ·{' '}
+                        {entry.type === 'change' ? (
+                          <>
+                            {priceChangeLabels[entry.reason] || entry.reason}: {money(entry.previousPriceMinor)} → {money(entry.priceMinor)}
+                            {entry.previousCompareAtPriceMinor !== entry.compareAtPriceMinor &&
+                              ` (compare-at ${money(entry.previousCompareAtPriceMinor)} → ${money(entry.compareAtPriceMinor)})`}
+                            {entry.changedBy && <small style={{ color: '#999' }}> by {entry.changedBy.email}</small>}
+                          </>
+                        ) : (
+                          <>{entry.type === 'sale_started' ? 'Sale started' : 'Sale ended'} at {money(entry.priceMinor)}</>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <button
+                    onClick={() => setPricing(null)}
+                    style={{ marginTop: '15px', padding: '8px 16px', background: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                  >
+                    Close
+                  </button>
+                </div>
+              );
+            })()}
+
+            {/* Variant Matrix */}
+            {variantEditor && (() => {
+              const product = products.find((candidate) => candidate.id === variantEditor.productId);
+              const valueName = (id: string) =>
+                optionTypes.flatMap((optionType) => optionType.values).find((value) => value.id === id)?.name || '?';
+              const updateRow = (index: number, changes: Partial<VariantRow>) =>
+                setVariantEditor({
+                  ...variantEditor,
+                  rows: variantEditor.rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row))
+                });
+              return (
+                <div style={{ background: '#f8f9fa', padding: '20px', borderRadius: '8px', marginBottom: '20px' }}>
+                  <h3 style={{ marginTop: 0 }}>Variants of {product?.name}</h3>
+                  {optionTypes.map((optionType) => {
+                    const selected = variantEditor.optionTypeIds.includes(optionType.id);
+                    return (
+                      <div key={optionType.id} style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', marginBottom: '8px' }}>
+                        <label style={{ minWidth: '120px', fontWeight: 'bold' }}>
+                          <input
+                            type="checkbox"
+                            checked={selected}
+                            onChange={() => setVariantEditor({ ...variantEditor, optionTypeIds: toggleId(variantEditor.optionTypeIds, optionType.id) })}
+                          />{' '}
+                          {optionType.name}
+                        </label>
+                        {selected && optionType.values.map((value) => (
+                          <label key={value.id} style={{ fontSize: '0.9em' }}>
+                            <input
+                              type="checkbox"
+                              checked={variantEditor.valueIds.includes(value.id)}
+                              onChange={() => setVariantEditor({ ...variantEditor, valueIds: toggleId(variantEditor.valueIds, value.id) })}
+                            />{' '}
+                            {value.name}
+                          </label>
+                        ))}
+                      </div>
+                    );
+                  })}
+                  <button
+                    onClick={() => generateVariantRows(variantEditor, product?.name || '')}
+                    style={{ padding: '6px 12px', background: '#667eea', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', margin: '10px 0' }}
+                  >
+                    Generate combinations
+                  </button>
+                  <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead>
+                      <tr style={{ textAlign: 'left' }}>
+                        <th style={{ padding: '6px' }}>Variant</th>
+                        <th style={{ padding: '6px' }}>SKU</th>
+                        <th style={{ padding: '6px' }}>Price</th>
+                        <th style={{ padding: '6px' }}>Stock</th>
+                        <th style={{ padding: '6px' }}></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {variantEditor.rows.map((row, index) => (
+                        <tr key={row.id || row.optionValueIds.join('-')} style={{ borderTop: '1px solid #dee2e6' }}>
+                          <td style={{ padding: '6px' }}>{row.optionValueIds.map(valueName).join(' / ') || 'Default'}</td>
+                          <td style={{ padding: '6px' }}>
+                            <input
+                              type="text"
+                              value={row.sku}
+                              onChange={(e) => updateRow(index, { sku: e.target.value })}
+                              style={{ padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                            />
+                          </td>
+                          <td style={{ padding: '6px' }}>
+                            <input
+                              type="number"
+                              placeholder={product ? `${fromMinorUnits(product.priceMinor, baseCurrency)}` : ''}
+                              value={row.price}
+                              onChange={(e) => updateRow(index, { price: e.target.value })}
+                              style={{ width: '90px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                            />
+                          </td>
+                          <td style={{ padding: '6px' }}>
+                            <input
+                              type="number"
+                              value={row.stock}
+                              onChange={(e) => updateRow(index, { stock: parseInt(e.target.value) || 0 })}
+                              style={{ width: '70px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                            />
+                          </td>
+                          <td style={{ padding: '6px' }}>
+                            <button
+                              onClick={() => setVariantEditor({ ...variantEditor, rows: variantEditor.rows.filter((_, rowIndex) => rowIndex !== index) })}
+                              disabled={variantEditor.rows.length === 1}
+                              style={{ background: 'transparent', border: 'none', color: '#dc3545', cursor: 'pointer' }}
+                              title="Remove"
+                            >
+                              ×
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p style={{ color: '#666', fontSize: '0.85em' }}>Leave the price empty to use the product price.</p>
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                      onClick={() => saveVariants(variantEditor)}
+                      style={{ padding: '8px 16px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                    >
+                      Save variants
+                    </button>
+                    <button
+                      onClick={() => setVariantEditor(null)}
+                      style={{ padding: '8px 16px', background: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              );
+            })()}
+
             {/* Products List */}
+            <div style={{ display: 'flex', gap: '8px', marginBottom: '15px' }}>
+              {[
+                { value: 'draft,active', label: 'Current' },
+                { value: 'draft', label: 'Drafts' },
+                { value: 'active', label: 'Active' },
+                { value: 'archived', label: 'Archived' }
+              ].map((filter) => (
+                <button
+                  key={filter.value}
+                  onClick={() => filterProducts(filter.value)}
+                  style={{
+                    padding: '6px 12px',
+                    background: productStatusFilter === filter.value ? '#667eea' : 'transparent',
+                    color: productStatusFilter === filter.value ? 'white' : '#667eea',
+                    border: '1px solid #667eea',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
             <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))', gap: '15px' }}>
               {products.map((product) => (
                 <div
@@ -529,14 +3049,54 @@ export default function Admin() {
                       />
                       <input
                         type="number"
-                        value={editingProduct.price}
-                        onChange={(e) => setEditingProduct({ ...editingProduct, price: parseFloat(e.target.value) || 0 })}
+                        step="0.01"
+                        value={fromMinorUnits(editingProduct.priceMinor, baseCurrency)}
+                        onChange={(e) => setEditingProduct({ ...editingProduct, priceMinor: toMinorUnits(e.target.value || 0, baseCurrency) })}
+                        style={{ width: '100%', padding: '8px', marginBottom: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        placeholder="Compare-at price (optional)"
+                        value={editingProduct.compareAtPriceMinor ? fromMinorUnits(editingProduct.compareAtPriceMinor, baseCurrency) : ''}
+                        onChange={(e) => setEditingProduct({
+                          ...editingProduct,
+                          compareAtPriceMinor: e.target.value ? toMinorUnits(e.target.value, baseCurrency) : null
+                        })}
                         style={{ width: '100%', padding: '8px', marginBottom: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
                       />
                       <input
                         type="number"
                         value={editingProduct.stock}
                         onChange={(e) => setEditingProduct({ ...editingProduct, stock: parseInt(e.target.value) || 0 })}
+                        disabled={!!editingProduct.optionTypes?.length}
+                        title={editingProduct.optionTypes?.length ? 'Stock is managed per variant' : undefined}
+                        style={{ width: '100%', padding: '8px', marginBottom: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      />
+                      <select
+                        value={editingProduct.status}
+                        onChange={(e) => setEditingProduct({ ...editingProduct, status: e.target.value as ProductStatus })}
+                        style={{ width: '100%', padding: '8px', marginBottom: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      >
+                        <option value="draft">Draft</option>
+                        <option value="active">Active</option>
+                        <option value="archived">Archived</option>
+                      </select>
+                      <select
+                        value={editingProduct.categoryId || ''}
+                        onChange={(e) => setEditingProduct({ ...editingProduct, categoryId: e.target.value || null })}
+                        style={{ width: '100%', padding: '8px', marginBottom: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      >
+                        <option value="">No category</option>
+                        {flattenCategories(categories).map(({ category, depth }) => (
+                          <option key={category.id} value={category.id}>{'— '.repeat(depth)}{category.name}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        placeholder="Tags, comma separated"
+                        value={editingTags}
+                        onChange={(e) => setEditingTags(e.target.value)}
                         style={{ width: '100%', padding: '8px', marginBottom: '8px', borderRadius: '4px', border: '1px solid #ddd' }}
                       />
                       <textarea
@@ -544,6 +3104,30 @@ export default function Admin() {
                         onChange={(e) => setEditingProduct({ ...editingProduct, description: e.target.value })}
                         style={{ width: '100%', padding: '8px', marginBottom: '8px', borderRadius: '4px', border: '1px solid #ddd', minHeight: '60px' }}
                       />
+                      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginBottom: '8px' }}>
+                        {(editingProduct.images || []).map((image, index, images) => (
+                          <div key={image.id} style={{ position: 'relative', textAlign: 'center' }}>
+                            <img src={image.thumbnailUrl} alt="" style={{ width: '64px', height: '64px', objectFit: 'cover', borderRadius: '4px', display: 'block' }} />
+                            <div style={{ display: 'flex', justifyContent: 'center', gap: '2px', fontSize: '0.8em' }}>
+                              <button onClick={() => moveImage(editingProduct, index, -1)} disabled={index === 0} style={{ padding: '0 4px', cursor: 'pointer' }} title="Move left">‹</button>
+                              <button onClick={() => deleteImage(editingProduct, image)} style={{ padding: '0 4px', color: '#dc3545', cursor: 'pointer' }} title="Delete">×</button>
+                              <button onClick={() => moveImage(editingProduct, index, 1)} disabled={index === images.length - 1} style={{ padding: '0 4px', cursor: 'pointer' }} title="Move right">›</button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <label style={{ display: 'block', marginBottom: '8px', fontSize: '0.9em', color: '#666' }}>
+                        Add images{' '}
+                        <input
+                          type="file"
+                          accept="image/jpeg,image/png,image/webp,image/gif,image/avif"
+                          multiple
+                          onChange={(e) => {
+                            uploadImages(editingProduct, e.target.files);
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
                       <div style={{ display: 'flex', gap: '8px' }}>
                         <button
                           onClick={() => updateProduct(editingProduct)}
@@ -561,29 +3145,90 @@ export default function Admin() {
                     </div>
                   ) : (
                     <div>
-                      <h3 style={{ margin: '0 0 10px 0' }}>{product.name}</h3>
+                      {product.images?.[0] && (
+                        <img
+                          src={product.images[0].mediumUrl}
+                          alt={product.name}
+                          style={{ width: '100%', height: '160px', objectFit: 'cover', borderRadius: '4px', marginBottom: '10px' }}
+                        />
+                      )}
+                      <h3 style={{ margin: '0 0 10px 0' }}>
+                        {product.name}{' '}
+                        <span style={{ padding: '2px 6px', borderRadius: '4px', background: statusColors[product.status], color: 'white', fontSize: '0.5em', verticalAlign: 'middle' }}>
+                          {product.status}
+                        </span>
+                      </h3>
                       <p style={{ margin: '0 0 10px 0', color: '#666', fontSize: '0.9em' }}>
                         {product.description}
                       </p>
+                      {(product.category || !!product.tags?.length) && (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '10px' }}>
+                          {product.category && (
+                            <span style={{ padding: '2px 6px', borderRadius: '4px', background: '#667eea', color: 'white', fontSize: '0.75em' }}>
+                              {product.category.name}
+                            </span>
+                          )}
+                          {product.tags?.map((tag) => (
+                            <span key={tag.id} style={{ padding: '2px 6px', borderRadius: '4px', background: '#e9ecef', fontSize: '0.75em' }}>
+                              #{tag.name}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
                         <span style={{ fontSize: '1.2em', fontWeight: 'bold', color: '#667eea' }}>
-                          ${product.price}
+                          {formatMoney(product.priceMinor, baseCurrency)}
+                          {!!product.compareAtPriceMinor && product.compareAtPriceMinor > product.priceMinor && (
+                            <s style={{ color: '#999', fontSize: '0.7em', marginLeft: '6px' }}>{formatMoney(product.compareAtPriceMinor, baseCurrency)}</s>
+                          )}
+                        </span>
+                        <span style={{ color: '#666' }}>
+                          {product.ratingCount > 0 && <span style={{ color: '#ffc107' }}>★ {product.ratingAverage.toFixed(1)} ({product.ratingCount}) · </span>}
+                          Stock: {product.stock}
                         </span>
-                        <span style={{ color: '#666' }}>Stock: {product.stock}</span>
                       </div>
+                      {!!product.optionTypes?.length && (
+                        <p style={{ margin: '0 0 10px 0', color: '#666', fontSize: '0.8em' }}>
+                          {product.variants?.length} variants · {product.optionTypes.map((optionType) => optionType.name).join(', ')}
+                        </p>
+                      )}
                       <div style={{ display: 'flex', gap: '8px' }}>
                         <button
-                          onClick={() => setEditingProduct(product)}
+                          onClick={() => {
+                            setEditingProduct(product);
+                            setEditingTags((product.tags || []).map((tag) => tag.name).join(', '));
+                          }}
                           style={{ padding: '6px 12px', background: '#007bff', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
                         >
                           Edit
                         </button>
                         <button
-                          onClick={() => deleteProduct(product.id)}
-                          style={{ padding: '6px 12px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                          onClick={() => openVariantEditor(product)}
+                          style={{ padding: '6px 12px', background: '#667eea', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                        >
+                          Variants
+                        </button>
+                        <button
+                          onClick={() => openPricing(product.id)}
+                          style={{ padding: '6px 12px', background: '#17a2b8', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
                         >
-                          Delete
+                          Pricing
                         </button>
+                        {product.status === 'archived' ? (
+                          <button
+                            onClick={() => restoreProduct(product)}
+                            style={{ padding: '6px 12px', background: '#28a745', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                          >
+                            Restore
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => archiveProduct(product)}
+                            style={{ padding: '6px 12px', background: '#dc3545', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '0.8em' }}
+                          >
+                            Archive
+                          </button>
+                        )}
                       </div>
                     </div>
                   )}
@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+export default function SetupTwoFactor() {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const token = localStorage.getItem('token');
+    if (!token) {
+      window.location.href = '/admin-login';
+      return;
+    }
+
+    fetch('http://localhost:4000/auth/2fa/setup', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` }
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (res.ok) setEnrollment(data);
+        else setError(data.error || 'Could not start two-factor setup');
+      })
+      .catch(() => setError('Network error. Please try again.'));
+  }, []);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const res = await fetch('http://localhost:4000/auth/2fa/enable', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({ code })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setRecoveryCodes(data.recoveryCodes);
+        const storedUser = JSON.parse(localStorage.getItem('user') || '{}');
+        localStorage.setItem('user', JSON.stringify({ ...storedUser, twoFactorEnabled: true }));
+      } else {
+        setError(data.error || 'Invalid code');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div
+        style={{
+          background: 'white',
+          padding: '40px',
+          borderRadius: '15px',
+          boxShadow: '0 20px 40px rgba(0,0,0,0.1)',
+          width: '100%',
+          maxWidth: '440px'
+        }}
+      >
+        <div style={{ textAlign: 'center', marginBottom: '30px' }}>
+          <h1 style={{ color: '#667eea', margin: '0 0 10px 0', fontSize: '2.5em' }}>🔐</h1>
+          <h2 style={{ color: '#333', margin: 0 }}>Two-Factor Authentication</h2>
+          <p style={{ color: '#666', margin: '10px 0 0 0' }}>Required for every account with admin access</p>
+        </div>
+
+        {recoveryCodes.length > 0 ? (
+          <div>
+            <p style={{ color: '#333' }}>
+              Save these recovery codes somewhere safe. Each one can be used once if you lose your authenticator.
+              They will not be shown again.
+            </p>
+            <pre
+              style={{
+                background: '#f8f9fa',
+                padding: '15px',
+                borderRadius: '8px',
+                textAlign: 'center',
+                fontSize: '16px',
+                lineHeight: 1.6
+              }}
+            >
+              {recoveryCodes.join('\n')}
+            </pre>
+            <button
+              onClick={() => window.location.href = '/admin'}
+              style={{
+                width: '100%',
+                padding: '15px',
+                background: '#28a745',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                fontSize: '16px',
+                cursor: 'pointer'
+              }}
+            >
+              Continue to Dashboard
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleEnable}>
+            {enrollment && (
+              <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+                <p style={{ color: '#666', marginTop: 0 }}>Scan this QR code with your authenticator app:</p>
+                <img src={enrollment.qrCode} alt="Authenticator QR code" width={200} height={200} />
+                <p style={{ color: '#666', fontSize: '0.85em', wordBreak: 'break-all' }}>
+                  Or enter this key manually: <code>{enrollment.secret}</code>
+                </p>
+              </div>
+            )}
+
+            <div style={{ marginBottom: '30px' }}>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="6-digit code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                style={{
+                  width: '100%',
+                  padding: '15px',
+                  border: '2px solid #e1e5e9',
+                  borderRadius: '8px',
+                  fontSize: '16px',
+                  outline: 'none',
+                  boxSizing: 'border-box'
+                }}
+              />
+            </div>
+
+            {error && (
+              <div
+                style={{
+                  background: '#fee',
+                  color: '#c33',
+                  padding: '10px',
+                  borderRadius: '5px',
+                  marginBottom: '20px',
+                  textAlign: 'center',
+                  border: '1px solid #fcc'
+                }}
+              >
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading || !enrollment}
+              style={{
+                width: '100%',
+                padding: '15px',
+                background: loading || !enrollment ? '#ccc' : '#667eea',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                fontSize: '16px',
+                cursor: loading || !enrollment ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {loading ? 'Verifying...' : 'Enable Two-Factor Authentication'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserRole" (
+    "userId" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserRole_pkey" PRIMARY KEY ("userId","roleId")
+);
+
+-- CreateTable
+CREATE TABLE "Invitation" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_InvitationToRole" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_name_key" ON "Role"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invitation_tokenHash_key" ON "Invitation"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_InvitationToRole_AB_unique" ON "_InvitationToRole"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_InvitationToRole_B_index" ON "_InvitationToRole"("B");
+
+-- AddForeignKey
+ALTER TABLE "UserRole" ADD CONSTRAINT "UserRole_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRole" ADD CONSTRAINT "UserRole_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invitation" ADD CONSTRAINT "Invitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_InvitationToRole" ADD CONSTRAINT "_InvitationToRole_A_fkey" FOREIGN KEY ("A") REFERENCES "Invitation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_InvitationToRole" ADD CONSTRAINT "_InvitationToRole_B_fkey" FOREIGN KEY ("B") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the built-in roles
+INSERT INTO "Role" ("id", "name", "description", "permissions", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'admin', 'Full access to the admin portal', ARRAY['*'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'support', 'Customer support agents', ARRAY['users:read', 'orders:read'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'catalog_manager', 'Manages products and stock', ARRAY['products:write', 'stats:read'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'fulfillment', 'Order fulfillment staff', ARRAY['orders:read', 'orders:update'], CURRENT_TIMESTAMP);
+
+-- Existing admins keep full access through the admin role
+INSERT INTO "UserRole" ("userId", "roleId")
+SELECT u."id", r."id" FROM "User" u, "Role" r WHERE u."isAdmin" = true AND r."name" = 'admin';
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "isAdmin";
@@ -0,0 +1,108 @@
+-- CreateTable
+CREATE TABLE "OptionType" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OptionType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OptionValue" (
+    "id" TEXT NOT NULL,
+    "optionTypeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "OptionValue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductVariant" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "sku" TEXT NOT NULL,
+    "price" DOUBLE PRECISION,
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_OptionTypeToProduct" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "_OptionValueToProductVariant" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OptionType_name_key" ON "OptionType"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OptionValue_optionTypeId_name_key" ON "OptionValue"("optionTypeId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductVariant_sku_key" ON "ProductVariant"("sku");
+
+-- CreateIndex
+CREATE INDEX "ProductVariant_productId_idx" ON "ProductVariant"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_OptionTypeToProduct_AB_unique" ON "_OptionTypeToProduct"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_OptionTypeToProduct_B_index" ON "_OptionTypeToProduct"("B");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_OptionValueToProductVariant_AB_unique" ON "_OptionValueToProductVariant"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_OptionValueToProductVariant_B_index" ON "_OptionValueToProductVariant"("B");
+
+-- AddForeignKey
+ALTER TABLE "OptionValue" ADD CONSTRAINT "OptionValue_optionTypeId_fkey" FOREIGN KEY ("optionTypeId") REFERENCES "OptionType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductVariant" ADD CONSTRAINT "ProductVariant_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_OptionTypeToProduct" ADD CONSTRAINT "_OptionTypeToProduct_A_fkey" FOREIGN KEY ("A") REFERENCES "OptionType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_OptionTypeToProduct" ADD CONSTRAINT "_OptionTypeToProduct_B_fkey" FOREIGN KEY ("B") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_OptionValueToProductVariant" ADD CONSTRAINT "_OptionValueToProductVariant_A_fkey" FOREIGN KEY ("A") REFERENCES "OptionValue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_OptionValueToProductVariant" ADD CONSTRAINT "_OptionValueToProductVariant_B_fkey" FOREIGN KEY ("B") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Give every existing product a default variant carrying its stock
+INSERT INTO "ProductVariant" ("id", "productId", "sku", "stock", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 'SKU-' || upper(substr(md5("id"), 1, 10)), "stock", CURRENT_TIMESTAMP
+FROM "Product";
+
+-- AlterTable: cart items point at the default variant
+ALTER TABLE "CartItem" ADD COLUMN "variantId" TEXT;
+UPDATE "CartItem" SET "variantId" = v."id" FROM "ProductVariant" v WHERE v."productId" = "CartItem"."productId";
+ALTER TABLE "CartItem" ALTER COLUMN "variantId" SET NOT NULL;
+
+-- AlterTable: order items keep a snapshot of the variant
+ALTER TABLE "OrderItem" ADD COLUMN "variantId" TEXT,
+ADD COLUMN "sku" TEXT,
+ADD COLUMN "variantTitle" TEXT;
+UPDATE "OrderItem" SET "variantId" = v."id", "sku" = v."sku" FROM "ProductVariant" v WHERE v."productId" = "OrderItem"."productId";
+
+-- AddForeignKey
+ALTER TABLE "CartItem" ADD CONSTRAINT "CartItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
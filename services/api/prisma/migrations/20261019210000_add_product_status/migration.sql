@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'active';
+
+-- CreateIndex
+CREATE INDEX "Product_status_idx" ON "Product"("status");
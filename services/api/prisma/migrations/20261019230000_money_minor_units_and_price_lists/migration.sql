@@ -0,0 +1,91 @@
+-- Money moves from floating point to integer minor units. Existing amounts are
+-- in the shop's base currency, which SQL cannot read from BASE_CURRENCY, so a
+-- database that already has products or orders must name it (and its number of
+-- decimals) before migrating, for example:
+--   ALTER DATABASE ecomdb SET app.base_currency = 'EUR';
+--   ALTER DATABASE ecomdb SET app.base_currency_digits = '2';
+-- The migration stops rather than guess when they are missing.
+DO $$
+BEGIN
+  IF (COALESCE(current_setting('app.base_currency', true), '') = ''
+      OR COALESCE(current_setting('app.base_currency_digits', true), '') = '')
+     AND (EXISTS (SELECT 1 FROM "Product") OR EXISTS (SELECT 1 FROM "Order")) THEN
+    RAISE EXCEPTION 'Existing prices need a base currency: set app.base_currency and app.base_currency_digits on the database (see the README) and run the migration again';
+  END IF;
+END $$;
+
+CREATE TEMPORARY TABLE "_base_currency" AS
+SELECT UPPER(current_setting('app.base_currency', true)) AS "code",
+       POWER(10, COALESCE(NULLIF(current_setting('app.base_currency_digits', true), ''), '2')::INTEGER) AS "scale";
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "priceMinor" INTEGER;
+UPDATE "Product" SET "priceMinor" = ROUND("price" * (SELECT "scale" FROM "_base_currency"))::INTEGER;
+ALTER TABLE "Product" ALTER COLUMN "priceMinor" SET NOT NULL;
+DROP INDEX "Product_price_idx";
+ALTER TABLE "Product" DROP COLUMN "price";
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN "priceMinor" INTEGER;
+UPDATE "ProductVariant" SET "priceMinor" = ROUND("price" * (SELECT "scale" FROM "_base_currency"))::INTEGER WHERE "price" IS NOT NULL;
+ALTER TABLE "ProductVariant" DROP COLUMN "price";
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "totalMinor" INTEGER,
+ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "exchangeRate" DECIMAL(18,8) NOT NULL DEFAULT 1;
+UPDATE "Order" SET "totalMinor" = ROUND("total" * (SELECT "scale" FROM "_base_currency"))::INTEGER,
+"currency" = (SELECT "code" FROM "_base_currency");
+ALTER TABLE "Order" ALTER COLUMN "totalMinor" SET NOT NULL,
+ALTER COLUMN "currency" SET NOT NULL,
+ALTER COLUMN "exchangeRate" DROP DEFAULT;
+ALTER TABLE "Order" DROP COLUMN "total";
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN "priceMinor" INTEGER;
+UPDATE "OrderItem" SET "priceMinor" = ROUND("price" * (SELECT "scale" FROM "_base_currency"))::INTEGER;
+ALTER TABLE "OrderItem" ALTER COLUMN "priceMinor" SET NOT NULL;
+ALTER TABLE "OrderItem" DROP COLUMN "price";
+
+DROP TABLE "_base_currency";
+
+-- CreateTable
+CREATE TABLE "PriceList" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "exchangeRate" DECIMAL(18,8) NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PriceListPrice" (
+    "id" TEXT NOT NULL,
+    "priceListId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "priceMinor" INTEGER NOT NULL,
+
+    CONSTRAINT "PriceListPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Product_priceMinor_idx" ON "Product"("priceMinor");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceList_currency_key" ON "PriceList"("currency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceListPrice_priceListId_variantId_key" ON "PriceListPrice"("priceListId", "variantId");
+
+-- CreateIndex
+CREATE INDEX "PriceListPrice_variantId_idx" ON "PriceListPrice"("variantId");
+
+-- AddForeignKey
+ALTER TABLE "PriceListPrice" ADD CONSTRAINT "PriceListPrice_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "PriceList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceListPrice" ADD CONSTRAINT "PriceListPrice_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
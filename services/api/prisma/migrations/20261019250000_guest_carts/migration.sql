@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Cart" ALTER COLUMN "userId" DROP NOT NULL;
@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "Cart" ADD COLUMN     "couponId" TEXT;
+
+-- AlterTable: orders so far had no discounts
+ALTER TABLE "Order" ADD COLUMN     "subtotalMinor" INTEGER,
+ADD COLUMN     "discountMinor" INTEGER NOT NULL DEFAULT 0;
+UPDATE "Order" SET "subtotalMinor" = "totalMinor";
+ALTER TABLE "Order" ALTER COLUMN "subtotalMinor" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "Coupon" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "type" TEXT NOT NULL,
+    "percentOff" INTEGER,
+    "amountOffMinor" INTEGER,
+    "freeVariantId" TEXT,
+    "minSubtotalMinor" INTEGER,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "usageLimit" INTEGER,
+    "perCustomerLimit" INTEGER,
+    "automatic" BOOLEAN NOT NULL DEFAULT false,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Coupon_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderDiscount" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "couponId" TEXT,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amountMinor" INTEGER NOT NULL,
+
+    CONSTRAINT "OrderDiscount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Coupon_code_key" ON "Coupon"("code");
+
+-- CreateIndex
+CREATE INDEX "OrderDiscount_orderId_idx" ON "OrderDiscount"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderDiscount_couponId_idx" ON "OrderDiscount"("couponId");
+
+-- AddForeignKey
+ALTER TABLE "Cart" ADD CONSTRAINT "Cart_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Coupon" ADD CONSTRAINT "Coupon_freeVariantId_fkey" FOREIGN KEY ("freeVariantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderDiscount" ADD CONSTRAINT "OrderDiscount_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderDiscount" ADD CONSTRAINT "OrderDiscount_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Coupon management for the built-in catalog role
+UPDATE "Role" SET "permissions" = array_append("permissions", 'promotions:manage'), "updatedAt" = CURRENT_TIMESTAMP
+WHERE "name" = 'catalog_manager';
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "Coupon" ADD COLUMN     "userId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CartReminder" (
+    "id" TEXT NOT NULL,
+    "cartId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "items" JSONB NOT NULL,
+    "couponId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "restoredAt" TIMESTAMP(3),
+    "orderId" TEXT,
+    "recoveredAt" TIMESTAMP(3),
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CartReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartReminder_tokenHash_key" ON "CartReminder"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartReminder_orderId_key" ON "CartReminder"("orderId");
+
+-- CreateIndex
+CREATE INDEX "CartReminder_cartId_idx" ON "CartReminder"("cartId");
+
+-- CreateIndex
+CREATE INDEX "CartReminder_sentAt_idx" ON "CartReminder"("sentAt");
+
+-- AddForeignKey
+ALTER TABLE "Coupon" ADD CONSTRAINT "Coupon_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartReminder" ADD CONSTRAINT "CartReminder_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "Cart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartReminder" ADD CONSTRAINT "CartReminder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartReminder" ADD CONSTRAINT "CartReminder_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartReminder" ADD CONSTRAINT "CartReminder_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "StockHold" (
+    "id" TEXT NOT NULL,
+    "cartId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockHold_cartId_variantId_key" ON "StockHold"("cartId", "variantId");
+
+-- CreateIndex
+CREATE INDEX "StockHold_expiresAt_idx" ON "StockHold"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "StockHold" ADD CONSTRAINT "StockHold_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "Cart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockHold" ADD CONSTRAINT "StockHold_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
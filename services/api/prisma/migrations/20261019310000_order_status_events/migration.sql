@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "stockTaken" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "OrderStatusEvent" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderStatusEvent_orderId_createdAt_idx" ON "OrderStatusEvent"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusEvent" ADD CONSTRAINT "OrderStatusEvent_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusEvent" ADD CONSTRAINT "OrderStatusEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- "completed" is now "delivered"; anything else outside the known statuses was
+-- a free-form value and is treated as still pending
+UPDATE "Order" SET "status" = 'delivered' WHERE "status" = 'completed';
+UPDATE "Order" SET "status" = 'pending' WHERE "status" NOT IN ('pending', 'processing', 'shipped', 'delivered', 'cancelled');
+
+-- Existing orders start their history with the status they have now
+INSERT INTO "OrderStatusEvent" ("id", "orderId", "fromStatus", "toStatus", "note", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, "status", 'Status when history recording started', "updatedAt" FROM "Order";
@@ -0,0 +1,66 @@
+import { cartReminderEmail, isAbandoned, linesToRestore, recoveryRate, renderTemplate } from './abandoned';
+
+const hours = (count: number) => count * 60 * 60 * 1000;
+
+describe('isAbandoned', () => {
+  const schedule = { idleMs: hours(4), maxIdleMs: hours(72) };
+  const now = new Date('2026-10-19T12:00:00Z');
+  const ago = (count: number) => new Date(now.getTime() - hours(count));
+
+  it('picks carts idle between the idle period and the cut-off', () => {
+    expect(isAbandoned(ago(1), null, schedule, now)).toBe(false);
+    expect(isAbandoned(ago(5), null, schedule, now)).toBe(true);
+    expect(isAbandoned(ago(100), null, schedule, now)).toBe(false);
+  });
+
+  it('reminds once per idle spell', () => {
+    expect(isAbandoned(ago(10), ago(6), schedule, now)).toBe(false);
+    expect(isAbandoned(ago(10), ago(20), schedule, now)).toBe(true);
+  });
+});
+
+describe('linesToRestore', () => {
+  const line = (variantId: string, quantity: number) => ({ productId: 'p', variantId, quantity });
+
+  it('puts back missing lines up to the stock', () => {
+    const lines = linesToRestore([line('a', 2), line('b', 3), line('c', 1)], [line('a', 1)], new Map([['b', 2], ['c', 0]]));
+    expect(lines).toEqual([line('b', 2)]);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills known placeholders and blanks unknown ones', () => {
+    expect(renderTemplate('Hi {{ name }}, {{missing}}!', { name: 'Ada' })).toBe('Hi Ada, !');
+  });
+});
+
+describe('cartReminderEmail', () => {
+  const content = {
+    name: 'Ada',
+    items: [{ name: 'Mug', quantity: 2 }],
+    restoreUrl: 'https://shop.test/?restoreCart=abc',
+    expiresAt: new Date('2026-10-26T12:00:00Z'),
+    coupon: null,
+  };
+
+  it('lists the items and the restore link', () => {
+    const email = cartReminderEmail(content);
+    expect(email.subject).toBe('Ada, you left something in your cart');
+    expect(email.text).toContain('2 × Mug');
+    expect(email.text).toContain('https://shop.test/?restoreCart=abc');
+    expect(email.text).toContain('2026-10-26');
+    expect(email.text).not.toContain('Use code');
+  });
+
+  it('includes the coupon when there is one', () => {
+    const email = cartReminderEmail({ ...content, coupon: { code: 'BACK-1234', percentOff: 10 } });
+    expect(email.text).toContain('Use code BACK-1234 at checkout for 10% off');
+  });
+});
+
+describe('recoveryRate', () => {
+  it('is a percentage with one decimal', () => {
+    expect(recoveryRate(0, 0)).toBe(0);
+    expect(recoveryRate(3, 1)).toBe(33.3);
+  });
+});
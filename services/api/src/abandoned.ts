@@ -0,0 +1,78 @@
+import { CartLine } from './carts';
+
+// Abandoned cart reminders. A signed-in customer's cart that has sat untouched
+// (Cart.updatedAt) for the idle period gets one reminder per idle spell; carts
+// idle for longer than the cut-off are left alone so turning the job on does
+// not email every old cart at once. An order placed from the cart before the
+// reminder's link expires counts as recovered.
+export interface ReminderSchedule {
+  idleMs: number;
+  maxIdleMs: number;
+}
+
+export const isAbandoned = (
+  cartUpdatedAt: Date,
+  lastReminderAt: Date | null,
+  schedule: ReminderSchedule,
+  now = new Date(),
+) => {
+  const idleMs = now.getTime() - cartUpdatedAt.getTime();
+  if (idleMs < schedule.idleMs || idleMs > schedule.maxIdleMs) return false;
+  // Already reminded since the cart was last touched
+  return !lastReminderAt || lastReminderAt < cartUpdatedAt;
+};
+
+// Reminded lines missing from the cart now, capped at the stock. Lines still
+// in the cart are left as the customer set them; sold-out ones are skipped.
+export const linesToRestore = (reminded: CartLine[], current: { variantId: string }[], stock: Map<string, number>) => {
+  const present = new Set(current.map(line => line.variantId));
+  return reminded
+    .filter(line => !present.has(line.variantId))
+    .map(line => ({ ...line, quantity: Math.min(line.quantity, stock.get(line.variantId) ?? 0) }))
+    .filter(line => line.quantity > 0);
+};
+
+// Fills {{placeholders}}; unknown ones render empty
+export const renderTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key] ?? '');
+
+export const CART_REMINDER_SUBJECT = '{{name}}, you left something in your cart';
+
+export const CART_REMINDER_TEXT = `Hi {{name}},
+
+You still have these items in your cart:
+
+{{items}}
+{{offer}}
+Pick up where you left off with one click:
+
+{{restoreUrl}}
+
+The link expires on {{expiresOn}}.`;
+
+export const CART_REMINDER_OFFER = `
+Use code {{couponCode}} at checkout for {{percentOff}}% off. It works once and expires with the link.
+`;
+
+export interface ReminderContent {
+  name: string;
+  items: { name: string; quantity: number }[];
+  restoreUrl: string;
+  expiresAt: Date;
+  coupon: { code: string; percentOff: number } | null;
+}
+
+export const cartReminderEmail = ({ name, items, restoreUrl, expiresAt, coupon }: ReminderContent) => {
+  const values = {
+    name,
+    items: items.map(item => `  ${item.quantity} × ${item.name}`).join('\n'),
+    offer: coupon ? renderTemplate(CART_REMINDER_OFFER, { couponCode: coupon.code, percentOff: String(coupon.percentOff) }) : '',
+    restoreUrl,
+    expiresOn: expiresAt.toISOString().slice(0, 10),
+  };
+  return { subject: renderTemplate(CART_REMINDER_SUBJECT, values), text: renderTemplate(CART_REMINDER_TEXT, values) };
+};
+
+// Share of reminders that led to an order, as a percentage with one decimal
+export const recoveryRate = (sent: number, recovered: number) =>
+  sent > 0 ? Math.round((recovered / sent) * 1000) / 10 : 0;
@@ -0,0 +1,59 @@
+import { lineWarnings, mergeCartLines, signCartToken, verifyCartToken } from './carts';
+
+describe('cart tokens', () => {
+  it('round-trips the cart id', () => {
+    expect(verifyCartToken(signCartToken('cart-1', 'secret'), 'secret')).toBe('cart-1');
+  });
+
+  it('rejects tampered or foreign tokens', () => {
+    const token = signCartToken('cart-1', 'secret');
+    expect(verifyCartToken(token.replace('cart-1', 'cart-2'), 'secret')).toBeNull();
+    expect(verifyCartToken(token, 'other-secret')).toBeNull();
+    expect(verifyCartToken('cart-1', 'secret')).toBeNull();
+  });
+});
+
+describe('mergeCartLines', () => {
+  const line = (variantId: string, quantity: number) => ({ productId: 'p', variantId, quantity });
+
+  it('sums quantities of the same variant', () => {
+    const { lines, adjustments } = mergeCartLines([line('a', 1)], [line('a', 2), line('b', 1)], new Map([['a', 10], ['b', 5]]));
+    expect(lines).toEqual([line('a', 3), line('b', 1)]);
+    expect(adjustments).toEqual([]);
+  });
+
+  it('caps merged lines at the stock and drops sold-out ones', () => {
+    const { lines, adjustments } = mergeCartLines([line('a', 2)], [line('a', 2), line('b', 1)], new Map([['a', 3], ['b', 0]]));
+    expect(lines).toEqual([line('a', 3)]);
+    expect(adjustments).toEqual([
+      { variantId: 'a', requested: 4, quantity: 3 },
+      { variantId: 'b', requested: 1, quantity: 0 },
+    ]);
+  });
+
+  it('leaves lines only in the user cart alone', () => {
+    const { lines } = mergeCartLines([line('a', 5)], [line('b', 1)], new Map([['b', 1]]));
+    expect(lines).toEqual([line('a', 5), line('b', 1)]);
+  });
+});
+
+describe('lineWarnings', () => {
+  const line = { active: true, stock: 5, quantity: 2, addedPriceMinor: 1000, priceMinor: 1000 };
+
+  it('is quiet when nothing changed', () => {
+    expect(lineWarnings(line)).toEqual([]);
+    expect(lineWarnings({ ...line, addedPriceMinor: null, priceMinor: 900 })).toEqual([]);
+  });
+
+  it('reports availability before stock', () => {
+    expect(lineWarnings({ ...line, active: false, stock: 0 })).toEqual([{ code: 'unavailable' }]);
+    expect(lineWarnings({ ...line, stock: 0 })).toEqual([{ code: 'out_of_stock' }]);
+    expect(lineWarnings({ ...line, stock: 1 })).toEqual([{ code: 'insufficient_stock', available: 1 }]);
+  });
+
+  it('reports price changes in either direction', () => {
+    expect(lineWarnings({ ...line, priceMinor: 800 })).toEqual([
+      { code: 'price_changed', previousPriceMinor: 1000, priceMinor: 800 },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+
+// Guest carts belong to no user. The client keeps a signed token naming the
+// cart and sends it in the X-Cart-Token header; the signature stops anyone
+// from reading or filling another visitor's cart by guessing its id.
+const signature = (cartId: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(`cart:${cartId}`).digest('base64url');
+
+export const signCartToken = (cartId: string, secret: string) => `${cartId}.${signature(cartId, secret)}`;
+
+// The cart id, or null when the token was not issued by us
+export const verifyCartToken = (token: string, secret: string) => {
+  const [cartId, given] = token.split('.');
+  if (!cartId || !given) return null;
+  const expected = Buffer.from(signature(cartId, secret));
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? cartId : null;
+};
+
+export interface CartLine {
+  productId: string;
+  variantId: string;
+  quantity: number;
+}
+
+export interface MergeAdjustment {
+  variantId: string;
+  requested: number;
+  quantity: number;
+}
+
+// Adds the guest lines to the user's, summing quantities per variant. Merged
+// variants are capped at their stock and dropped when none is left; lines
+// only in the user's cart are left as they are.
+export const mergeCartLines = (userLines: CartLine[], guestLines: CartLine[], stock: Map<string, number>) => {
+  const lines = new Map(userLines.map(line => [line.variantId, { ...line }]));
+  guestLines.forEach(line => {
+    const current = lines.get(line.variantId);
+    lines.set(line.variantId, current ? { ...current, quantity: current.quantity + line.quantity } : { ...line });
+  });
+
+  const merged = new Set(guestLines.map(line => line.variantId));
+  const adjustments: MergeAdjustment[] = [];
+  const result: CartLine[] = [];
+  lines.forEach(line => {
+    const available = merged.has(line.variantId) ? stock.get(line.variantId) ?? 0 : Infinity;
+    if (line.quantity > available) adjustments.push({ variantId: line.variantId, requested: line.quantity, quantity: available });
+    const quantity = Math.min(line.quantity, available);
+    if (quantity > 0) result.push({ ...line, quantity });
+  });
+  return { lines: result, adjustments };
+};
+
+export type CartWarning =
+  | { code: 'unavailable' }
+  | { code: 'out_of_stock' }
+  | { code: 'insufficient_stock'; available: number }
+  | { code: 'price_changed'; previousPriceMinor: number; priceMinor: number };
+
+// What changed about a line since it was added. Prices are compared in the base
+// currency so exchange rate changes do not count as price changes.
+export const lineWarnings = (line: {
+  active: boolean;
+  stock: number;
+  quantity: number;
+  addedPriceMinor: number | null;
+  priceMinor: number;
+}) => {
+  const warnings: CartWarning[] = [];
+  if (!line.active) warnings.push({ code: 'unavailable' });
+  else if (line.stock <= 0) warnings.push({ code: 'out_of_stock' });
+  else if (line.quantity > line.stock) warnings.push({ code: 'insufficient_stock', available: line.stock });
+  if (line.addedPriceMinor !== null && line.addedPriceMinor !== line.priceMinor) {
+    warnings.push({ code: 'price_changed', previousPriceMinor: line.addedPriceMinor, priceMinor: line.priceMinor });
+  }
+  return warnings;
+};
@@ -0,0 +1,40 @@
+import { buildCategoryTree, createsCycle, descendantIds, rollUpCounts, slugify } from './categories';
+
+const categories = [
+  { id: 'clothing', name: 'Clothing', slug: 'clothing', parentId: null },
+  { id: 'shirts', name: 'Shirts', slug: 'shirts', parentId: 'clothing' },
+  { id: 'tees', name: 'T-Shirts', slug: 't-shirts', parentId: 'shirts' },
+  { id: 'books', name: 'Books', slug: 'books', parentId: null },
+];
+
+describe('slugify', () => {
+  it('lowercases, strips accents and joins words with dashes', () => {
+    expect(slugify('  Crème Brûlée & Co. ')).toBe('creme-brulee-co');
+  });
+});
+
+describe('category tree', () => {
+  it('nests children under their parents, sorted by name', () => {
+    const tree = buildCategoryTree(categories);
+    expect(tree.map(node => node.id)).toEqual(['books', 'clothing']);
+    expect(tree[1].children[0].children[0].id).toBe('tees');
+  });
+
+  it('collects a category and all of its descendants', () => {
+    expect(descendantIds(categories, 'clothing')).toEqual(['clothing', 'shirts', 'tees']);
+    expect(descendantIds(categories, 'books')).toEqual(['books']);
+  });
+
+  it('rolls product counts up to ancestors', () => {
+    const counts = rollUpCounts(categories, new Map([['tees', 2], ['shirts', 1], ['books', 4]]));
+    expect(counts.get('clothing')).toBe(3);
+    expect(counts.get('shirts')).toBe(3);
+    expect(counts.get('books')).toBe(4);
+  });
+
+  it('refuses to move a category below itself', () => {
+    expect(createsCycle(categories, 'clothing', 'tees')).toBe(true);
+    expect(createsCycle(categories, 'tees', 'books')).toBe(false);
+    expect(createsCycle(categories, 'tees', null)).toBe(false);
+  });
+});
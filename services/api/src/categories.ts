@@ -0,0 +1,52 @@
+// Category tree helpers. Categories are few, so they are loaded as a flat list
+// and walked in memory instead of with recursive SQL.
+export interface CategoryNode {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+}
+
+export type CategoryTree<T extends CategoryNode> = T & { children: CategoryTree<T>[] };
+
+export const slugify = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export const buildCategoryTree = <T extends CategoryNode>(categories: T[]): CategoryTree<T>[] => {
+  const nodes = new Map(categories.map(category => [category.id, { ...category, children: [] as CategoryTree<T>[] }]));
+  const roots: CategoryTree<T>[] = [];
+  for (const node of Array.from(nodes.values()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+};
+
+// The category itself and everything below it
+export const descendantIds = (categories: CategoryNode[], rootId: string) => {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    categories.forEach(category => {
+      if (category.parentId === ids[i]) ids.push(category.id);
+    });
+  }
+  return ids;
+};
+
+// Turns per-category product counts into subtree counts
+export const rollUpCounts = (categories: CategoryNode[], directCounts: Map<string, number>) =>
+  new Map(
+    categories.map(category => [
+      category.id,
+      descendantIds(categories, category.id).reduce((sum, id) => sum + (directCounts.get(id) || 0), 0),
+    ]),
+  );
+
+// Moving a category under itself or one of its descendants would detach a loop
+export const createsCycle = (categories: CategoryNode[], categoryId: string, newParentId: string | null) =>
+  !!newParentId && descendantIds(categories, categoryId).includes(newParentId);
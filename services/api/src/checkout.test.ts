@@ -0,0 +1,39 @@
+import { shortageMessage, shortageResponse, stockAdjustments } from './checkout';
+
+describe('stockAdjustments', () => {
+  const line = (variantId: string, quantity: number) => ({ variantId, quantity });
+
+  it('takes everything when nothing is held', () => {
+    expect(stockAdjustments([line('a', 2)], [])).toEqual({ take: [{ variantId: 'a', quantity: 2, held: 0 }], release: [] });
+  });
+
+  it('only takes what the holds do not cover', () => {
+    const { take, release } = stockAdjustments([line('a', 3), line('b', 1)], [line('a', 1), line('b', 1)]);
+    expect(take).toEqual([{ variantId: 'a', quantity: 2, held: 1 }]);
+    expect(release).toEqual([]);
+  });
+
+  it('gives back units of lines that shrank or left the cart', () => {
+    const { take, release } = stockAdjustments([line('a', 1)], [line('a', 3), line('b', 2)]);
+    expect(take).toEqual([]);
+    expect(release).toEqual([line('a', 2), line('b', 2)]);
+  });
+});
+
+describe('shortages', () => {
+  const shortage = { itemId: 'i1', productId: 'p1', variantId: 'v1', sku: 'MUG-1', name: 'Mug', requested: 3, available: 1 };
+
+  it('says how many are left', () => {
+    expect(shortageMessage(shortage)).toBe('Only 1 of Mug (MUG-1) left');
+    expect(shortageMessage({ ...shortage, available: 0 })).toBe('Mug (MUG-1) is out of stock');
+  });
+
+  it('lists every short line in the response', () => {
+    const body = shortageResponse([shortage, { ...shortage, itemId: 'i2', sku: 'CUP-1', name: 'Cup', available: 0 }]);
+    expect(body.error).toBe('Not enough stock: Only 1 of Mug (MUG-1) left; Cup (CUP-1) is out of stock');
+    expect(body.items.map(item => [item.itemId, item.message])).toEqual([
+      ['i1', 'Only 1 of Mug (MUG-1) left'],
+      ['i2', 'Cup (CUP-1) is out of stock'],
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+// Checkout takes stock with conditional decrements inside the order
+// transaction: a variant's stock only goes down when enough is left, so
+// concurrent checkouts can never sell the same last unit. While a customer
+// pays, their cart's stock can be held: the units are taken off right away and
+// returned when the hold expires, unless an order used them first.
+export interface StockLine {
+  variantId: string;
+  quantity: number;
+}
+
+// What checkout still has to take from stock for each cart line given the units
+// the cart already holds, and the held units to give back (lines that shrank or
+// left the cart)
+export const stockAdjustments = (lines: StockLine[], held: StockLine[]) => {
+  const heldBy = new Map<string, number>();
+  held.forEach(hold => heldBy.set(hold.variantId, (heldBy.get(hold.variantId) ?? 0) + hold.quantity));
+  const take: (StockLine & { held: number })[] = [];
+  const release: StockLine[] = [];
+  lines.forEach(line => {
+    const units = heldBy.get(line.variantId) ?? 0;
+    heldBy.delete(line.variantId);
+    if (line.quantity > units) take.push({ variantId: line.variantId, quantity: line.quantity - units, held: units });
+    else if (units > line.quantity) release.push({ variantId: line.variantId, quantity: units - line.quantity });
+  });
+  heldBy.forEach((quantity, variantId) => release.push({ variantId, quantity }));
+  return { take, release };
+};
+
+export interface StockShortage {
+  itemId: string;
+  productId: string;
+  variantId: string;
+  sku: string;
+  name: string;
+  requested: number;
+  // Units this customer could have: what is left plus what their cart holds
+  available: number;
+}
+
+export const shortageMessage = ({ name, sku, available }: StockShortage) =>
+  available > 0 ? `Only ${available} of ${name} (${sku}) left` : `${name} (${sku}) is out of stock`;
+
+// Thrown inside a checkout transaction to roll it back
+export class StockShortageError extends Error {
+  constructor(readonly shortages: StockShortage[]) {
+    super(shortages.map(shortageMessage).join('; '));
+  }
+}
+
+// 409 body: one message for the customer plus the lines to fix
+export const shortageResponse = (shortages: StockShortage[]) => ({
+  error: `Not enough stock: ${shortages.map(shortageMessage).join('; ')}`,
+  items: shortages.map(shortage => ({ ...shortage, message: shortageMessage(shortage) })),
+});
+
+// Thrown when the cart changed while it was being checked out, e.g. by a
+// second submit of the same checkout
+export class CartChangedError extends Error {
+  constructor() {
+    super('Your cart changed during checkout. Please review it and try again.');
+  }
+}
+
+// Thrown when an admin's stock edit would take the stock below zero because
+// checkouts took units while the form was open
+export class StockEditConflictError extends Error {
+  constructor() {
+    super('Stock changed while you were editing. Reload and try again.');
+  }
+}
@@ -0,0 +1,32 @@
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('handles quoted commas, quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi""","line\nbreak"\n')).toEqual([['a', 'b, c', 'say "hi"', 'line\nbreak']]);
+  });
+
+  it('accepts CRLF, a BOM and skips blank lines', () => {
+    expect(parseCsv('\uFEFFsku,name\r\n\r\nA-1,Shirt\r\n')).toEqual([['sku', 'name'], ['A-1', 'Shirt']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,,x')).toEqual([['a', '', 'c'], ['', '', 'x']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys rows by the normalised header and fills missing cells', () => {
+    expect(parseCsvRecords(' SKU ,Name,Stock\nA-1,Shirt\n')).toEqual([{ sku: 'A-1', name: 'Shirt', stock: '' }]);
+  });
+});
+
+describe('toCsv', () => {
+  it('round-trips through parseCsv', () => {
+    const records = [{ sku: 'A-1', name: 'Shirt, "blue"', note: 'two\nlines', stock: 3 }, { sku: 'B-2', name: null }];
+    const csv = toCsv(['sku', 'name', 'note', 'stock'], records);
+    expect(parseCsvRecords(csv)).toEqual([
+      { sku: 'A-1', name: 'Shirt, "blue"', note: 'two\nlines', stock: '3' },
+      { sku: 'B-2', name: '', note: '', stock: '' },
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+// RFC 4180 CSV: comma separated, fields quoted with "" when they contain a
+// comma, quote or line break. Spreadsheet exports often start with a BOM and
+// use CRLF; both are accepted.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// First row is the header; keys are the trimmed, lower-cased column names
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header = [], ...rows] = parseCsv(text);
+  const keys = header.map(key => key.trim().toLowerCase());
+  return rows.map(cells => Object.fromEntries(keys.map((key, index) => [key, cells[index] ?? ''])));
+};
+
+const escapeField = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (columns: readonly string[], records: Record<string, unknown>[]) =>
+  [columns, ...records.map(record => columns.map(column => record[column]))]
+    .map(cells => cells.map(escapeField).join(','))
+    .join('\r\n') + '\r\n';
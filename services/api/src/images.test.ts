@@ -0,0 +1,25 @@
+import sharp from 'sharp';
+import { processImage } from './images';
+
+const solidImage = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: '#667eea' } }).png().toBuffer();
+
+describe('processImage', () => {
+  it('renders every size within its bounding box, keeping the aspect ratio', async () => {
+    const image = await processImage(await solidImage(2400, 1200));
+    expect(image).not.toBeNull();
+    expect(image!.width).toBe(1600);
+    expect(image!.height).toBe(800);
+    const thumbnail = await sharp(image!.renditions.thumbnail).metadata();
+    expect(thumbnail).toMatchObject({ format: 'webp', width: 300, height: 150 });
+  });
+
+  it('does not enlarge small images', async () => {
+    const image = await processImage(await solidImage(120, 80));
+    expect(image).toMatchObject({ width: 120, height: 80 });
+  });
+
+  it('rejects files that are not images', async () => {
+    expect(await processImage(Buffer.from('not an image'))).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import sharp from 'sharp';
+
+// Uploaded product photos are re-encoded as WebP in fixed renditions. The
+// original file is not kept: "large" is the biggest size ever served.
+export const IMAGE_RENDITIONS = { large: 1600, medium: 800, thumbnail: 300 } as const;
+
+export type ImageRendition = keyof typeof IMAGE_RENDITIONS;
+
+export const ACCEPTED_IMAGE_FORMATS = ['jpeg', 'png', 'webp', 'gif', 'avif'];
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  renditions: Record<ImageRendition, Buffer>;
+}
+
+// Returns null when the buffer is not an image in an accepted format
+export const processImage = async (input: Buffer): Promise<ProcessedImage | null> => {
+  const metadata = await sharp(input).metadata().catch(() => null);
+  if (!metadata?.format || !ACCEPTED_IMAGE_FORMATS.includes(metadata.format)) return null;
+
+  const render = (size: number) =>
+    sharp(input)
+      .rotate() // apply EXIF orientation before it is stripped
+      .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer({ resolveWithObject: true });
+
+  const [large, medium, thumbnail] = await Promise.all([
+    render(IMAGE_RENDITIONS.large),
+    render(IMAGE_RENDITIONS.medium),
+    render(IMAGE_RENDITIONS.thumbnail),
+  ]);
+  return {
+    width: large.info.width,
+    height: large.info.height,
+    renditions: { large: large.data, medium: medium.data, thumbnail: thumbnail.data },
+  };
+};
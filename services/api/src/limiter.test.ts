@@ -0,0 +1,27 @@
+import { createLimiter, createMemoryLimiterStore, delayFor } from './limiter';
+
+const policy = { windowMs: 60_000, freeAttempts: 2, baseDelayMs: 1_000, maxDelayMs: 5_000 };
+
+describe('delayFor', () => {
+  it('doubles the delay after the free attempts, up to the maximum', () => {
+    expect([1, 2, 3, 4, 5, 6].map(count => delayFor(count, policy))).toEqual([0, 0, 1_000, 2_000, 4_000, 5_000]);
+  });
+});
+
+describe('createLimiter', () => {
+  it('blocks a key once its delay starts and unblocks it on reset', async () => {
+    const limiter = createLimiter(createMemoryLimiterStore(), policy);
+    await limiter.hit('login:ip:1');
+    await limiter.hit('login:ip:1');
+    expect((await limiter.check('login:ip:1')).allowed).toBe(true);
+
+    await limiter.hit('login:ip:1');
+    const blocked = await limiter.check('login:ip:1');
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterMs).toBeGreaterThan(0);
+    expect((await limiter.check('login:ip:2')).allowed).toBe(true);
+
+    await limiter.reset('login:ip:1');
+    expect((await limiter.check('login:ip:1')).allowed).toBe(true);
+  });
+});
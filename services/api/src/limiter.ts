@@ -0,0 +1,133 @@
+import { PrismaClient } from '@prisma/client';
+
+export interface LimiterEntry {
+  count: number;
+  blockedUntil: Date | null;
+}
+
+export interface LimiterStore {
+  get(key: string): Promise<LimiterEntry | null>;
+  // Counts one attempt; the count starts over once windowMs has passed since the first one
+  increment(key: string, windowMs: number): Promise<LimiterEntry>;
+  block(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+const MEMORY_STORE_PRUNE_SIZE = 10_000;
+
+// Per-process store: fine for a single API instance and for tests.
+export const createMemoryLimiterStore = (): LimiterStore => {
+  const entries = new Map<string, { count: number; windowStart: number; windowMs: number; blockedUntil: Date | null }>();
+
+  const prune = (now: number) => {
+    for (const [key, entry] of entries) {
+      const blocked = entry.blockedUntil && entry.blockedUntil.getTime() > now;
+      if (!blocked && entry.windowStart + entry.windowMs < now) entries.delete(key);
+    }
+  };
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      return entry ? { count: entry.count, blockedUntil: entry.blockedUntil } : null;
+    },
+    async increment(key, windowMs) {
+      const now = Date.now();
+      if (entries.size > MEMORY_STORE_PRUNE_SIZE) prune(now);
+      const entry = entries.get(key);
+      if (!entry || entry.windowStart + windowMs < now) {
+        const fresh = { count: 1, windowStart: now, windowMs, blockedUntil: entry?.blockedUntil ?? null };
+        entries.set(key, fresh);
+        return { count: 1, blockedUntil: fresh.blockedUntil };
+      }
+      entry.count += 1;
+      return { count: entry.count, blockedUntil: entry.blockedUntil };
+    },
+    async block(key, until) {
+      const entry = entries.get(key);
+      if (entry) entry.blockedUntil = until;
+      else entries.set(key, { count: 0, windowStart: Date.now(), windowMs: 0, blockedUntil: until });
+    },
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+};
+
+// Shared store for several API instances. The increment is a single upsert so
+// concurrent attempts are all counted.
+export const createPostgresLimiterStore = (prisma: PrismaClient): LimiterStore => ({
+  async get(key) {
+    const entry = await prisma.rateLimitEntry.findUnique({ where: { key } });
+    return entry ? { count: entry.count, blockedUntil: entry.blockedUntil } : null;
+  },
+  async increment(key, windowMs) {
+    const [entry] = await prisma.$queryRaw<{ count: number; blockedUntil: Date | null }[]>`
+      INSERT INTO "RateLimitEntry" ("key", "count", "windowStart")
+      VALUES (${key}, 1, CURRENT_TIMESTAMP)
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE
+          WHEN "RateLimitEntry"."windowStart" < CURRENT_TIMESTAMP - (${windowMs}::double precision * interval '1 millisecond') THEN 1
+          ELSE "RateLimitEntry"."count" + 1
+        END,
+        "windowStart" = CASE
+          WHEN "RateLimitEntry"."windowStart" < CURRENT_TIMESTAMP - (${windowMs}::double precision * interval '1 millisecond') THEN CURRENT_TIMESTAMP
+          ELSE "RateLimitEntry"."windowStart"
+        END
+      RETURNING "count", "blockedUntil"`;
+    return entry;
+  },
+  async block(key, until) {
+    await prisma.rateLimitEntry.upsert({
+      where: { key },
+      create: { key, count: 0, blockedUntil: until },
+      update: { blockedUntil: until },
+    });
+  },
+  async reset(key) {
+    await prisma.rateLimitEntry.deleteMany({ where: { key } });
+  },
+});
+
+export const createLimiterStore = (prisma: PrismaClient): LimiterStore => {
+  const store = process.env.LIMITER_STORE || 'memory';
+  switch (store) {
+    case 'memory':
+      return createMemoryLimiterStore();
+    case 'postgres':
+      return createPostgresLimiterStore(prisma);
+    default:
+      throw new Error(`Unknown LIMITER_STORE: ${store}`);
+  }
+};
+
+export interface LimiterPolicy {
+  windowMs: number;
+  // Attempts allowed within the window before delays kick in
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Each attempt past the free ones doubles the wait, up to maxDelayMs
+export const delayFor = (count: number, policy: LimiterPolicy) =>
+  count <= policy.freeAttempts
+    ? 0
+    : Math.min(policy.baseDelayMs * 2 ** (count - policy.freeAttempts - 1), policy.maxDelayMs);
+
+export const createLimiter = (store: LimiterStore, policy: LimiterPolicy) => ({
+  async check(key: string) {
+    const entry = await store.get(key);
+    const retryAfterMs = entry?.blockedUntil ? entry.blockedUntil.getTime() - Date.now() : 0;
+    return retryAfterMs > 0 ? { allowed: false, retryAfterMs } : { allowed: true, retryAfterMs: 0 };
+  },
+  async hit(key: string) {
+    const { count } = await store.increment(key, policy.windowMs);
+    const retryAfterMs = delayFor(count, policy);
+    if (retryAfterMs > 0) await store.block(key, new Date(Date.now() + retryAfterMs));
+    return { count, retryAfterMs };
+  },
+  reset: (key: string) => store.reset(key),
+});
+
+export type Limiter = ReturnType<typeof createLimiter>;
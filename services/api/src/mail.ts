@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Ecom Chat <no-reply@ecom-chat.local>';
+
+// Dev transport: every message becomes an .eml file in the outbox directory,
+// which any mail client (or a text editor) can open.
+export const createOutboxTransport = (dir: string): MailTransport => ({
+  async send({ to, subject, text }) {
+    await fs.mkdir(dir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    const raw = [
+      `From: ${MAIL_FROM}`,
+      `To: ${to}`,
+      `Subject: ${subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      text,
+    ].join('\r\n');
+    await fs.writeFile(path.join(dir, fileName), raw);
+  },
+});
+
+export const createMailTransport = (): MailTransport => {
+  const transport = process.env.MAIL_TRANSPORT || 'outbox';
+  switch (transport) {
+    case 'outbox':
+      return createOutboxTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox'));
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
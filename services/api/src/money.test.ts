@@ -0,0 +1,50 @@
+import { convertMinor, currencyDigits, fromMinor, isCurrency, toMinor, variantPriceIn } from './money';
+
+describe('currencies', () => {
+  it('knows ISO 4217 codes and their minor units', () => {
+    expect(isCurrency('EUR')).toBe(true);
+    expect(isCurrency('eur')).toBe(false);
+    expect(isCurrency('XYZW')).toBe(false);
+    expect(currencyDigits('USD')).toBe(2);
+    expect(currencyDigits('JPY')).toBe(0);
+  });
+});
+
+describe('toMinor / fromMinor', () => {
+  it('converts exactly, without float rounding', () => {
+    expect(toMinor('0.29', 'USD')).toBe(29);
+    expect(toMinor(1.15, 'USD')).toBe(115);
+    expect(toMinor('1200', 'JPY')).toBe(1200);
+    expect(fromMinor(1999, 'USD')).toBe('19.99');
+    expect(fromMinor(5, 'USD')).toBe('0.05');
+  });
+
+  it('rejects amounts more precise than the currency', () => {
+    expect(toMinor('1.999', 'USD')).toBeNull();
+    expect(toMinor('12.5', 'JPY')).toBeNull();
+    expect(toMinor('abc', 'USD')).toBeNull();
+  });
+});
+
+describe('convertMinor', () => {
+  it('applies the rate across currencies with different minor units', () => {
+    expect(convertMinor(1000, 'USD', 'EUR', '0.92')).toBe(920);
+    expect(convertMinor(1999, 'USD', 'JPY', '149.5')).toBe(2989);
+    expect(convertMinor(1, 'USD', 'EUR', '0.5')).toBe(1);
+  });
+});
+
+describe('variantPriceIn', () => {
+  const product = { priceMinor: 1000 };
+
+  it('uses the variant price, falling back to the product price', () => {
+    expect(variantPriceIn({ id: 'v1', priceMinor: 1200 }, product, null)).toBe(1200);
+    expect(variantPriceIn({ id: 'v1', priceMinor: null }, product, null)).toBe(1000);
+  });
+
+  it('prefers an explicit price-list price over conversion', () => {
+    const priceList = { currency: 'EUR', exchangeRate: '0.9', prices: new Map([['v2', 999]]) };
+    expect(variantPriceIn({ id: 'v1', priceMinor: null }, product, priceList)).toBe(900);
+    expect(variantPriceIn({ id: 'v2', priceMinor: null }, product, priceList)).toBe(999);
+  });
+});
@@ -0,0 +1,61 @@
+import { Prisma } from '@prisma/client';
+
+// Money is stored as integer minor units (cents for USD, yen for JPY) next to
+// an ISO 4217 currency code, so sums are exact. Catalog prices are in the base
+// currency; other currencies come from price lists, either as explicit
+// per-variant prices or converted with the list's exchange rate.
+export const BASE_CURRENCY = (process.env.BASE_CURRENCY || 'USD').toUpperCase();
+
+export const isCurrency = (code: string) => {
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+  try {
+    new Intl.NumberFormat('en', { style: 'currency', currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Decimal places of the currency's minor unit: 2 for USD, 0 for JPY, 3 for KWD
+export const currencyDigits = (currency: string) =>
+  new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+
+// "19.99" -> 1999. Returns null for non-numbers and amounts with more decimals
+// than the currency has, rather than rounding them away.
+export const toMinor = (amount: string | number, currency: string) => {
+  const text = String(amount).trim();
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  const minor = new Prisma.Decimal(text).times(new Prisma.Decimal(10).pow(currencyDigits(currency)));
+  return minor.isInteger() ? minor.toNumber() : null;
+};
+
+// 1999 -> "19.99"
+export const fromMinor = (minor: number, currency: string) =>
+  new Prisma.Decimal(minor).div(new Prisma.Decimal(10).pow(currencyDigits(currency))).toFixed(currencyDigits(currency));
+
+// `rate` is units of `to` per unit of `from`; the result is rounded half up
+export const convertMinor = (minor: number, from: string, to: string, rate: Prisma.Decimal.Value) =>
+  new Prisma.Decimal(minor)
+    .div(new Prisma.Decimal(10).pow(currencyDigits(from)))
+    .times(rate)
+    .times(new Prisma.Decimal(10).pow(currencyDigits(to)))
+    .toDecimalPlaces(0, Prisma.Decimal.ROUND_HALF_UP)
+    .toNumber();
+
+export interface PriceListRates {
+  currency: string;
+  exchangeRate: Prisma.Decimal.Value;
+  // Explicit prices by variant id
+  prices: Map<string, number>;
+}
+
+// Price of a variant in the list's currency; without a list, the base price
+export const variantPriceIn = (
+  variant: { id: string; priceMinor: number | null },
+  product: { priceMinor: number },
+  priceList: PriceListRates | null,
+) => {
+  const baseMinor = variant.priceMinor ?? product.priceMinor;
+  if (!priceList) return baseMinor;
+  return priceList.prices.get(variant.id) ?? convertMinor(baseMinor, BASE_CURRENCY, priceList.currency, priceList.exchangeRate);
+};
@@ -0,0 +1,39 @@
+import { firstLoginProblem, loadOidcProviders, pkceChallenge } from './oidc';
+
+describe('pkceChallenge', () => {
+  it('matches the RFC 7636 S256 example', () => {
+    expect(pkceChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+});
+
+describe('loadOidcProviders', () => {
+  it('reads each listed provider from prefixed variables', () => {
+    const providers = loadOidcProviders({
+      OIDC_PROVIDERS: 'mock',
+      OIDC_MOCK_ISSUER: 'http://localhost:4010/',
+      OIDC_MOCK_CLIENT_ID: 'ecom-chat',
+      OIDC_MOCK_LABEL: 'Mock IdP',
+    });
+    expect(providers).toEqual([
+      { id: 'mock', label: 'Mock IdP', issuer: 'http://localhost:4010', clientId: 'ecom-chat', clientSecret: undefined },
+    ]);
+  });
+
+  it('returns no providers when none are configured', () => {
+    expect(loadOidcProviders({})).toEqual([]);
+  });
+});
+
+describe('firstLoginProblem', () => {
+  it('links or creates accounts only for verified emails', () => {
+    expect(firstLoginProblem({ sub: '1', email: 'a@example.com', email_verified: true }, false)).toBeNull();
+    expect(firstLoginProblem({ sub: '1', email: 'a@example.com', email_verified: true }, true)).toBeNull();
+    expect(firstLoginProblem({ sub: '1', email: 'a@example.com' }, false)).toBe(
+      'Verify your email with the identity provider, or register with a password and confirm your email with us',
+    );
+    expect(firstLoginProblem({ sub: '1', email: 'a@example.com', email_verified: false }, true)).toBe(
+      'Verify your email with the identity provider before linking it to an existing account',
+    );
+    expect(firstLoginProblem({ sub: '1' }, false)).toBe('The identity provider did not share an email address');
+  });
+});
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// OpenID Connect authorization code flow with PKCE (RFC 7636). Providers are
+// configured through the environment:
+//   OIDC_PROVIDERS=google,mock
+//   OIDC_GOOGLE_ISSUER / OIDC_GOOGLE_CLIENT_ID / OIDC_GOOGLE_CLIENT_SECRET / OIDC_GOOGLE_LABEL
+export interface OidcProvider {
+  id: string;
+  label: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+}
+
+interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  nonce?: string;
+}
+
+// Why a first login with these claims can neither link to nor create a local
+// account, or null when it can. An unverified email could belong to someone
+// else, so it neither takes over nor claims the address.
+export const firstLoginProblem = (claims: IdTokenClaims, accountExists: boolean) => {
+  if (!claims.email) return 'The identity provider did not share an email address';
+  if (claims.email_verified) return null;
+  return accountExists
+    ? 'Verify your email with the identity provider before linking it to an existing account'
+    : 'Verify your email with the identity provider, or register with a password and confirm your email with us';
+};
+
+export const loadOidcProviders = (env = process.env): OidcProvider[] =>
+  (env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+    .map(id => {
+      const prefix = `OIDC_${id.toUpperCase()}_`;
+      const issuer = env[`${prefix}ISSUER`];
+      const clientId = env[`${prefix}CLIENT_ID`];
+      if (!issuer || !clientId) throw new Error(`OIDC provider ${id} needs ${prefix}ISSUER and ${prefix}CLIENT_ID`);
+      return {
+        id,
+        label: env[`${prefix}LABEL`] || id,
+        issuer: issuer.replace(/\/$/, ''),
+        clientId,
+        clientSecret: env[`${prefix}CLIENT_SECRET`],
+      };
+    });
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+export const pkceChallenge = (verifier: string) =>
+  base64url(crypto.createHash('sha256').update(verifier).digest());
+
+export const createPkcePair = () => {
+  const verifier = base64url(crypto.randomBytes(32));
+  return { verifier, challenge: pkceChallenge(verifier) };
+};
+
+const metadataCache = new Map<string, OidcMetadata>();
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+  const res = await fetch(url, init);
+  if (!res.ok) throw new Error(`OIDC request to ${url} failed with ${res.status}`);
+  return res.json();
+};
+
+export const discover = async (provider: OidcProvider): Promise<OidcMetadata> => {
+  const cached = metadataCache.get(provider.issuer);
+  if (cached) return cached;
+  const metadata = await fetchJson(`${provider.issuer}/.well-known/openid-configuration`);
+  metadataCache.set(provider.issuer, metadata);
+  return metadata;
+};
+
+export const buildAuthorizationUrl = async (
+  provider: OidcProvider,
+  params: { redirectUri: string; state: string; nonce: string; codeChallenge: string },
+) => {
+  const metadata = await discover(provider);
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: params.redirectUri,
+    scope: 'openid email profile',
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: params.codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+};
+
+const jwksCache = new Map<string, crypto.KeyObject>();
+
+const getSigningKey = async (metadata: OidcMetadata, kid: string | undefined) => {
+  const cacheKey = `${metadata.jwks_uri}#${kid}`;
+  const cached = jwksCache.get(cacheKey);
+  if (cached) return cached;
+  // Refetched on a cache miss, which also picks up rotated keys
+  const { keys } = await fetchJson(metadata.jwks_uri);
+  const jwk = keys.find((key: any) => !kid || key.kid === kid);
+  if (!jwk) throw new Error('No matching signing key for ID token');
+  const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  jwksCache.set(cacheKey, key);
+  return key;
+};
+
+// Exchanges the authorization code and returns the verified ID token claims
+export const completeAuthorization = async (
+  provider: OidcProvider,
+  params: { code: string; redirectUri: string; codeVerifier: string; nonce: string },
+): Promise<IdTokenClaims> => {
+  const metadata = await discover(provider);
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: params.codeVerifier,
+  });
+  if (provider.clientSecret) body.set('client_secret', provider.clientSecret);
+  const tokens = await fetchJson(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body,
+  });
+  if (!tokens.id_token) throw new Error('Token response has no id_token');
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  const key = await getSigningKey(metadata, decoded?.header.kid);
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: ['RS256', 'ES256'],
+    issuer: metadata.issuer,
+    audience: provider.clientId,
+  }) as IdTokenClaims;
+  if (claims.nonce !== params.nonce) throw new Error('ID token nonce mismatch');
+  return claims;
+};
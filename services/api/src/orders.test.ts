@@ -0,0 +1,32 @@
+import { ORDER_STATUSES, ORDER_TRANSITIONS, allowedTransitions, transitionProblem } from './orders';
+
+describe('order transitions', () => {
+  it('only names known statuses', () => {
+    Object.values(ORDER_TRANSITIONS).flat().forEach(status => expect(ORDER_STATUSES).toContain(status));
+  });
+
+  it('follows the payment and fulfilment path', () => {
+    expect(transitionProblem('pending', 'paid')).toBeNull();
+    expect(transitionProblem('paid', 'processing')).toBeNull();
+    expect(transitionProblem('processing', 'shipped')).toBeNull();
+    expect(transitionProblem('shipped', 'delivered')).toBeNull();
+  });
+
+  it('rejects going backwards, skipping ahead and leaving final statuses', () => {
+    expect(transitionProblem('delivered', 'pending')).toBe('Cannot change an order from delivered to pending');
+    expect(transitionProblem('pending', 'shipped')).toBe('Cannot change an order from pending to shipped');
+    expect(transitionProblem('pending', 'processing')).toBe('Cannot change an order from pending to processing');
+    expect(transitionProblem('cancelled', 'processing')).toBe('Cannot change an order from cancelled to processing');
+    expect(transitionProblem('shipped', 'cancelled')).toBe('Cannot change an order from shipped to cancelled');
+  });
+
+  it('lets a failed payment be retried or paid late', () => {
+    expect(transitionProblem('payment_failed', 'pending')).toBeNull();
+    expect(transitionProblem('payment_failed', 'paid')).toBeNull();
+  });
+
+  it('reports no-op changes and unknown current statuses', () => {
+    expect(transitionProblem('pending', 'pending')).toBe('Order is already pending');
+    expect(allowedTransitions('bogus')).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+// Order statuses and the moves allowed between them. Every change is recorded
+// as an OrderStatusEvent; delivered and cancelled orders are final. Orders wait
+// in pending for their payment; payment webhooks move them to paid or
+// payment_failed, and retrying a failed payment makes the order pending again.
+export const ORDER_STATUSES = ['pending', 'paid', 'payment_failed', 'processing', 'shipped', 'delivered', 'cancelled'] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['paid', 'payment_failed', 'cancelled'],
+  paid: ['processing', 'cancelled'],
+  payment_failed: ['pending', 'paid', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+// Orders that were paid for and not cancelled: what revenue counts
+export const PAID_STATUSES = ['paid', 'processing', 'shipped', 'delivered'] as const satisfies readonly OrderStatus[];
+
+export const isOrderStatus = (status: string): status is OrderStatus => (ORDER_STATUSES as readonly string[]).includes(status);
+
+export const allowedTransitions = (from: string) => (isOrderStatus(from) ? ORDER_TRANSITIONS[from] : []);
+
+// Why the order cannot move from one status to the other, or null when it can
+export const transitionProblem = (from: string, to: OrderStatus) => {
+  if (from === to) return `Order is already ${to}`;
+  if (!allowedTransitions(from).includes(to)) return `Cannot change an order from ${from} to ${to}`;
+  return null;
+};
+
+// Thrown when the order's status changed between reading and updating it
+export class OrderStatusConflictError extends Error {
+  constructor() {
+    super('The order status was changed by someone else. Reload and try again.');
+  }
+}
@@ -0,0 +1,72 @@
+import { MOCK_SIGNATURE_HEADER, createMockProvider, createPaymentProvider, signWebhook, verifyWebhookSignature } from './payments';
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ id: 'evt_1' });
+  const now = Date.parse('2026-10-19T12:00:00Z');
+  const timestamp = now / 1000;
+
+  it('accepts a fresh signature over the same body', () => {
+    expect(verifyWebhookSignature(body, signWebhook(body, 'secret', timestamp), 'secret', now)).toBe(true);
+  });
+
+  it('rejects other bodies, secrets and stale or missing signatures', () => {
+    const signature = signWebhook(body, 'secret', timestamp);
+    expect(verifyWebhookSignature(`${body} `, signature, 'secret', now)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, 'other-secret', now)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, 'secret', now + 10 * 60 * 1000)).toBe(false);
+    expect(verifyWebhookSignature(body, undefined, 'secret', now)).toBe(false);
+  });
+});
+
+describe('mock provider', () => {
+  const provider = createMockProvider({
+    secret: 'secret',
+    webhookUrl: 'http://localhost:4000/webhooks/payments/mock',
+    challengeUrl: 'http://localhost:4000/payments/mock/challenge',
+  });
+  const request = { attemptId: 'a1', amountMinor: 1000, currency: 'USD', returnUrl: 'http://localhost:3000/' };
+
+  it('asks for a challenge on mock_3ds', async () => {
+    const result = await provider.createPayment({ ...request, paymentMethod: 'mock_3ds' });
+    expect(result.status).toBe('requires_action');
+    expect(result.nextActionUrl).toBe(`http://localhost:4000/payments/mock/challenge/${result.reference}`);
+  });
+
+  it('fails unknown payment methods right away', async () => {
+    const result = await provider.createPayment({ ...request, paymentMethod: 'tok_visa' });
+    expect(result.status).toBe('failed');
+  });
+
+  it('only parses signed, well-formed webhooks', () => {
+    const body = JSON.stringify({ id: 'evt_1', type: 'payment.succeeded', reference: 'mock_1' });
+    const signed = { [MOCK_SIGNATURE_HEADER]: signWebhook(body, 'secret') };
+    expect(provider.parseWebhook(Buffer.from(body), signed)).toEqual({ id: 'evt_1', type: 'payment.succeeded', reference: 'mock_1' });
+    expect(provider.parseWebhook(Buffer.from(body), { [MOCK_SIGNATURE_HEADER]: signWebhook(body, 'wrong') })).toBeNull();
+    const unknown = JSON.stringify({ id: 'evt_2', type: 'refund.created', reference: 'mock_1' });
+    expect(provider.parseWebhook(Buffer.from(unknown), { [MOCK_SIGNATURE_HEADER]: signWebhook(unknown, 'secret') })).toBeNull();
+  });
+});
+
+describe('createPaymentProvider', () => {
+  it('uses the mock provider with a secret of its own in development', () => {
+    const provider = createPaymentProvider({ NODE_ENV: 'development' });
+    const body = JSON.stringify({ id: 'evt_1', type: 'payment.succeeded', reference: 'mock_1' });
+    expect(provider.name).toBe('mock');
+    expect(provider.parseWebhook(Buffer.from(body), { [MOCK_SIGNATURE_HEADER]: signWebhook(body, 'mock-webhook-secret') })).toBeNull();
+  });
+
+  it('needs the provider and webhook secret in production', () => {
+    expect(() => createPaymentProvider({ NODE_ENV: 'production' })).toThrow(
+      'PAYMENT_PROVIDER and PAYMENT_WEBHOOK_SECRET must be set in production',
+    );
+    expect(() => createPaymentProvider({ NODE_ENV: 'production', PAYMENT_PROVIDER: 'mock' })).toThrow(
+      'PAYMENT_WEBHOOK_SECRET must be set in production',
+    );
+  });
+
+  it('refuses the mock provider in production', () => {
+    expect(() => createPaymentProvider({ NODE_ENV: 'production', PAYMENT_PROVIDER: 'mock', PAYMENT_WEBHOOK_SECRET: 'secret' })).toThrow(
+      'The mock payment provider cannot be used in production',
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+
+// Payments go through a provider: checkout asks it to charge an order, and the
+// provider reports the outcome later through a signed webhook. Which provider
+// is used is set with PAYMENT_PROVIDER; the built-in mock one needs no account.
+export interface PaymentRequest {
+  attemptId: string;
+  amountMinor: number;
+  currency: string;
+  // Provider specific, e.g. a card token; the mock takes one of MOCK_PAYMENT_METHODS
+  paymentMethod: string;
+  // Where the shopper comes back to after a challenge such as 3-D Secure
+  returnUrl: string;
+}
+
+export interface PaymentResult {
+  // The provider's id for the payment, which webhooks refer to
+  reference: string;
+  // processing: the outcome follows by webhook. requires_action: the shopper
+  // must complete a challenge at nextActionUrl first.
+  status: 'processing' | 'requires_action' | 'failed';
+  nextActionUrl?: string;
+  failureReason?: string;
+}
+
+export interface PaymentEvent {
+  id: string;
+  type: 'payment.succeeded' | 'payment.failed';
+  reference: string;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createPayment(request: PaymentRequest): Promise<PaymentResult>;
+  // The event in a webhook delivery, or null when its signature does not check out
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentEvent | null;
+  // Test providers only: the shopper passed or failed a challenge. Returns the
+  // URL to send them back to, or null for an unknown payment.
+  completeChallenge?(reference: string, approved: boolean): Promise<string | null>;
+}
+
+// Webhook signatures cover the timestamp and the raw body, so a captured
+// delivery cannot be replayed later or with a different body
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+const webhookDigest = (body: string, secret: string, timestamp: number) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export const signWebhook = (body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)) =>
+  `t=${timestamp},v1=${webhookDigest(body, secret, timestamp)}`;
+
+export const verifyWebhookSignature = (body: string, header: string | undefined, secret: string, now = Date.now()) => {
+  const parts = new Map((header || '').split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const given = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !given) return false;
+  if (Math.abs(now - timestamp * 1000) > WEBHOOK_TOLERANCE_MS) return false;
+  const expected = Buffer.from(webhookDigest(body, secret, timestamp));
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const isPaymentEvent = (value: any): value is PaymentEvent =>
+  typeof value?.id === 'string' &&
+  ['payment.succeeded', 'payment.failed'].includes(value.type) &&
+  typeof value.reference === 'string' &&
+  (value.failureReason === undefined || typeof value.failureReason === 'string');
+
+export const MOCK_PAYMENT_METHODS = ['mock_success', 'mock_decline', 'mock_3ds'] as const;
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+export interface MockProviderOptions {
+  secret: string;
+  webhookUrl: string;
+  // The challenge page for mock_3ds payments, served by the API (see server.ts)
+  challengeUrl: string;
+  deliveryDelayMs?: number;
+}
+
+// Simulates a gateway: mock_success and mock_decline settle by webhook shortly
+// after the payment is created, mock_3ds waits for the shopper to pass or fail
+// the challenge. Webhooks are really sent, signed, to webhookUrl.
+export const createMockProvider = ({ secret, webhookUrl, challengeUrl, deliveryDelayMs = 500 }: MockProviderOptions): PaymentProvider => {
+  // Challenges waiting for the shopper; lost on restart, which is fine for a mock
+  const challenges = new Map<string, string>();
+
+  const settle = async (reference: string, succeeded: boolean) => {
+    const event: PaymentEvent = {
+      id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+      type: succeeded ? 'payment.succeeded' : 'payment.failed',
+      reference,
+      ...(succeeded ? {} : { failureReason: 'Card declined' }),
+    };
+    const body = JSON.stringify(event);
+    try {
+      const res = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [MOCK_SIGNATURE_HEADER]: signWebhook(body, secret) },
+        body,
+      });
+      if (!res.ok) console.error(`Mock payment webhook for ${reference} was answered with ${res.status}`);
+    } catch (error) {
+      console.error(`Mock payment webhook for ${reference} could not be delivered:`, error);
+    }
+  };
+
+  return {
+    name: 'mock',
+    async createPayment({ paymentMethod, returnUrl }) {
+      const reference = `mock_${crypto.randomBytes(12).toString('hex')}`;
+      switch (paymentMethod) {
+        case 'mock_success':
+        case 'mock_decline':
+          setTimeout(() => settle(reference, paymentMethod === 'mock_success'), deliveryDelayMs);
+          return { reference, status: 'processing' };
+        case 'mock_3ds':
+          challenges.set(reference, returnUrl);
+          return { reference, status: 'requires_action', nextActionUrl: `${challengeUrl}/${reference}` };
+        default:
+          return { reference, status: 'failed', failureReason: `Use one of the test payment methods: ${MOCK_PAYMENT_METHODS.join(', ')}` };
+      }
+    },
+    parseWebhook(rawBody, headers) {
+      const body = rawBody.toString('utf8');
+      const signature = headers[MOCK_SIGNATURE_HEADER];
+      if (!verifyWebhookSignature(body, typeof signature === 'string' ? signature : undefined, secret)) return null;
+      try {
+        const event = JSON.parse(body);
+        return isPaymentEvent(event) ? event : null;
+      } catch {
+        return null;
+      }
+    },
+    async completeChallenge(reference, approved) {
+      const returnUrl = challenges.get(reference);
+      if (!returnUrl) return null;
+      challenges.delete(reference);
+      await settle(reference, approved);
+      return returnUrl;
+    },
+  };
+};
+
+// Stand-in for the bank's 3-D Secure page; the form posts back to the same URL
+export const MOCK_CHALLENGE_PAGE = `<!doctype html>
+<html>
+  <head><title>Mock 3-D Secure</title></head>
+  <body style="font-family: sans-serif; max-width: 420px; margin: 60px auto; text-align: center">
+    <h1>Confirm your payment</h1>
+    <p>This is the mock payment provider's 3-D Secure challenge.</p>
+    <form method="post">
+      <button name="result" value="approve">Approve</button>
+      <button name="result" value="decline">Decline</button>
+    </form>
+  </body>
+</html>`;
+
+// Production must name a real provider and its webhook secret; the mock would
+// let shoppers choose their own payment outcome. Development falls back to the
+// mock provider with a secret made up at startup, which is enough since the
+// mock signs its own deliveries.
+export const createPaymentProvider = (env: NodeJS.ProcessEnv = process.env): PaymentProvider => {
+  if (env.NODE_ENV === 'production') {
+    const missing = ['PAYMENT_PROVIDER', 'PAYMENT_WEBHOOK_SECRET'].filter(name => !env[name]);
+    if (missing.length > 0) throw new Error(`${missing.join(' and ')} must be set in production`);
+    if (env.PAYMENT_PROVIDER === 'mock') throw new Error('The mock payment provider cannot be used in production');
+  }
+  const provider = env.PAYMENT_PROVIDER || 'mock';
+  const secret = env.PAYMENT_WEBHOOK_SECRET || crypto.randomBytes(32).toString('hex');
+  const apiUrl = env.API_URL || 'http://localhost:4000';
+  switch (provider) {
+    case 'mock':
+      return createMockProvider({
+        secret,
+        webhookUrl: `${apiUrl}/webhooks/payments/mock`,
+        challengeUrl: `${apiUrl}/payments/mock/challenge`,
+      });
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER: ${provider}`);
+  }
+};
@@ -0,0 +1,26 @@
+import { collectPermissions, hasPermission, scopePermissions } from './permissions';
+
+describe('hasPermission', () => {
+  it('grants only listed permissions', () => {
+    expect(hasPermission(['orders:read'], 'orders:read')).toBe(true);
+    expect(hasPermission(['orders:read'], 'orders:update')).toBe(false);
+  });
+
+  it('treats * as every permission', () => {
+    expect(hasPermission(['*'], 'roles:manage')).toBe(true);
+  });
+});
+
+describe('collectPermissions', () => {
+  it('merges roles without duplicates', () => {
+    const roles = [{ permissions: ['orders:read'] }, { permissions: ['orders:read', 'orders:update'] }];
+    expect(collectPermissions(roles)).toEqual(['orders:read', 'orders:update']);
+  });
+});
+
+describe('scopePermissions', () => {
+  it('keeps only scopes the owner still holds', () => {
+    expect(scopePermissions(['orders:read'], ['orders:read', 'products:write'])).toEqual(['orders:read']);
+    expect(scopePermissions(['*'], ['products:write'])).toEqual(['products:write']);
+  });
+});
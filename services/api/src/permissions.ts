@@ -0,0 +1,27 @@
+// Every permission the API checks. Roles store a subset of these (or '*').
+export const PERMISSIONS = [
+  'users:read',
+  'users:manage',
+  'roles:manage',
+  'orders:read',
+  'orders:update',
+  'products:write',
+  'promotions:manage',
+  'reviews:moderate',
+  'stats:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const WILDCARD_PERMISSION = '*';
+
+export const hasPermission = (granted: string[], permission: Permission) =>
+  granted.includes(WILDCARD_PERMISSION) || granted.includes(permission);
+
+export const collectPermissions = (roles: { permissions: string[] }[]) =>
+  Array.from(new Set(roles.flatMap(role => role.permissions)));
+
+// Permissions an API key actually carries: its scopes, as far as the owner
+// still holds them
+export const scopePermissions = (granted: string[], scopes: string[]) =>
+  granted.includes(WILDCARD_PERMISSION) ? scopes : scopes.filter(scope => granted.includes(scope));
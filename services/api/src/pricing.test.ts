@@ -0,0 +1,86 @@
+import { PriceScheduleWindow, priceTimeline, resolveVariantPrice, windowsOverlap } from './pricing';
+
+const at = (iso: string) => new Date(iso);
+
+const schedule = (overrides: Partial<PriceScheduleWindow>): PriceScheduleWindow => ({
+  id: 'sale',
+  variantId: null,
+  priceMinor: 800,
+  compareAtPriceMinor: null,
+  startsAt: at('2026-11-27T00:00:00Z'),
+  endsAt: at('2026-11-30T00:00:00Z'),
+  ...overrides,
+});
+
+describe('windowsOverlap', () => {
+  it('lets one window end exactly when the next starts', () => {
+    const first = { startsAt: at('2026-11-01T00:00:00Z'), endsAt: at('2026-11-02T00:00:00Z') };
+    expect(windowsOverlap(first, { startsAt: at('2026-11-02T00:00:00Z'), endsAt: null })).toBe(false);
+    expect(windowsOverlap(first, { startsAt: at('2026-11-01T12:00:00Z'), endsAt: at('2026-11-03T00:00:00Z') })).toBe(true);
+  });
+
+  it('treats open-ended windows as running forever', () => {
+    const open = { startsAt: at('2026-11-01T00:00:00Z'), endsAt: null };
+    expect(windowsOverlap(open, { startsAt: at('2027-06-01T00:00:00Z'), endsAt: null })).toBe(true);
+  });
+});
+
+describe('resolveVariantPrice', () => {
+  const product = { priceMinor: 1000, compareAtPriceMinor: null };
+  const variant = { id: 'v1', priceMinor: null };
+
+  it('uses the sale price only inside the window, against the regular price', () => {
+    const schedules = [schedule({})];
+    expect(resolveVariantPrice(variant, product, schedules, null, at('2026-11-26T23:59:59Z'))).toMatchObject({
+      priceMinor: 1000,
+      compareAtPriceMinor: null,
+      scheduleId: null,
+    });
+    expect(resolveVariantPrice(variant, product, schedules, null, at('2026-11-28T00:00:00Z'))).toEqual({
+      priceMinor: 800,
+      compareAtPriceMinor: 1000,
+      scheduleId: 'sale',
+      saleEndsAt: at('2026-11-30T00:00:00Z'),
+    });
+    expect(resolveVariantPrice(variant, product, schedules, null, at('2026-11-30T00:00:00Z')).priceMinor).toBe(1000);
+  });
+
+  it('prefers a variant sale and skips product-wide sales for variants with their own price', () => {
+    const schedules = [schedule({}), schedule({ id: 'xl', variantId: 'xl', priceMinor: 1100 })];
+    const when = at('2026-11-28T00:00:00Z');
+    expect(resolveVariantPrice({ id: 'xl', priceMinor: 1500 }, product, schedules, null, when).priceMinor).toBe(1100);
+    expect(resolveVariantPrice({ id: 'l', priceMinor: 1200 }, product, schedules, null, when).priceMinor).toBe(1200);
+  });
+
+  it('hides compare-at prices that are not above the price', () => {
+    expect(resolveVariantPrice(variant, { priceMinor: 1000, compareAtPriceMinor: 1500 }, [], null).compareAtPriceMinor).toBe(1500);
+    expect(resolveVariantPrice(variant, { priceMinor: 1000, compareAtPriceMinor: 900 }, [], null).compareAtPriceMinor).toBeNull();
+  });
+
+  it('converts sale prices into the price list currency', () => {
+    const priceList = { currency: 'EUR', exchangeRate: '0.5', prices: new Map([['v1', 450]]) };
+    expect(resolveVariantPrice(variant, product, [schedule({})], priceList, at('2026-11-28T00:00:00Z'))).toMatchObject({
+      priceMinor: 400,
+      compareAtPriceMinor: 450,
+    });
+  });
+});
+
+describe('priceTimeline', () => {
+  it('merges recorded changes with sale boundaries that have passed, newest first', () => {
+    const change = {
+      id: 'c1',
+      variantId: null,
+      reason: 'manual',
+      previousPriceMinor: 900,
+      priceMinor: 1000,
+      previousCompareAtPriceMinor: null,
+      compareAtPriceMinor: null,
+      scheduleId: null,
+      changedBy: null,
+      createdAt: at('2026-11-01T00:00:00Z'),
+    };
+    const timeline = priceTimeline([change], [schedule({})], at('2026-11-28T00:00:00Z'));
+    expect(timeline.map(entry => entry.type)).toEqual(['sale_started', 'change']);
+  });
+});
@@ -0,0 +1,94 @@
+import { BASE_CURRENCY, PriceListRates, convertMinor, variantPriceIn } from './money';
+
+// Scheduled sales and price history. A schedule sells a whole product, or one
+// of its variants, at `priceMinor` from `startsAt` until `endsAt` (open-ended
+// when null). Prices are resolved when they are read, so sales start and end
+// on time without a job rewriting Product.priceMinor. Amounts are base
+// currency minor units.
+export interface PriceScheduleWindow {
+  id: string;
+  variantId: string | null;
+  priceMinor: number;
+  compareAtPriceMinor: number | null;
+  startsAt: Date;
+  endsAt: Date | null;
+}
+
+type Window = Pick<PriceScheduleWindow, 'startsAt' | 'endsAt'>;
+
+export const isActiveAt = (schedule: Window, at: Date) => schedule.startsAt <= at && (!schedule.endsAt || schedule.endsAt > at);
+
+// Windows are half-open, so one sale may end exactly when the next starts
+export const windowsOverlap = (a: Window, b: Window) =>
+  (!a.endsAt || b.startsAt < a.endsAt) && (!b.endsAt || a.startsAt < b.endsAt);
+
+export interface ResolvedPrice {
+  priceMinor: number;
+  // Shown struck through; only set when higher than priceMinor
+  compareAtPriceMinor: number | null;
+  scheduleId: string | null;
+  saleEndsAt: Date | null;
+}
+
+// A variant's own sale wins. Product-wide sales apply to the variants that use
+// the product price, just like the product price itself. During a sale the
+// regular price is the compare-at price unless the schedule sets one.
+export const resolveVariantPrice = (
+  variant: { id: string; priceMinor: number | null },
+  product: { priceMinor: number; compareAtPriceMinor: number | null },
+  schedules: PriceScheduleWindow[],
+  priceList: PriceListRates | null,
+  at = new Date(),
+): ResolvedPrice => {
+  const convert = (minor: number) =>
+    priceList ? convertMinor(minor, BASE_CURRENCY, priceList.currency, priceList.exchangeRate) : minor;
+  const regularMinor = variantPriceIn(variant, product, priceList);
+  const schedule =
+    schedules.find(candidate => candidate.variantId === variant.id && isActiveAt(candidate, at)) ??
+    (variant.priceMinor === null
+      ? schedules.find(candidate => candidate.variantId === null && isActiveAt(candidate, at))
+      : undefined);
+
+  const priceMinor = schedule ? convert(schedule.priceMinor) : regularMinor;
+  const compareAtBase = schedule ? schedule.compareAtPriceMinor : variant.priceMinor === null ? product.compareAtPriceMinor : null;
+  const compareAtPriceMinor = compareAtBase !== null ? convert(compareAtBase) : schedule ? regularMinor : null;
+  return {
+    priceMinor,
+    compareAtPriceMinor: compareAtPriceMinor !== null && compareAtPriceMinor > priceMinor ? compareAtPriceMinor : null,
+    scheduleId: schedule?.id ?? null,
+    saleEndsAt: schedule?.endsAt ?? null,
+  };
+};
+
+// Why a PriceChange row was written
+export const PRICE_CHANGE_REASONS = ['manual', 'import', 'schedule_created', 'schedule_updated', 'schedule_cancelled'] as const;
+
+export type PriceChangeReason = (typeof PRICE_CHANGE_REASONS)[number];
+
+export interface PriceChangeRecord {
+  id: string;
+  variantId: string | null;
+  reason: string;
+  previousPriceMinor: number | null;
+  priceMinor: number | null;
+  previousCompareAtPriceMinor: number | null;
+  compareAtPriceMinor: number | null;
+  scheduleId: string | null;
+  changedBy: { email: string } | null;
+  createdAt: Date;
+}
+
+export type PriceHistoryEntry =
+  | ({ type: 'change'; at: Date } & PriceChangeRecord)
+  | { type: 'sale_started' | 'sale_ended'; at: Date; scheduleId: string; variantId: string | null; priceMinor: number };
+
+// Recorded edits plus the moments sales actually started and ended, newest first
+export const priceTimeline = (changes: PriceChangeRecord[], schedules: PriceScheduleWindow[], now = new Date()) => {
+  const entries: PriceHistoryEntry[] = changes.map(change => ({ type: 'change' as const, at: change.createdAt, ...change }));
+  schedules.forEach(schedule => {
+    const sale = { scheduleId: schedule.id, variantId: schedule.variantId, priceMinor: schedule.priceMinor };
+    if (schedule.startsAt <= now) entries.push({ type: 'sale_started', at: schedule.startsAt, ...sale });
+    if (schedule.endsAt && schedule.endsAt <= now) entries.push({ type: 'sale_ended', at: schedule.endsAt, ...sale });
+  });
+  return entries.sort((a, b) => b.at.getTime() - a.at.getTime());
+};
@@ -0,0 +1,92 @@
+import { CouponRule, applyPromotions, couponDiscount, couponProblem, ownerProblem, usageProblem } from './promotions';
+
+const at = (iso: string) => new Date(iso);
+
+const coupon = (overrides: Partial<CouponRule>): CouponRule => ({
+  id: 'c1',
+  code: 'SAVE10',
+  description: '10% off',
+  type: 'percent',
+  percentOff: 10,
+  amountOffMinor: null,
+  freeVariantId: null,
+  minSubtotalMinor: null,
+  startsAt: null,
+  endsAt: null,
+  usageLimit: null,
+  perCustomerLimit: null,
+  automatic: false,
+  active: true,
+  ...overrides,
+});
+
+const lines = [
+  { variantId: 'v1', unitPriceMinor: 1000, quantity: 2 },
+  { variantId: 'v2', unitPriceMinor: 500, quantity: 1 },
+];
+
+const unused = { total: 0, customer: 0 };
+
+describe('couponProblem', () => {
+  it('checks the validity window', () => {
+    const windowed = coupon({ startsAt: at('2026-11-01T00:00:00Z'), endsAt: at('2026-12-01T00:00:00Z') });
+    expect(couponProblem(windowed, lines, null, unused, at('2026-10-31T00:00:00Z'))).toBe('This coupon is not valid yet');
+    expect(couponProblem(windowed, lines, null, unused, at('2026-11-15T00:00:00Z'))).toBeNull();
+    expect(couponProblem(windowed, lines, null, unused, at('2026-12-01T00:00:00Z'))).toBe('This coupon has expired');
+  });
+
+  it('enforces usage limits, skipping the per-customer one for guests', () => {
+    const limited = coupon({ usageLimit: 5, perCustomerLimit: 1 });
+    expect(couponProblem(limited, lines, null, { total: 5, customer: 0 })).toBe('This coupon has been used up');
+    expect(couponProblem(limited, lines, null, { total: 1, customer: 1 })).toBe('You have already used this coupon');
+    expect(couponProblem(limited, lines, null, { total: 1, customer: null })).toBeNull();
+  });
+
+  it('compares the minimum subtotal in the cart currency', () => {
+    const minimum = coupon({ minSubtotalMinor: 3000 });
+    expect(couponProblem(minimum, lines, null, unused)).toBe('This coupon needs a subtotal of at least 30.00 USD');
+    const priceList = { currency: 'EUR', exchangeRate: '0.5', prices: new Map() };
+    expect(couponProblem(minimum, lines, priceList, unused)).toBeNull();
+  });
+});
+
+describe('usageProblem', () => {
+  it('only looks at the limits', () => {
+    const limited = coupon({ usageLimit: 2, perCustomerLimit: 1, endsAt: at('2000-01-01T00:00:00Z') });
+    expect(usageProblem(limited, { total: 1, customer: 0 })).toBeNull();
+    expect(usageProblem(limited, { total: 2, customer: 0 })).toBe('This coupon has been used up');
+    expect(usageProblem(limited, { total: 1, customer: 1 })).toBe('You have already used this coupon');
+  });
+});
+
+describe('couponDiscount', () => {
+  it('computes each coupon type', () => {
+    expect(couponDiscount(coupon({}), lines, null)).toBe(250);
+    expect(couponDiscount(coupon({ type: 'fixed', amountOffMinor: 5000 }), lines, null)).toBe(2500);
+    expect(couponDiscount(coupon({ type: 'free_item', freeVariantId: 'v2' }), lines, null)).toBe(500);
+  });
+});
+
+describe('ownerProblem', () => {
+  it('keeps personal coupons to their customer', () => {
+    expect(ownerProblem({ userId: null }, null)).toBeNull();
+    expect(ownerProblem({ userId: 'user-1' }, 'user-1')).toBeNull();
+    expect(ownerProblem({ userId: 'user-1' }, 'user-2')).toBe('This coupon belongs to another customer');
+    expect(ownerProblem({ userId: 'user-1' }, null)).toBe('Log in to use this coupon');
+  });
+});
+
+describe('applyPromotions', () => {
+  it('stacks automatic promotions with the entered coupon, capped at the subtotal', () => {
+    const automatic = coupon({ id: 'auto', code: 'AUTO', type: 'fixed', amountOffMinor: 2000, automatic: true });
+    const result = applyPromotions([automatic], coupon({ percentOff: 50 }), lines, null, new Map());
+    expect(result.discounts.map(discount => [discount.code, discount.amountMinor])).toEqual([['AUTO', 2000], ['SAVE10', 500]]);
+    expect(result).toMatchObject({ subtotalMinor: 2500, discountMinor: 2500, totalMinor: 0, couponError: null });
+  });
+
+  it('reports an entered coupon that does not qualify', () => {
+    const result = applyPromotions([], coupon({ active: false }), lines, null, new Map());
+    expect(result.discounts).toEqual([]);
+    expect(result.couponError).toBe('This coupon is not active');
+  });
+});
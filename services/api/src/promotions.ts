@@ -0,0 +1,148 @@
+import { BASE_CURRENCY, PriceListRates, convertMinor, fromMinor } from './money';
+
+// Coupons and automatic promotions. A coupon takes a percentage off the cart
+// subtotal, a fixed amount off it, or makes one unit of a given variant free
+// when that variant is in the cart. Automatic coupons apply to every cart that
+// qualifies without a code being entered. Fixed amounts and minimum subtotals
+// are base currency minor units, converted for carts in other currencies.
+export const COUPON_TYPES = ['percent', 'fixed', 'free_item'] as const;
+
+export type CouponType = (typeof COUPON_TYPES)[number];
+
+export interface CouponRule {
+  id: string;
+  code: string;
+  description: string;
+  type: string;
+  percentOff: number | null;
+  amountOffMinor: number | null;
+  freeVariantId: string | null;
+  minSubtotalMinor: number | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  automatic: boolean;
+  active: boolean;
+}
+
+// Orders placed with a coupon so far, overall and by the current customer
+// (null for guests, whose per-customer limit is checked at checkout)
+export interface CouponUsage {
+  total: number;
+  customer: number | null;
+}
+
+// Priced cart lines, in the cart currency
+export interface PromotionLine {
+  variantId: string;
+  unitPriceMinor: number;
+  quantity: number;
+}
+
+export interface AppliedDiscount {
+  couponId: string;
+  code: string;
+  description: string;
+  amountMinor: number;
+}
+
+const inCurrency = (baseMinor: number, priceList: PriceListRates | null) =>
+  priceList ? convertMinor(baseMinor, BASE_CURRENCY, priceList.currency, priceList.exchangeRate) : baseMinor;
+
+export const cartSubtotal = (lines: PromotionLine[]) =>
+  lines.reduce((sum, line) => sum + line.unitPriceMinor * line.quantity, 0);
+
+// Whether the coupon's overall or per-customer limit is reached
+export const usageProblem = (coupon: Pick<CouponRule, 'usageLimit' | 'perCustomerLimit'>, usage: CouponUsage) => {
+  if (coupon.usageLimit !== null && usage.total >= coupon.usageLimit) return 'This coupon has been used up';
+  if (coupon.perCustomerLimit !== null && usage.customer !== null && usage.customer >= coupon.perCustomerLimit) {
+    return 'You have already used this coupon';
+  }
+  return null;
+};
+
+// Coupons made for one customer, such as cart reminder coupons, only work for them
+export const ownerProblem = (coupon: { userId: string | null }, customerId: string | null) => {
+  if (coupon.userId === null || coupon.userId === customerId) return null;
+  return customerId ? 'This coupon belongs to another customer' : 'Log in to use this coupon';
+};
+
+// Thrown inside a checkout transaction when a coupon ran out after the cart
+// was priced, e.g. a concurrent checkout took its last use
+export class CouponLimitError extends Error {
+  constructor(code: string, problem: string) {
+    super(`Coupon ${code}: ${problem}`);
+  }
+}
+
+// Why the coupon cannot be used on this cart, or null when it can
+export const couponProblem = (
+  coupon: CouponRule,
+  lines: PromotionLine[],
+  priceList: PriceListRates | null,
+  usage: CouponUsage,
+  at = new Date(),
+) => {
+  if (!coupon.active) return 'This coupon is not active';
+  if (coupon.startsAt && coupon.startsAt > at) return 'This coupon is not valid yet';
+  if (coupon.endsAt && coupon.endsAt <= at) return 'This coupon has expired';
+  const limited = usageProblem(coupon, usage);
+  if (limited) return limited;
+  if (coupon.minSubtotalMinor !== null) {
+    const minimum = inCurrency(coupon.minSubtotalMinor, priceList);
+    if (cartSubtotal(lines) < minimum) {
+      const currency = priceList?.currency ?? BASE_CURRENCY;
+      return `This coupon needs a subtotal of at least ${fromMinor(minimum, currency)} ${currency}`;
+    }
+  }
+  if (coupon.type === 'free_item' && !lines.some(line => line.variantId === coupon.freeVariantId)) {
+    return 'Add the free item to your cart to use this coupon';
+  }
+  return null;
+};
+
+// The amount the coupon takes off, never more than the subtotal
+export const couponDiscount = (coupon: CouponRule, lines: PromotionLine[], priceList: PriceListRates | null) => {
+  const subtotal = cartSubtotal(lines);
+  switch (coupon.type) {
+    case 'percent':
+      return Math.round((subtotal * (coupon.percentOff ?? 0)) / 100);
+    case 'fixed':
+      return Math.min(inCurrency(coupon.amountOffMinor ?? 0, priceList), subtotal);
+    case 'free_item':
+      return lines.find(line => line.variantId === coupon.freeVariantId)?.unitPriceMinor ?? 0;
+    default:
+      return 0;
+  }
+};
+
+// Applies every qualifying automatic promotion plus the entered coupon, if
+// any. Automatic promotions that do not qualify are skipped silently; an
+// entered coupon that does not is reported. Discounts stack, capped at the
+// subtotal.
+export const applyPromotions = (
+  automatic: CouponRule[],
+  entered: CouponRule | null,
+  lines: PromotionLine[],
+  priceList: PriceListRates | null,
+  usage: Map<string, CouponUsage>,
+  at = new Date(),
+) => {
+  const subtotalMinor = cartSubtotal(lines);
+  const usageOf = (coupon: CouponRule) => usage.get(coupon.id) ?? { total: 0, customer: 0 };
+  const couponError = entered ? couponProblem(entered, lines, priceList, usageOf(entered), at) : null;
+  const candidates = automatic.filter(coupon => coupon.id !== entered?.id && !couponProblem(coupon, lines, priceList, usageOf(coupon), at));
+  if (entered && !couponError) candidates.push(entered);
+
+  const discounts: AppliedDiscount[] = [];
+  let remaining = subtotalMinor;
+  candidates.forEach(coupon => {
+    const amountMinor = Math.min(couponDiscount(coupon, lines, priceList), remaining);
+    if (amountMinor <= 0) return;
+    remaining -= amountMinor;
+    discounts.push({ couponId: coupon.id, code: coupon.code, description: coupon.description, amountMinor });
+  });
+  const discountMinor = subtotalMinor - remaining;
+  return { subtotalMinor, discounts, discountMinor, totalMinor: remaining, couponError };
+};
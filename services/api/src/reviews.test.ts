@@ -0,0 +1,19 @@
+import { summarizeRatings } from './reviews';
+
+describe('summarizeRatings', () => {
+  it('averages the ratings to two decimals and fills the distribution', () => {
+    expect(summarizeRatings([{ rating: 5, count: 2 }, { rating: 4, count: 1 }])).toEqual({
+      average: 4.67,
+      count: 3,
+      distribution: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 2 },
+    });
+  });
+
+  it('is zero without ratings', () => {
+    expect(summarizeRatings([])).toEqual({ average: 0, count: 0, distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 } });
+  });
+
+  it('ignores ratings outside 1-5', () => {
+    expect(summarizeRatings([{ rating: 7, count: 3 }, { rating: 2, count: 1 }]).count).toBe(1);
+  });
+});
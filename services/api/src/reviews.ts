@@ -0,0 +1,47 @@
+import { PrismaClient } from '@prisma/client';
+
+// Product reviews. Only customers with a confirmed order for the product may
+// review it, and only approved reviews are public and count towards the
+// product's rating, which is denormalised onto Product for sorting.
+export const REVIEW_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+// Orders that prove a purchase; pending orders are not paid yet
+export const PURCHASE_ORDER_STATUSES = ['paid', 'processing', 'shipped', 'delivered'];
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export const summarizeRatings = (groups: { rating: number; count: number }[]): RatingSummary => {
+  const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  groups.forEach(({ rating, count }) => {
+    if (rating in distribution) distribution[rating as keyof typeof distribution] += count;
+  });
+  const count = Object.values(distribution).reduce((sum, value) => sum + value, 0);
+  const total = Object.entries(distribution).reduce((sum, [rating, value]) => sum + Number(rating) * value, 0);
+  return { average: count ? Math.round((total / count) * 100) / 100 : 0, count, distribution };
+};
+
+export const hasPurchased = async (prisma: PrismaClient, userId: string, productId: string) =>
+  (await prisma.orderItem.count({
+    where: { productId, order: { userId, status: { in: PURCHASE_ORDER_STATUSES } } },
+  })) > 0;
+
+export const productRatingSummary = async (prisma: PrismaClient, productId: string) => {
+  const groups = await prisma.review.groupBy({
+    by: ['rating'],
+    where: { productId, status: 'approved' },
+    _count: { _all: true },
+  });
+  return summarizeRatings(groups.map(group => ({ rating: group.rating, count: group._count._all })));
+};
+
+// Call after any change to a product's approved reviews
+export const refreshProductRating = async (prisma: PrismaClient, productId: string) => {
+  const { average, count } = await productRatingSummary(prisma, productId);
+  await prisma.product.update({ where: { id: productId }, data: { ratingAverage: average, ratingCount: count } });
+};
@@ -0,0 +1,31 @@
+import { PrismaClient } from '@prisma/client';
+
+// Bootstraps admin access from the command line, e.g. for the very first admin
+// before anyone can send invitations:
+//   pnpm run grant-role -- owner@example.com admin
+const prisma = new PrismaClient();
+
+const main = async () => {
+  const [email, roleName] = process.argv.slice(2);
+  if (!email || !roleName) {
+    console.error('Usage: grant-role <email> <role>');
+    process.exit(1);
+  }
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) throw new Error(`No user with email ${email}`);
+  const role = await prisma.role.findUnique({ where: { name: roleName } });
+  if (!role) throw new Error(`No role named ${roleName}`);
+  await prisma.userRole.upsert({
+    where: { userId_roleId: { userId: user.id, roleId: role.id } },
+    create: { userId: user.id, roleId: role.id },
+    update: {},
+  });
+  console.log(`Granted ${role.name} to ${user.email}`);
+};
+
+main()
+  .catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
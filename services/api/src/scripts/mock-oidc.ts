@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { pkceChallenge } from '../oidc';
+
+// Minimal OpenID Connect provider for local development and manual testing of
+// social login. The authorize page lets you type any identity; nothing is
+// persisted and the signing key changes on every start.
+//   pnpm run mock-oidc
+//   OIDC_PROVIDERS=mock OIDC_MOCK_ISSUER=http://localhost:4010 OIDC_MOCK_CLIENT_ID=ecom-chat
+const PORT = Number(process.env.MOCK_OIDC_PORT || 4010);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (_, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+  });
+});
+
+app.get('/jwks', (_, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+app.get('/authorize', (req, res) => {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map((field) => `<input type="hidden" name="${field}" value="${escapeHtml(String(req.query[field] || ''))}">`)
+    .join('');
+  res.send(`<!doctype html>
+<title>Mock identity provider</title>
+<form method="post" style="font-family: sans-serif; max-width: 320px; margin: 80px auto; display: grid; gap: 10px">
+  <h2>Mock identity provider</h2>
+  ${hidden}
+  <input name="email" type="email" placeholder="Email" required>
+  <input name="name" placeholder="Name">
+  <label><input name="email_verified" type="checkbox" checked> Email verified</label>
+  <button type="submit">Sign in</button>
+</form>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, email, name, email_verified } = req.body;
+  if (!redirect_uri || !code_challenge || code_challenge_method !== 'S256') {
+    return res.status(400).send('PKCE with S256 is required');
+  }
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce: nonce || undefined,
+    codeChallenge: code_challenge,
+    email,
+    name: name || email,
+    emailVerified: email_verified === 'on',
+    expiresAt: Date.now() + 60 * 1000,
+  });
+  const url = new URL(redirect_uri);
+  url.searchParams.set('code', code);
+  if (state) url.searchParams.set('state', state);
+  res.redirect(url.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body;
+  const pending = codes.get(code);
+  codes.delete(code);
+  if (
+    grant_type !== 'authorization_code' ||
+    !pending ||
+    pending.expiresAt < Date.now() ||
+    pending.clientId !== client_id ||
+    pending.redirectUri !== redirect_uri ||
+    !code_verifier ||
+    pkceChallenge(code_verifier) !== pending.codeChallenge
+  ) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+  // Subject derived from the email so the same identity logs into the same account
+  const sub = crypto.createHash('sha256').update(pending.email.toLowerCase()).digest('hex').slice(0, 24);
+  const idToken = jwt.sign(
+    { email: pending.email, email_verified: pending.emailVerified, name: pending.name, nonce: pending.nonce },
+    privateKey,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: client_id, subject: sub, expiresIn: '5m' },
+  );
+  res.json({ access_token: crypto.randomBytes(16).toString('hex'), token_type: 'Bearer', expires_in: 300, id_token: idToken });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider running on ${ISSUER}`);
+});
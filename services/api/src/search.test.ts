@@ -0,0 +1,14 @@
+import { decodeCursor, encodeCursor } from './search';
+
+describe('product cursors', () => {
+  it('round-trips the sort value and id', () => {
+    const cursor = { value: '2026-10-19T09:00:00.000Z', id: 'b3c1' };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    expect(decodeCursor(encodeCursor({ value: 19.99, id: 'a1' }))).toEqual({ value: 19.99, id: 'a1' });
+  });
+
+  it('rejects tampered or malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ value: {}, id: 'a1' })).toString('base64url'))).toBeNull();
+  });
+});
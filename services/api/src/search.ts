@@ -0,0 +1,188 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { CategoryNode, descendantIds, rollUpCounts } from './categories';
+
+// Product listing: Postgres full-text search over name/description (the
+// generated "searchVector" column), filters, facets and keyset pagination.
+// Cursors are opaque: the last row's sort value and id, base64url-encoded.
+export const PRODUCT_SORTS = ['relevance', 'newest', 'price_asc', 'price_desc', 'name', 'rating'] as const;
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+export const PRODUCT_STATUSES = ['draft', 'active', 'archived'] as const;
+
+export type ProductStatus = (typeof PRODUCT_STATUSES)[number];
+
+// What a product looks like to API clients: taxonomy, the variant matrix and images
+export const productInclude = {
+  category: true,
+  tags: true,
+  optionTypes: { include: { values: { orderBy: { position: 'asc' } } }, orderBy: { position: 'asc' } },
+  variants: { include: { optionValues: { include: { optionType: true } } }, orderBy: { createdAt: 'asc' } },
+  images: { orderBy: { position: 'asc' } },
+} satisfies Prisma.ProductInclude;
+
+export interface ProductCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface ProductSearchParams {
+  q?: string;
+  // Base currency minor units
+  minPriceMinor?: number;
+  maxPriceMinor?: number;
+  inStock?: boolean;
+  category?: string;
+  tags?: string[];
+  // Storefront listings pass ['active']; the admin catalog may ask for any
+  statuses: ProductStatus[];
+  sort: ProductSort;
+  cursor?: ProductCursor;
+  limit: number;
+}
+
+export const encodeCursor = (cursor: ProductCursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+export const decodeCursor = (cursor: string): ProductCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof parsed?.id !== 'string' || !['string', 'number'].includes(typeof parsed.value)) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+};
+
+// Listing price: an active product-wide sale (see pricing.ts), else the regular price
+const listingPrice = Prisma.sql`COALESCE((
+  SELECT ps."priceMinor" FROM "PriceSchedule" ps
+  WHERE ps."productId" = "Product"."id" AND ps."variantId" IS NULL
+    AND ps."startsAt" <= now() AND (ps."endsAt" IS NULL OR ps."endsAt" > now())
+  ORDER BY ps."startsAt" DESC LIMIT 1
+), "Product"."priceMinor")`;
+
+const searchQuery = (q: string) => Prisma.sql`websearch_to_tsquery('english', ${q})`;
+
+// Sort column, direction and how a cursor value maps back to a SQL parameter.
+// Relevance without a search term falls back to newest first.
+const sortSpec = (sort: ProductSort, q?: string) => {
+  switch (sort) {
+    case 'relevance':
+      if (!q) return sortSpec('newest');
+      return {
+        expr: Prisma.sql`ts_rank("Product"."searchVector", ${searchQuery(q)})`,
+        descending: true,
+        param: (value: string | number) => Number(value),
+      };
+    case 'price_asc':
+    case 'price_desc':
+      return { expr: listingPrice, descending: sort === 'price_desc', param: (value: string | number) => Number(value) };
+    case 'rating':
+      return { expr: Prisma.sql`"Product"."ratingAverage"`, descending: true, param: (value: string | number) => Number(value) };
+    case 'name':
+      return { expr: Prisma.sql`"Product"."name"`, descending: false, param: (value: string | number) => String(value) };
+    case 'newest':
+      return { expr: Prisma.sql`"Product"."createdAt"`, descending: true, param: (value: string | number) => new Date(value) };
+  }
+};
+
+// Facet counts ignore their own filter (`except`) so the other choices stay visible
+const filterConditions = (params: ProductSearchParams, categories: CategoryNode[], except?: 'category' | 'tags') => {
+  const conditions: Prisma.Sql[] = [Prisma.sql`"Product"."status" IN (${Prisma.join(params.statuses)})`];
+  if (params.q) conditions.push(Prisma.sql`"Product"."searchVector" @@ ${searchQuery(params.q)}`);
+  if (params.minPriceMinor !== undefined) conditions.push(Prisma.sql`${listingPrice} >= ${params.minPriceMinor}`);
+  if (params.maxPriceMinor !== undefined) conditions.push(Prisma.sql`${listingPrice} <= ${params.maxPriceMinor}`);
+  if (params.inStock) conditions.push(Prisma.sql`"Product"."stock" > 0`);
+  if (params.category && except !== 'category') {
+    const category = categories.find(candidate => candidate.slug === params.category);
+    conditions.push(category
+      ? Prisma.sql`"Product"."categoryId" IN (${Prisma.join(descendantIds(categories, category.id))})`
+      : Prisma.sql`FALSE`);
+  }
+  if (params.tags?.length && except !== 'tags') {
+    // Every requested tag must be present
+    conditions.push(Prisma.sql`(
+      SELECT COUNT(*) FROM "_ProductToTag" pt JOIN "Tag" t ON t."id" = pt."B"
+      WHERE pt."A" = "Product"."id" AND t."slug" IN (${Prisma.join(params.tags)})
+    ) = ${params.tags.length}`);
+  }
+  return conditions;
+};
+
+const whereClause = (conditions: Prisma.Sql[]) =>
+  conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+
+const productFacets = async (prisma: PrismaClient, params: ProductSearchParams, categories: CategoryNode[]) => {
+  const [categoryRows, tagRows] = await Promise.all([
+    prisma.$queryRaw<{ categoryId: string; count: number }[]>`
+      SELECT "Product"."categoryId", COUNT(*)::int AS "count"
+      FROM "Product"
+      ${whereClause([...filterConditions(params, categories, 'category'), Prisma.sql`"Product"."categoryId" IS NOT NULL`])}
+      GROUP BY "Product"."categoryId"
+    `,
+    prisma.$queryRaw<{ slug: string; name: string; count: number }[]>`
+      SELECT t."slug", t."name", COUNT(*)::int AS "count"
+      FROM "Product"
+      JOIN "_ProductToTag" pt ON pt."A" = "Product"."id"
+      JOIN "Tag" t ON t."id" = pt."B"
+      ${whereClause(filterConditions(params, categories, 'tags'))}
+      GROUP BY t."id"
+      ORDER BY "count" DESC, t."slug" ASC
+      LIMIT 50
+    `,
+  ]);
+  const counts = rollUpCounts(categories, new Map(categoryRows.map(row => [row.categoryId, row.count])));
+  return {
+    categories: categories
+      .map(({ id, name, slug, parentId }) => ({ id, name, slug, parentId, count: counts.get(id) || 0 }))
+      .filter(category => category.count > 0),
+    tags: tagRows,
+  };
+};
+
+export const searchProducts = async (prisma: PrismaClient, params: ProductSearchParams) => {
+  const spec = sortSpec(params.sort, params.q);
+  const direction = spec.descending ? Prisma.sql`DESC` : Prisma.sql`ASC`;
+  const categories = await prisma.category.findMany();
+  const filters = filterConditions(params, categories);
+  const pageConditions = [...filters];
+
+  if (params.cursor) {
+    const comparison = spec.descending ? Prisma.sql`<` : Prisma.sql`>`;
+    pageConditions.push(Prisma.sql`(${spec.expr}, "Product"."id") ${comparison} (${spec.param(params.cursor.value)}, ${params.cursor.id})`);
+  }
+
+  const [rows, [{ total }], facets] = await Promise.all([
+    prisma.$queryRaw<{ id: string; sortValue: string | number | Date }[]>`
+      SELECT "Product"."id", ${spec.expr} AS "sortValue"
+      FROM "Product"
+      ${whereClause(pageConditions)}
+      ORDER BY ${spec.expr} ${direction}, "Product"."id" ${direction}
+      LIMIT ${params.limit + 1}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS "total" FROM "Product" ${whereClause(filters)}
+    `,
+    productFacets(prisma, params, categories),
+  ]);
+
+  const page = rows.slice(0, params.limit);
+  const products = await prisma.product.findMany({
+    where: { id: { in: page.map(row => row.id) } },
+    include: productInclude,
+  });
+  const byId = new Map(products.map(product => [product.id, product]));
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(row => byId.get(row.id)!).filter(Boolean),
+    total,
+    facets,
+    nextCursor: rows.length > params.limit && last
+      ? encodeCursor({
+          id: last.id,
+          value: last.sortValue instanceof Date ? last.sortValue.toISOString() : last.sortValue,
+        })
+      : null,
+  };
+};
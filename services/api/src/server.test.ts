@@ -1,10 +1,867 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
 import request from 'supertest';
+import { MOCK_SIGNATURE_HEADER, signWebhook } from './payments';
+import { WEBHOOK_SECRET, accessToken, activeSession, mailMock, prismaMock, resetMocks, sentMail } from './testing';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => require('./testing').prismaMock),
+}));
+jest.mock('./mail', () => ({ createMailTransport: () => require('./testing').mailMock }));
+
 import app from '../src/server'; // Assuming we export app
 
+const customer = { id: 'user-1', email: 'customer@example.com' };
+
+const admin = { id: 'admin-1', email: 'admin@example.com' };
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+// A signed-in staff member with 2FA on and the given role permissions;
+// returns the Authorization header
+const signInStaff = (user: { id: string; email: string }, permissions: string[]) => {
+  prismaMock.session.findUnique.mockResolvedValue(activeSession(user.id));
+  prismaMock.userRole.findMany.mockResolvedValue([{ role: { name: 'staff', permissions } }]);
+  prismaMock.user.findUnique.mockResolvedValue({ totpEnabledAt: new Date() });
+  return `Bearer ${accessToken(user)}`;
+};
+
+beforeEach(() => resetMocks());
+
 describe('GET /health', () => {
   it('should return status ok', async () => {
     const res = await request(app).get('/health');
     expect(res.status).toBe(200);
     expect(res.body).toEqual({ status: 'ok' });
   });
-});
\ No newline at end of file
+});
+
+describe('admin permissions', () => {
+  const signedIn = (roles: { name: string; permissions: string[] }[], totpEnabledAt: Date | null) => {
+    prismaMock.session.findUnique.mockResolvedValue(activeSession(customer.id));
+    prismaMock.userRole.findMany.mockResolvedValue(roles.map(role => ({ role })));
+    prismaMock.user.findUnique.mockResolvedValue({ totpEnabledAt });
+    prismaMock.user.findMany.mockResolvedValue([]);
+    return request(app).get('/admin/users').set('Authorization', `Bearer ${accessToken(customer)}`);
+  };
+
+  it('needs a token', async () => {
+    const res = await request(app).get('/admin/users');
+    expect(res.status).toBe(401);
+  });
+
+  it('refuses users without the permission', async () => {
+    const res = await signedIn([{ name: 'support', permissions: ['orders:read'] }], new Date());
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe('Permission required: users:read');
+  });
+
+  it('refuses admins without two-factor authentication', async () => {
+    const res = await signedIn([{ name: 'admin', permissions: ['*'] }], null);
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('TWO_FACTOR_REQUIRED');
+  });
+
+  it('lets admins with the permission and 2FA in', async () => {
+    const res = await signedIn([{ name: 'support', permissions: ['users:read'] }], new Date());
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([]);
+  });
+
+  it('refuses revoked sessions', async () => {
+    prismaMock.session.findUnique.mockResolvedValue({ ...activeSession(customer.id), revokedAt: new Date() });
+    const res = await request(app).get('/admin/users').set('Authorization', `Bearer ${accessToken(customer)}`);
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Session revoked');
+  });
+});
+
+describe('GET /messages', () => {
+  it('only shares the public profile of each author', async () => {
+    prismaMock.message.findMany.mockResolvedValue([]);
+    await request(app).get('/messages');
+    expect(prismaMock.message.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      include: { user: { select: { id: true, name: true } } },
+    }));
+  });
+});
+
+describe('POST /messages', () => {
+  it('needs a token', async () => {
+    const res = await request(app).post('/messages').send({ userId: customer.id, content: 'Hi' });
+    expect(res.status).toBe(401);
+    expect(prismaMock.message.create).not.toHaveBeenCalled();
+  });
+
+  it('posts as the signed-in user, whatever the body says', async () => {
+    prismaMock.session.findUnique.mockResolvedValue(activeSession(customer.id));
+    const res = await request(app)
+      .post('/messages')
+      .set('Authorization', `Bearer ${accessToken(customer)}`)
+      .send({ userId: 'someone-else', content: 'Hi' });
+    expect(res.status).toBe(200);
+    expect(prismaMock.message.create).toHaveBeenCalledWith(expect.objectContaining({ data: { userId: customer.id, content: 'Hi' } }));
+  });
+});
+
+describe('POST /auth/refresh', () => {
+  const session = (overrides = {}) => ({
+    ...activeSession(customer.id),
+    refreshTokenHash: sha256('refresh-1'),
+    user: customer,
+    ...overrides,
+  });
+
+  it('rotates the refresh token', async () => {
+    prismaMock.session.findUnique.mockResolvedValue(session());
+    prismaMock.session.updateMany.mockResolvedValue({ count: 1 });
+    const res = await request(app).post('/auth/refresh').send({ refreshToken: 'refresh-1' });
+    expect(res.status).toBe(200);
+    expect(res.body.token).toEqual(expect.any(String));
+    expect(res.body.refreshToken).not.toBe('refresh-1');
+    expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', refreshTokenHash: sha256('refresh-1'), revokedAt: null },
+      data: { refreshTokenHash: sha256(res.body.refreshToken), expiresAt: expect.any(Date) },
+    });
+  });
+
+  it('refuses a token that was already rotated', async () => {
+    prismaMock.session.findUnique.mockResolvedValue(null);
+    const res = await request(app).post('/auth/refresh').send({ refreshToken: 'refresh-1' });
+    expect(res.status).toBe(401);
+    expect(prismaMock.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses the loser of two refreshes racing with the same token', async () => {
+    prismaMock.session.findUnique.mockResolvedValue(session());
+    prismaMock.session.updateMany.mockResolvedValue({ count: 0 });
+    const res = await request(app).post('/auth/refresh').send({ refreshToken: 'refresh-1' });
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Invalid refresh token');
+  });
+
+  it('refuses revoked and expired sessions', async () => {
+    prismaMock.session.findUnique.mockResolvedValueOnce(session({ revokedAt: new Date() }));
+    prismaMock.session.findUnique.mockResolvedValueOnce(session({ expiresAt: new Date(Date.now() - 1000) }));
+    expect((await request(app).post('/auth/refresh').send({ refreshToken: 'refresh-1' })).status).toBe(401);
+    expect((await request(app).post('/auth/refresh').send({ refreshToken: 'refresh-1' })).status).toBe(401);
+    expect(prismaMock.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses sessions of deleted and locked accounts', async () => {
+    prismaMock.session.findUnique.mockResolvedValueOnce(session({ user: { ...customer, deletedAt: new Date() } }));
+    prismaMock.session.findUnique.mockResolvedValueOnce(session({
+      user: { ...customer, lockedUntil: new Date(Date.now() + 10 * 60 * 1000) },
+    }));
+    expect((await request(app).post('/auth/refresh').send({ refreshToken: 'refresh-1' })).status).toBe(401);
+    expect((await request(app).post('/auth/refresh').send({ refreshToken: 'refresh-1' })).status).toBe(401);
+    expect(prismaMock.session.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('session revocation', () => {
+  it('logout revokes only the session of the given refresh token', async () => {
+    prismaMock.session.updateMany.mockResolvedValue({ count: 1 });
+    const res = await request(app).post('/auth/logout').send({ refreshToken: 'refresh-1' });
+    expect(res.status).toBe(200);
+    expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+      where: { refreshTokenHash: sha256('refresh-1'), revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('logout-all revokes every session of the user', async () => {
+    prismaMock.session.findUnique.mockResolvedValue(activeSession(customer.id));
+    prismaMock.session.updateMany.mockResolvedValue({ count: 3 });
+    const res = await request(app).post('/auth/logout-all').set('Authorization', `Bearer ${accessToken(customer)}`);
+    expect(res.status).toBe(200);
+    expect(res.body.sessions).toBe(3);
+    expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+      where: { userId: customer.id, revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('refuses access tokens of a revoked session', async () => {
+    prismaMock.session.findUnique.mockResolvedValue({ ...activeSession(customer.id), revokedAt: new Date() });
+    const res = await request(app).post('/auth/logout-all').set('Authorization', `Bearer ${accessToken(customer)}`);
+    expect(res.status).toBe(401);
+    expect(prismaMock.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses expired access tokens', async () => {
+    const expired = jwt.sign({ ...customer, sid: 'session-1' }, 'devsecret', { expiresIn: -10 });
+    const res = await request(app).post('/auth/logout-all').set('Authorization', `Bearer ${expired}`);
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Token expired');
+  });
+});
+
+describe('password reset', () => {
+  const resetToken = (overrides = {}) => ({
+    id: 'token-1',
+    userId: customer.id,
+    purpose: 'password_reset',
+    tokenHash: sha256('reset-1'),
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    usedAt: null,
+    ...overrides,
+  });
+
+  it('answers the same for unknown accounts without sending mail', async () => {
+    prismaMock.user.findUnique.mockResolvedValue(null);
+    const res = await request(app).post('/auth/forgot-password').send({ email: 'nobody@example.com' });
+    expect(res.status).toBe(200);
+    expect(res.body.message).toBe('If that account exists, a reset link has been sent');
+    expect(sentMail).toHaveLength(0);
+  });
+
+  it('mails a link whose token is only stored hashed', async () => {
+    prismaMock.user.findUnique.mockResolvedValue(customer);
+    const res = await request(app).post('/auth/forgot-password').send({ email: customer.email });
+    expect(res.status).toBe(200);
+    expect(sentMail).toHaveLength(1);
+    const token = sentMail[0].text.match(/resetToken=([\w-]+)/)![1];
+    expect(prismaMock.userToken.create).toHaveBeenCalledWith({
+      data: { userId: customer.id, purpose: 'password_reset', tokenHash: sha256(token), expiresAt: expect.any(Date) },
+    });
+  });
+
+  it('sets the password and ends every session', async () => {
+    prismaMock.userToken.findUnique.mockResolvedValue(resetToken());
+    prismaMock.userToken.updateMany.mockResolvedValue({ count: 1 });
+    const res = await request(app).post('/auth/reset-password').send({ token: 'reset-1', password: 'new-password' });
+    expect(res.status).toBe(200);
+    expect(prismaMock.user.update).toHaveBeenCalledWith({ where: { id: customer.id }, data: { password: expect.any(String) } });
+    expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+      where: { userId: customer.id, revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('refuses used, expired and other-purpose tokens', async () => {
+    prismaMock.userToken.findUnique.mockResolvedValueOnce(resetToken());
+    prismaMock.userToken.updateMany.mockResolvedValueOnce({ count: 0 });
+    prismaMock.userToken.findUnique.mockResolvedValueOnce(resetToken({ expiresAt: new Date(Date.now() - 1000) }));
+    prismaMock.userToken.findUnique.mockResolvedValueOnce(resetToken({ purpose: 'email_verification' }));
+    for (let i = 0; i < 3; i++) {
+      const res = await request(app).post('/auth/reset-password').send({ token: 'reset-1', password: 'new-password' });
+      expect(res.status).toBe(400);
+    }
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('email verification', () => {
+  it('marks the email verified with a valid token', async () => {
+    prismaMock.userToken.findUnique.mockResolvedValue({
+      id: 'token-1',
+      userId: customer.id,
+      purpose: 'email_verification',
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    });
+    prismaMock.userToken.updateMany.mockResolvedValue({ count: 1 });
+    const res = await request(app).post('/auth/verify-email').send({ token: 'verify-1' });
+    expect(res.status).toBe(200);
+    expect(prismaMock.user.update).toHaveBeenCalledWith({ where: { id: customer.id }, data: { emailVerifiedAt: expect.any(Date) } });
+  });
+
+  it('is required to place orders', async () => {
+    prismaMock.session.findUnique.mockResolvedValue(activeSession(customer.id));
+    prismaMock.user.findUnique.mockResolvedValue({ ...customer, emailVerifiedAt: null });
+    const res = await request(app).post('/orders').set('Authorization', `Bearer ${accessToken(customer)}`).send({});
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe('Email verification required');
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /auth/oidc/:provider/callback', () => {
+  const loginRequest = (overrides = {}) => ({
+    state: 'state-1',
+    provider: 'mock',
+    app: 'web',
+    codeVerifier: 'verifier',
+    nonce: 'nonce',
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    ...overrides,
+  });
+
+  it('refuses unknown states', async () => {
+    prismaMock.oidcAuthRequest.findUnique.mockResolvedValue(null);
+    const res = await request(app).get('/auth/oidc/mock/callback?state=nope&code=abc');
+    expect(res.status).toBe(400);
+  });
+
+  it('refuses a replayed callback whose request was already consumed', async () => {
+    prismaMock.oidcAuthRequest.findUnique.mockResolvedValue(loginRequest());
+    prismaMock.oidcAuthRequest.deleteMany.mockResolvedValue({ count: 0 });
+    const res = await request(app).get('/auth/oidc/mock/callback?state=state-1&code=abc');
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Invalid or expired login request');
+  });
+
+  it('sends expired requests back to the app with an error', async () => {
+    prismaMock.oidcAuthRequest.findUnique.mockResolvedValue(loginRequest({ expiresAt: new Date(Date.now() - 1000) }));
+    prismaMock.oidcAuthRequest.deleteMany.mockResolvedValue({ count: 1 });
+    const res = await request(app).get('/auth/oidc/mock/callback?state=state-1&code=abc');
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toContain('oidcError=');
+  });
+
+  it('answers database failures instead of crashing', async () => {
+    prismaMock.oidcAuthRequest.findUnique.mockRejectedValue(new Error('connection lost'));
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const res = await request(app).get('/auth/oidc/mock/callback?state=state-1&code=abc');
+    expect(res.status).toBe(500);
+    logged.mockRestore();
+  });
+});
+
+describe('POST /admin/users/:id/unlock', () => {
+  it('unlocks the account', async () => {
+    const auth = signInStaff(admin, ['users:manage']);
+    prismaMock.user.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.user.findUniqueOrThrow.mockResolvedValue({ email: customer.email });
+    const res = await request(app).post(`/admin/users/${customer.id}/unlock`).set('Authorization', auth);
+    expect(res.status).toBe(200);
+    expect(prismaMock.user.updateMany).toHaveBeenCalledWith({ where: { id: customer.id }, data: { lockedUntil: null } });
+  });
+
+  it('answers 404 for unknown users', async () => {
+    const auth = signInStaff(admin, ['users:manage']);
+    prismaMock.user.updateMany.mockResolvedValue({ count: 0 });
+    const res = await request(app).post('/admin/users/nobody/unlock').set('Authorization', auth);
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('DELETE /admin/invitations/:id', () => {
+  it('answers 404 for unknown invitations', async () => {
+    const auth = signInStaff(admin, ['roles:manage']);
+    prismaMock.invitation.updateMany.mockResolvedValue({ count: 0 });
+    const res = await request(app).delete('/admin/invitations/nope').set('Authorization', auth);
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('Invitation not found');
+  });
+});
+
+describe('unknown roles', () => {
+  beforeEach(() => prismaMock.role.findMany.mockResolvedValue([{ id: 'role-1' }]));
+
+  it('are refused when setting a user\'s roles', async () => {
+    const auth = signInStaff(admin, ['roles:manage']);
+    const res = await request(app).put('/admin/users/user-2/roles').set('Authorization', auth).send({ roleIds: ['role-1', 'nope'] });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Unknown roles: nope');
+    expect(prismaMock.userRole.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('are refused in invitations', async () => {
+    const auth = signInStaff(admin, ['roles:manage']);
+    const res = await request(app).post('/admin/invitations').set('Authorization', auth).send({ email: 'new@example.com', roleIds: ['nope'] });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Unknown roles: nope');
+    expect(prismaMock.invitation.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('API keys', () => {
+  const keyHeader = 'ApiKey ek_test';
+
+  beforeEach(() => {
+    prismaMock.apiKey.findUnique.mockResolvedValue({
+      id: 'key-1',
+      scopes: ['orders:read'],
+      revokedAt: null,
+      expiresAt: null,
+      user: { id: 'admin-1', email: 'admin@example.com' },
+    });
+    prismaMock.userRole.findMany.mockResolvedValue([{ role: { name: 'admin', permissions: ['*'] } }]);
+    prismaMock.user.findUnique.mockResolvedValue({ totpEnabledAt: new Date() });
+  });
+
+  it('are refused on customer and account routes', async () => {
+    for (const [method, path] of [['post', '/orders'], ['post', '/checkout/hold'], ['post', '/orders/order-1/payments'], ['get', '/me/api-keys']] as const) {
+      const res = await request(app)[method](path).set('Authorization', keyHeader).send({});
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('API keys cannot access this endpoint');
+    }
+    expect(prismaMock.apiKey.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('are refused on guest-friendly cart routes', async () => {
+    const res = await request(app).get('/cart').set('Authorization', keyHeader);
+    expect(res.status).toBe(403);
+  });
+
+  it('work on admin routes within their scopes', async () => {
+    prismaMock.order.findMany.mockResolvedValue([]);
+    const res = await request(app).get('/admin/orders').set('Authorization', keyHeader);
+    expect(res.status).toBe(200);
+  });
+
+  it('cannot go beyond their scopes', async () => {
+    const res = await request(app).get('/admin/users').set('Authorization', keyHeader);
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe('Permission required: users:read');
+  });
+});
+
+describe('account deletion and export', () => {
+  const account = {
+    ...customer,
+    name: 'Casey',
+    password: 'bcrypt-hash',
+    totpSecret: 'enc:v1:secret',
+    totpEnabledAt: null,
+    emailVerifiedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => prismaMock.session.findUnique.mockResolvedValue(activeSession(customer.id)));
+
+  it('needs the password to delete the account', async () => {
+    prismaMock.user.findUnique.mockResolvedValue(account);
+    const res = await request(app).delete('/me').set('Authorization', `Bearer ${accessToken(customer)}`).send({ password: 'wrong' });
+    expect(res.status).toBe(401);
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+  });
+
+  it('scrubs the account and removes what the user owns', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({ ...account, password: await bcrypt.hash('secret-password', 4) });
+    prismaMock.stockHold.findMany.mockResolvedValue([]);
+    prismaMock.review.findMany.mockResolvedValue([]);
+    const res = await request(app).delete('/me').set('Authorization', `Bearer ${accessToken(customer)}`).send({ password: 'secret-password' });
+    expect(res.status).toBe(200);
+    expect(prismaMock.session.deleteMany).toHaveBeenCalledWith({ where: { userId: customer.id } });
+    expect(prismaMock.apiKey.deleteMany).toHaveBeenCalledWith({ where: { userId: customer.id } });
+    expect(prismaMock.user.update).toHaveBeenCalledWith({
+      where: { id: customer.id },
+      data: expect.objectContaining({ email: `deleted-${customer.id}@deleted.invalid`, password: null, totpSecret: null, deletedAt: expect.any(Date) }),
+    });
+  });
+
+  it('exports the profile without secrets', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({
+      ...account,
+      roles: [],
+      identities: [],
+      orders: [],
+      messages: [],
+      cart: null,
+      sessions: [{ refreshTokenHash: 'refresh-hash', userAgent: 'test', createdAt: new Date(), expiresAt: new Date(), revokedAt: null }],
+      apiKeys: [],
+      loginAttempts: [],
+      reviews: [],
+      savedItems: [],
+      stockAlerts: [],
+    });
+    const res = await request(app).get('/me/export').set('Authorization', `Bearer ${accessToken(customer)}`);
+    expect(res.status).toBe(200);
+    expect(res.body.profile.email).toBe(customer.email);
+    expect(res.text).not.toMatch(/bcrypt-hash|enc:v1|refresh-hash/);
+  });
+
+  it('lets only users:manage export or delete other users', async () => {
+    const auth = signInStaff(admin, ['users:read']);
+    expect((await request(app).get(`/admin/users/${customer.id}/export`).set('Authorization', auth)).status).toBe(403);
+    expect((await request(app).delete(`/admin/users/${customer.id}`).set('Authorization', auth)).status).toBe(403);
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+  });
+
+  it('sends admins to DELETE /me for their own account', async () => {
+    const auth = signInStaff(admin, ['users:manage']);
+    const res = await request(app).delete(`/admin/users/${admin.id}`).set('Authorization', auth);
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('product archiving', () => {
+  const product = { id: 'product-1', name: 'Mug', status: 'active', archivedAt: null };
+
+  it('needs products:write', async () => {
+    const auth = signInStaff(admin, ['orders:read']);
+    const res = await request(app).delete(`/admin/products/${product.id}`).set('Authorization', auth);
+    expect(res.status).toBe(403);
+    expect(prismaMock.product.update).not.toHaveBeenCalled();
+  });
+
+  it('archives instead of deleting', async () => {
+    const auth = signInStaff(admin, ['products:write']);
+    prismaMock.product.findUnique.mockResolvedValue(product);
+    const res = await request(app).delete(`/admin/products/${product.id}`).set('Authorization', auth);
+    expect(res.status).toBe(200);
+    expect(prismaMock.product.update).toHaveBeenCalledWith({
+      where: { id: product.id },
+      data: { status: 'archived', archivedAt: expect.any(Date) },
+    });
+    expect(prismaMock.product.delete).not.toHaveBeenCalled();
+  });
+
+  it('hides archived products from the storefront', async () => {
+    prismaMock.product.findUnique.mockResolvedValue({ ...product, status: 'archived', variants: [] });
+    const res = await request(app).get(`/products/${product.id}`);
+    expect(res.status).toBe(404);
+  });
+
+  it('only restores archived products', async () => {
+    const auth = signInStaff(admin, ['products:write']);
+    prismaMock.product.findUnique.mockResolvedValueOnce(product);
+    prismaMock.product.findUnique.mockResolvedValueOnce(null);
+    expect((await request(app).post(`/admin/products/${product.id}/restore`).set('Authorization', auth)).status).toBe(400);
+    expect((await request(app).post('/admin/products/nope/restore').set('Authorization', auth)).status).toBe(404);
+    expect(prismaMock.product.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('PUT /admin/products/:id stock', () => {
+  const product = { id: 'product-1', name: 'Mug', status: 'active', stock: 3, priceMinor: 1000, compareAtPriceMinor: null, archivedAt: null };
+  const edit = (body: object) =>
+    request(app)
+      .put(`/admin/products/${product.id}`)
+      .set('Authorization', signInStaff(admin, ['products:write']))
+      .send({ name: 'Mug', priceMinor: 1000, ...body });
+
+  beforeEach(() => {
+    prismaMock.product.findUnique.mockResolvedValue(product);
+    prismaMock.product.update.mockResolvedValue(product);
+    // Two of the five units the form opened with were held since
+    prismaMock.productVariant.findMany.mockResolvedValue([{ id: 'variant-1', stock: 3, optionValues: [] }]);
+    prismaMock.productVariant.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.productVariant.aggregate.mockResolvedValue({ _sum: { stock: 3 } });
+  });
+
+  it('applies the change made in the form, keeping units held meanwhile', async () => {
+    const res = await edit({ stock: 8, previousStock: 5 });
+    expect(res.status).toBe(200);
+    expect(prismaMock.productVariant.updateMany).toHaveBeenCalledWith({
+      where: { id: 'variant-1', stock: { gte: -3 } },
+      data: { stock: { increment: 3 } },
+    });
+  });
+
+  it('leaves the stock alone when it was not edited', async () => {
+    const res = await edit({ stock: 5, previousStock: 5 });
+    expect(res.status).toBe(200);
+    expect(prismaMock.productVariant.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses to take the stock below zero', async () => {
+    prismaMock.productVariant.updateMany.mockResolvedValue({ count: 0 });
+    const res = await edit({ stock: 0, previousStock: 5 });
+    expect(res.status).toBe(409);
+    expect(prismaMock.product.update).not.toHaveBeenCalled();
+  });
+
+  it('moves the stock in the same transaction as the other changes', async () => {
+    prismaMock.product.update.mockRejectedValue(new Error('Tag could not be created'));
+    const res = await edit({ stock: 8, previousStock: 5 });
+    expect(res.status).toBe(500);
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+    await expect(prismaMock.$transaction.mock.results[0].value).rejects.toThrow();
+    expect(prismaMock.productVariant.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses stock for products with options', async () => {
+    prismaMock.productVariant.findMany.mockResolvedValue([
+      { id: 'variant-1', stock: 3, optionValues: [{ id: 'small' }] },
+      { id: 'variant-2', stock: 2, optionValues: [{ id: 'large' }] },
+    ]);
+    const res = await edit({ stock: 8 });
+    expect(res.status).toBe(400);
+    expect(prismaMock.productVariant.updateMany).not.toHaveBeenCalled();
+    expect((await edit({})).status).toBe(200);
+  });
+});
+
+describe('back-in-stock alerts', () => {
+  it('removes each alert once its own email is sent', async () => {
+    const product = { id: 'product-1', name: 'Mug', status: 'active', stock: 0, priceMinor: 1000, compareAtPriceMinor: null, archivedAt: null };
+    prismaMock.product.findUnique.mockResolvedValue(product);
+    prismaMock.product.update.mockResolvedValue({ ...product, stock: 3 });
+    prismaMock.productVariant.findMany.mockResolvedValue([{ id: 'variant-1', stock: 0, optionValues: [] }]);
+    prismaMock.productVariant.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.productVariant.aggregate.mockResolvedValue({ _sum: { stock: 3 } });
+    prismaMock.stockAlert.findMany.mockResolvedValue([
+      { id: 'alert-1', userId: 'user-2', user: { email: 'first@example.com' } },
+      { id: 'alert-2', userId: 'user-3', user: { email: 'second@example.com' } },
+    ]);
+    jest.spyOn(mailMock, 'send').mockRejectedValueOnce(new Error('Mail server down'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const res = await request(app)
+      .put(`/admin/products/${product.id}`)
+      .set('Authorization', signInStaff(admin, ['products:write']))
+      .send({ name: 'Mug', priceMinor: 1000, stock: 3, previousStock: 0 });
+    expect(res.status).toBe(200);
+    expect(sentMail.map(mail => mail.to)).toEqual(['second@example.com']);
+    expect(prismaMock.stockAlert.deleteMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.stockAlert.deleteMany).toHaveBeenCalledWith({ where: { id: 'alert-2' } });
+    jest.restoreAllMocks();
+  });
+});
+
+describe('POST /checkout/hold', () => {
+  const cart = {
+    id: 'cart-1',
+    userId: customer.id,
+    holds: [],
+    items: [{ id: 'item-1', productId: 'product-1', variantId: 'variant-1', quantity: 2, product: { name: 'Mug', status: 'active' }, variant: { sku: 'MUG' } }],
+  };
+
+  beforeEach(() => {
+    prismaMock.session.findUnique.mockResolvedValue(activeSession(customer.id));
+    prismaMock.cart.findUnique.mockResolvedValue(cart);
+    prismaMock.stockHold.findMany.mockResolvedValue([]);
+    prismaMock.productVariant.aggregate.mockResolvedValue({ _sum: { stock: 0 } });
+  });
+
+  it('takes the stock and holds it for the cart', async () => {
+    prismaMock.productVariant.updateMany.mockResolvedValue({ count: 1 });
+    const res = await request(app).post('/checkout/hold').set('Authorization', `Bearer ${accessToken(customer)}`);
+    expect(res.status).toBe(200);
+    expect(res.body.expiresAt).toEqual(expect.any(String));
+    expect(prismaMock.productVariant.updateMany).toHaveBeenCalledWith({
+      where: { id: 'variant-1', stock: { gte: 2 } },
+      data: { stock: { decrement: 2 } },
+    });
+    expect(prismaMock.stockHold.createMany).toHaveBeenCalledWith({
+      data: [{ cartId: cart.id, variantId: 'variant-1', quantity: 2, expiresAt: expect.any(Date) }],
+    });
+  });
+
+  it('reports the lines that are short', async () => {
+    prismaMock.productVariant.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.productVariant.findUnique.mockResolvedValue({ id: 'variant-1', stock: 1 });
+    const res = await request(app).post('/checkout/hold').set('Authorization', `Bearer ${accessToken(customer)}`);
+    expect(res.status).toBe(409);
+    expect(res.body.items).toEqual([expect.objectContaining({ itemId: 'item-1', requested: 2, available: 1 })]);
+    expect(prismaMock.stockHold.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /cart/coupon', () => {
+  it('refuses a reminder coupon made for another customer', async () => {
+    prismaMock.session.findUnique.mockResolvedValue(activeSession(customer.id));
+    prismaMock.cart.findFirst.mockResolvedValue({
+      id: 'cart-1',
+      userId: customer.id,
+      coupon: null,
+      holds: [],
+      items: [{
+        id: 'item-1',
+        productId: 'product-1',
+        variantId: 'variant-1',
+        quantity: 1,
+        addedPriceMinor: 1000,
+        product: { id: 'product-1', name: 'Mug', status: 'active', priceMinor: 1000, compareAtPriceMinor: null },
+        variant: { id: 'variant-1', sku: 'MUG', stock: 5, priceMinor: null, optionValues: [] },
+      }],
+    });
+    prismaMock.coupon.findUnique.mockResolvedValue({
+      id: 'coupon-1', code: 'BACK-1234', description: '10% off', type: 'percent', percentOff: 10, amountOffMinor: null,
+      freeVariantId: null, minSubtotalMinor: null, startsAt: null, endsAt: null, usageLimit: 1, perCustomerLimit: 1,
+      automatic: false, active: true, userId: 'user-2',
+    });
+    prismaMock.coupon.findMany.mockResolvedValue([]);
+    prismaMock.priceSchedule.findMany.mockResolvedValue([]);
+    prismaMock.orderDiscount.groupBy.mockResolvedValue([]);
+    const res = await request(app).post('/cart/coupon').set('Authorization', `Bearer ${accessToken(customer)}`).send({ code: 'BACK-1234' });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('This coupon belongs to another customer');
+    expect(prismaMock.cart.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /orders', () => {
+  const coupon = {
+    id: 'coupon-1',
+    code: 'ONCE',
+    description: '10% off',
+    type: 'percent',
+    percentOff: 10,
+    amountOffMinor: null,
+    freeVariantId: null,
+    minSubtotalMinor: null,
+    startsAt: null,
+    endsAt: null,
+    usageLimit: 1,
+    perCustomerLimit: null,
+    automatic: false,
+    active: true,
+    userId: null,
+  };
+  const cart = {
+    id: 'cart-1',
+    userId: customer.id,
+    coupon,
+    holds: [],
+    items: [{
+      id: 'item-1',
+      productId: 'product-1',
+      variantId: 'variant-1',
+      quantity: 1,
+      addedPriceMinor: 1000,
+      product: { id: 'product-1', name: 'Mug', status: 'active', priceMinor: 1000, compareAtPriceMinor: null },
+      variant: { id: 'variant-1', sku: 'MUG', stock: 5, priceMinor: null, optionValues: [] },
+    }],
+  };
+
+  beforeEach(() => {
+    prismaMock.session.findUnique.mockResolvedValue(activeSession(customer.id));
+    prismaMock.user.findUnique.mockResolvedValue({ ...customer, emailVerifiedAt: new Date() });
+    prismaMock.cart.findUnique.mockResolvedValue(cart);
+    prismaMock.priceSchedule.findMany.mockResolvedValue([]);
+    prismaMock.cartItem.deleteMany.mockResolvedValue({ count: 1 });
+    prismaMock.stockHold.findMany.mockResolvedValue([]);
+    prismaMock.productVariant.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.productVariant.aggregate.mockResolvedValue({ _sum: { stock: 4 } });
+  });
+
+  it('rejects a coupon another checkout used up in the meantime', async () => {
+    // Unused when the cart is priced, used up once the coupon row is locked
+    prismaMock.coupon.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([coupon]);
+    prismaMock.orderDiscount.groupBy
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValue([{ couponId: coupon.id, _count: { _all: 1 } }]);
+    const res = await request(app).post('/orders').set('Authorization', `Bearer ${accessToken(customer)}`).send({});
+    expect(res.status).toBe(409);
+    expect(res.body.error).toBe('Coupon ONCE: This coupon has been used up');
+    expect(prismaMock.order.create).not.toHaveBeenCalled();
+  });
+
+  it('does not count cancelled orders against coupon limits', async () => {
+    prismaMock.coupon.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([coupon]);
+    prismaMock.orderDiscount.groupBy.mockResolvedValue([]);
+    prismaMock.order.create.mockResolvedValue({ id: 'order-1', totalMinor: 900 });
+    prismaMock.cartReminder.findFirst.mockResolvedValue(null);
+    const res = await request(app).post('/orders').set('Authorization', `Bearer ${accessToken(customer)}`).send({});
+    expect(res.status).toBe(200);
+    expect(prismaMock.orderDiscount.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: { couponId: { in: [coupon.id] }, order: { status: { not: 'cancelled' } } },
+    }));
+    expect(prismaMock.orderDiscount.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: { couponId: { in: [coupon.id] }, order: { userId: customer.id, status: { not: 'cancelled' } } },
+    }));
+  });
+});
+
+describe('POST /webhooks/payments/:provider', () => {
+  const order = { id: 'order-1', userId: customer.id, status: 'pending', stockTaken: true };
+  const event = { id: 'evt_1', type: 'payment.succeeded', reference: 'mock_1' };
+  const deliver = (body: object, secret = WEBHOOK_SECRET) => {
+    const raw = JSON.stringify(body);
+    return request(app)
+      .post('/webhooks/payments/mock')
+      .set('Content-Type', 'application/json')
+      .set(MOCK_SIGNATURE_HEADER, signWebhook(raw, secret))
+      .send(raw);
+  };
+
+  beforeEach(() => {
+    prismaMock.paymentAttempt.findUnique.mockResolvedValue({ id: 'attempt-1', order });
+    prismaMock.paymentWebhookEvent.createMany.mockResolvedValue({ count: 1 });
+    prismaMock.order.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('rejects deliveries with a bad signature', async () => {
+    const res = await deliver(event, 'wrong-secret');
+    expect(res.status).toBe(400);
+    expect(prismaMock.paymentWebhookEvent.createMany).not.toHaveBeenCalled();
+  });
+
+  it('marks the order paid', async () => {
+    const res = await deliver(event);
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ received: true });
+    expect(prismaMock.paymentAttempt.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'succeeded' }),
+    }));
+    expect(prismaMock.order.updateMany).toHaveBeenCalledWith({ where: { id: order.id, status: 'pending' }, data: { status: 'paid' } });
+  });
+
+  it('flags a success for a cancelled order for a refund', async () => {
+    prismaMock.paymentAttempt.findUnique.mockResolvedValue({ id: 'attempt-1', order: { ...order, status: 'cancelled' } });
+    const res = await deliver(event);
+    expect(res.status).toBe(200);
+    expect(prismaMock.paymentAttempt.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'refund_required' }),
+    }));
+    expect(prismaMock.order.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('never lets a late failure overwrite a success', async () => {
+    prismaMock.paymentAttempt.findUnique.mockResolvedValue({ id: 'attempt-1', order: { ...order, status: 'paid' } });
+    const res = await deliver({ id: 'evt_2', type: 'payment.failed', reference: 'mock_1' });
+    expect(res.status).toBe(200);
+    expect(prismaMock.paymentAttempt.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'attempt-1', status: { notIn: ['succeeded', 'refund_required'] } },
+    }));
+    expect(prismaMock.order.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('applies a repeated delivery only once', async () => {
+    prismaMock.paymentWebhookEvent.createMany.mockResolvedValue({ count: 0 });
+    const res = await deliver(event);
+    expect(res.body).toEqual({ received: true, duplicate: true });
+    expect(prismaMock.paymentAttempt.updateMany).not.toHaveBeenCalled();
+    expect(prismaMock.order.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('records the event in the same transaction as the status change', async () => {
+    prismaMock.order.updateMany.mockResolvedValue({ count: 0 });
+    const res = await deliver(event);
+    expect(res.status).toBe(409);
+    // The failed transaction takes the event row with it, so a retry is applied
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+    await expect(prismaMock.$transaction.mock.results[0].value).rejects.toThrow();
+    expect(prismaMock.paymentWebhookEvent.createMany).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GET /admin/stats', () => {
+  it('only counts paid orders as revenue', async () => {
+    const auth = signInStaff(admin, ['stats:read']);
+    prismaMock.order.groupBy.mockResolvedValue([{ currency: 'USD', _sum: { totalMinor: 2500 }, _count: 1 }]);
+    const res = await request(app).get('/admin/stats').set('Authorization', auth);
+    expect(res.status).toBe(200);
+    expect(res.body.revenue).toEqual([{ currency: 'USD', totalMinor: 2500, orders: 1 }]);
+    const paid = { in: ['paid', 'processing', 'shipped', 'delivered'] };
+    expect(prismaMock.order.groupBy).toHaveBeenCalledWith(expect.objectContaining({ where: { status: paid } }));
+    expect(prismaMock.order.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: { cartReminder: { isNot: null }, status: paid },
+    }));
+  });
+});
+
+describe('login throttling', () => {
+  it('slows an account down after a few failed passwords', async () => {
+    prismaMock.user.findUnique.mockResolvedValue(null);
+    const login = () => request(app).post('/auth/login').send({ email: 'throttled@example.com', password: 'wrong-password' });
+    for (let i = 0; i < 4; i++) expect((await login()).status).toBe(401);
+    const res = await login();
+    expect(res.status).toBe(429);
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+    expect(prismaMock.loginAttempt.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ email: 'throttled@example.com', reason: 'throttled' }),
+    });
+  });
+
+  it('refuses locked accounts even with the right password', async () => {
+    const lockedUntil = new Date(Date.now() + 10 * 60 * 1000);
+    prismaMock.user.findUnique.mockResolvedValue({
+      ...customer,
+      email: 'locked@example.com',
+      password: await bcrypt.hash('secret-password', 4),
+      lockedUntil,
+    });
+    const res = await request(app).post('/auth/login').send({ email: 'locked@example.com', password: 'secret-password' });
+    expect(res.status).toBe(429);
+    expect(res.body.lockedUntil).toBe(lockedUntil.toISOString());
+    expect(prismaMock.session.create).not.toHaveBeenCalled();
+  });
+});
@@ -1,18 +1,114 @@
 import express from 'express';
 import cors from 'cors';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, Product, ProductVariant, User } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import JSZip from 'jszip';
+import multer from 'multer';
+import QRCode from 'qrcode';
 import { z } from 'zod';
+import { cartReminderEmail, isAbandoned, linesToRestore, recoveryRate } from './abandoned';
+import { buildCategoryTree, createsCycle, slugify } from './categories';
+import { CartLine, lineWarnings, mergeCartLines, signCartToken, verifyCartToken } from './carts';
+import { CartChangedError, StockEditConflictError, StockLine, StockShortage, StockShortageError, shortageResponse, stockAdjustments } from './checkout';
+import { parseCsvRecords, toCsv } from './csv';
+import { createLimiter, createLimiterStore } from './limiter';
+import { createMailTransport } from './mail';
+import { BASE_CURRENCY, PriceListRates, convertMinor, currencyDigits, fromMinor, isCurrency, toMinor } from './money';
+import { IMAGE_RENDITIONS, ImageRendition, processImage } from './images';
+import { ORDER_STATUSES, OrderStatus, OrderStatusConflictError, PAID_STATUSES, allowedTransitions, transitionProblem } from './orders';
+import { IdTokenClaims, buildAuthorizationUrl, completeAuthorization, createPkcePair, firstLoginProblem, loadOidcProviders } from './oidc';
+import { MOCK_CHALLENGE_PAGE, createPaymentProvider } from './payments';
+import { PriceScheduleWindow, priceTimeline, resolveVariantPrice, windowsOverlap } from './pricing';
+import { PERMISSIONS, Permission, collectPermissions, hasPermission, scopePermissions } from './permissions';
+import { COUPON_TYPES, CouponLimitError, CouponUsage, applyPromotions, ownerProblem, usageProblem } from './promotions';
+import { PRODUCT_SORTS, PRODUCT_STATUSES, ProductStatus, decodeCursor, productInclude, searchProducts } from './search';
+import { REVIEW_STATUSES, hasPurchased, productRatingSummary, refreshProductRating } from './reviews';
+import { createStorage } from './storage';
+import { buildOtpauthUrl, decryptSecret, encryptSecret, generateRecoveryCodes, generateSecret, isEncryptedSecret, verifyCode } from './totp';
+import { validateVariants, variantTitle } from './variants';
+import { SAVED_LISTS, backInStockEmail, restocked } from './wishlists';
 
 const app = express();
 const prisma = new PrismaClient();
+const mailer = createMailTransport();
+const storage = createStorage();
+const limiterStore = createLimiterStore(prisma);
+const oidcProviders = loadOidcProviders();
+const paymentProvider = createPaymentProvider();
 const JWT_SECRET = process.env.JWT_SECRET || 'devsecret';
+const CART_TOKEN_SECRET = process.env.CART_TOKEN_SECRET || JWT_SECRET;
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+const API_URL = process.env.API_URL || 'http://localhost:4000';
+const WEB_URL = process.env.WEB_URL || 'http://localhost:3000';
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const ADMIN_URL = process.env.ADMIN_URL || 'http://localhost:3001';
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const TWO_FACTOR_PARTIAL_TOKEN_TTL = '5m';
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Ecom Chat';
+// Encrypts the TOTP secrets stored on users (see totp.ts). Development falls
+// back to JWT_SECRET; production must set its own key.
+const TOTP_ENCRYPTION_KEY = process.env.TOTP_ENCRYPTION_KEY || (process.env.NODE_ENV === 'production' ? '' : JWT_SECRET);
+if (!TOTP_ENCRYPTION_KEY) throw new Error('TOTP_ENCRYPTION_KEY must be set in production');
+const OIDC_REQUEST_TTL_MS = 10 * 60 * 1000;
+const OIDC_TICKET_TTL_MS = 2 * 60 * 1000;
+const API_KEY_PREFIX = 'ek_';
+const MAX_IMAGE_BYTES = Number(process.env.MAX_IMAGE_MB || 10) * 1024 * 1024;
+const MAX_IMAGES_PER_UPLOAD = 10;
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 5000;
+// Catalog import/export columns, one row per variant. "options" is the variant
+// title and is ignored on import.
+const CATALOG_COLUMNS = ['sku', 'name', 'description', 'price', 'stock', 'status', 'category', 'tags', 'options'] as const;
+const ACCOUNT_LOCKOUT_THRESHOLD = Number(process.env.ACCOUNT_LOCKOUT_THRESHOLD || 10);
+const ACCOUNT_LOCKOUT_MS = Number(process.env.ACCOUNT_LOCKOUT_MINUTES || 15) * 60 * 1000;
+// Abandoned cart reminders (see abandoned.ts). A check interval of 0 turns the
+// job off; a coupon percentage of 0 sends reminders without a coupon.
+const CART_REMINDER_INTERVAL_MS = Number(process.env.CART_REMINDER_INTERVAL_MINUTES || 15) * 60 * 1000;
+const CART_REMINDER_SCHEDULE = {
+  idleMs: Number(process.env.CART_REMINDER_IDLE_HOURS || 4) * 60 * 60 * 1000,
+  maxIdleMs: Number(process.env.CART_REMINDER_MAX_IDLE_DAYS || 7) * 24 * 60 * 60 * 1000,
+};
+const CART_REMINDER_TTL_MS = Number(process.env.CART_REMINDER_LINK_DAYS || 7) * 24 * 60 * 60 * 1000;
+const CART_REMINDER_COUPON_PERCENT = Number(process.env.CART_REMINDER_COUPON_PERCENT || 0);
+// How long POST /checkout/hold keeps a cart's stock aside while the customer
+// pays, and how long an order waits for its payment before it is cancelled
+const STOCK_HOLD_MS = Number(process.env.STOCK_HOLD_MINUTES || 15) * 60 * 1000;
+const STOCK_HOLD_RELEASE_INTERVAL_MS = 60 * 1000;
+
+// Brute-force protection. Failed logins slow down per IP and per account;
+// registrations are capped per IP.
+const loginIpLimiter = createLimiter(limiterStore, {
+  windowMs: 15 * 60 * 1000,
+  freeAttempts: 10,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * 60 * 1000,
+});
+const loginAccountLimiter = createLimiter(limiterStore, {
+  windowMs: 15 * 60 * 1000,
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+});
+const registerIpLimiter = createLimiter(limiterStore, {
+  windowMs: 60 * 60 * 1000,
+  freeAttempts: 5,
+  baseDelayMs: 10 * 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+});
 
 app.use(cors());
-app.use(express.json());
+// Payment webhook signatures are checked against the exact bytes received
+app.use(express.json({ verify: (req: any, _res, buf) => { req.rawBody = buf; } }));
+if (storage.localDir) {
+  // Image keys are unique per upload, so the files never change
+  app.use('/uploads', express.static(storage.localDir, { immutable: true, maxAge: '30d' }));
+}
 
 // Validation schemas
 const registerSchema = z.object({
@@ -21,368 +117,4013 @@ const registerSchema = z.object({
   password: z.string().min(6),
 });
 
-const loginSchema = z.object({
-  email: z.string().email(),
-  password: z.string().min(1),
+const messageSchema = z.object({
+  content: z.string().trim().min(1).max(2000),
+});
+
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+const productSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  priceMinor: z.number().int().positive(),
+  compareAtPriceMinor: z.number().int().positive().nullable().optional(),
+  stock: z.number().int().min(0),
+  sku: z.string().trim().min(1).max(64).optional(),
+  categoryId: z.string().nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  status: z.enum(PRODUCT_STATUSES).optional(),
+});
+
+// Stock may be left out, and previousStock is the stock the edit started
+// from; see PUT /admin/products/:id
+const productUpdateSchema = productSchema.extend({
+  stock: z.number().int().min(0).optional(),
+  previousStock: z.number().int().optional(),
+});
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/).optional(),
+  parentId: z.string().nullable().optional(),
+});
+
+const optionTypeSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  position: z.number().int().min(0).optional(),
+  values: z.array(z.string().trim().min(1).max(50)).min(1).max(100),
+});
+
+const variantsSchema = z.object({
+  optionTypeIds: z.array(z.string()).max(3),
+  variants: z.array(z.object({
+    id: z.string().optional(),
+    sku: z.string().trim().min(1).max(64),
+    priceMinor: z.number().int().positive().nullable().optional(),
+    stock: z.number().int().min(0),
+    optionValueIds: z.array(z.string()),
+  })).min(1).max(200),
+});
+
+const imageOrderSchema = z.object({
+  imageIds: z.array(z.string()).max(100),
+});
+
+// Sale prices are base currency minor units; a null variantId targets the whole product
+const priceScheduleSchema = z.object({
+  variantId: z.string().nullable().optional(),
+  priceMinor: z.number().int().positive(),
+  compareAtPriceMinor: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().nullable().optional(),
+  note: z.string().trim().max(200).optional(),
+}).refine(schedule => !schedule.endsAt || schedule.endsAt > schedule.startsAt, {
+  message: 'Must be after startsAt',
+  path: ['endsAt'],
+});
+
+const tagSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+});
+
+const currencySchema = z.string().trim().toUpperCase().refine(isCurrency, 'Unknown currency code');
+
+// Price filters are major units of the base currency ("19.99")
+const priceFilterSchema = z.string().transform((value, ctx) => {
+  const minor = toMinor(value, BASE_CURRENCY);
+  if (minor === null || minor < 0) {
+    ctx.addIssue({ code: 'custom', message: `Must be an amount in ${BASE_CURRENCY}` });
+    return z.NEVER;
+  }
+  return minor;
+});
+
+const productQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  minPrice: priceFilterSchema.optional(),
+  maxPrice: priceFilterSchema.optional(),
+  inStock: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  category: z.string().optional(),
+  tags: z.string().transform(value => value.split(',').map(tag => tag.trim()).filter(Boolean)).optional(),
+  sort: z.enum(PRODUCT_SORTS).default('relevance'),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  currency: currencySchema.optional(),
+});
+
+const adminProductQuerySchema = productQuerySchema.omit({ currency: true }).extend({
+  status: z.string()
+    .transform(value => value.split(',').map(status => status.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(PRODUCT_STATUSES)).min(1))
+    .optional(),
+});
+
+const reviewSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  title: z.string().trim().max(120).optional(),
+  body: z.string().trim().min(1).max(5000),
+});
+
+const reviewQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+const adminReviewQuerySchema = reviewQuerySchema.extend({
+  status: z.enum(REVIEW_STATUSES).default('pending'),
+});
+
+const reviewModerationSchema = z.object({
+  status: z.enum(REVIEW_STATUSES),
+});
+
+const cartSchema = z.object({
+  productId: z.string(),
+  variantId: z.string().optional(),
+  quantity: z.number().int().positive(),
+});
+
+const cartItemSchema = z.object({
+  quantity: z.number().int().positive(),
+});
+
+const currencyQuerySchema = z.object({
+  currency: currencySchema.optional(),
+});
+
+// paymentMethod is passed on to the payment provider (see payments.ts)
+const paymentMethodSchema = z.string().trim().min(1).max(200);
+
+const orderSchema = z.object({
+  currency: currencySchema.optional(),
+  paymentMethod: paymentMethodSchema.optional(),
+});
+
+const paymentSchema = z.object({
+  paymentMethod: paymentMethodSchema,
+});
+
+const orderStatusSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  note: z.string().trim().max(500).optional(),
+});
+
+const savedItemSchema = z.object({
+  productId: z.string(),
+  variantId: z.string().optional(),
+  quantity: z.number().int().positive().default(1),
+});
+
+const savedListParamsSchema = z.object({
+  list: z.enum(SAVED_LISTS),
+});
+
+const cartRestoreSchema = z.object({
+  token: z.string().min(1),
+});
+
+const cartCouponSchema = z.object({
+  code: z.string().trim().min(1).max(40).transform(code => code.toUpperCase()),
+});
+
+const couponSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{3,40}$/, '3-40 letters, digits, - or _').transform(code => code.toUpperCase()),
+  description: z.string().trim().max(200).default(''),
+  type: z.enum(COUPON_TYPES),
+  percentOff: z.number().int().min(1).max(100).nullable().optional(),
+  amountOffMinor: z.number().int().positive().nullable().optional(),
+  // SKU of the variant a free_item coupon gives away
+  freeSku: z.string().trim().min(1).nullable().optional(),
+  minSubtotalMinor: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  perCustomerLimit: z.number().int().positive().nullable().optional(),
+  automatic: z.boolean().default(false),
+  active: z.boolean().default(true),
+})
+  .refine(coupon => coupon.type !== 'percent' || coupon.percentOff, { message: 'Required for percent coupons', path: ['percentOff'] })
+  .refine(coupon => coupon.type !== 'fixed' || coupon.amountOffMinor, { message: 'Required for fixed coupons', path: ['amountOffMinor'] })
+  .refine(coupon => coupon.type !== 'free_item' || coupon.freeSku, { message: 'Required for free_item coupons', path: ['freeSku'] })
+  .refine(coupon => !coupon.startsAt || !coupon.endsAt || coupon.endsAt > coupon.startsAt, {
+    message: 'Must be after startsAt',
+    path: ['endsAt'],
+  });
+
+const priceListSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  currency: currencySchema.refine(currency => currency !== BASE_CURRENCY, 'The base currency needs no price list'),
+  // Units of the list currency per unit of the base currency
+  exchangeRate: z.union([z.number(), z.string()])
+    .transform(String)
+    .refine(value => /^\d+(\.\d{1,8})?$/.test(value) && Number(value) > 0, 'Must be a positive rate with at most 8 decimals'),
+  active: z.boolean().optional(),
+});
+
+const priceListPricesSchema = z.object({
+  // A null price removes the override so the variant falls back to conversion
+  prices: z.array(z.object({
+    sku: z.string().trim().min(1),
+    priceMinor: z.number().int().positive().nullable(),
+  })).min(1).max(5000),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const roleSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  permissions: z.array(z.enum(['*', ...PERMISSIONS])),
+});
+
+const userRolesSchema = z.object({
+  roleIds: z.array(z.string()),
+});
+
+const invitationSchema = z.object({
+  email: z.string().email(),
+  roleIds: z.array(z.string()).min(1),
+});
+
+const twoFactorVerifySchema = z.object({
+  partialToken: z.string().min(1),
+  code: z.string().min(1),
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().min(1),
+});
+
+const oidcExchangeSchema = z.object({
+  ticket: z.string().min(1),
+});
+
+const apiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(PERMISSIONS)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+const deleteAccountSchema = z.object({
+  password: z.string().optional(),
+  code: z.string().optional(),
+});
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+  name: z.string().min(1).optional(),
+  password: z.string().min(6),
+});
+
+// What other users may see of a user, e.g. as the author of a chat message
+const publicUserSelect = { id: true, name: true } satisfies Prisma.UserSelect;
+
+// Sessions: short-lived access JWTs carry the session id (sid); the refresh
+// token is only stored as a hash and is rotated on every use.
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const signAccessToken = (user: { id: string; email: string }, sessionId: string) =>
+  jwt.sign({ id: user.id, email: user.email, sid: sessionId }, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn'],
+  });
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const createSession = async (user: { id: string; email: string }, req: any) => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: req.headers['user-agent'] || null,
+      expiresAt: refreshExpiry(),
+    },
+  });
+  return { token: signAccessToken(user, session.id), refreshToken };
+};
+
+// Second factor: a 6-digit TOTP code, or one of the user's unused recovery
+// codes. TOTP steps are recorded so the same code cannot be replayed.
+const verifySecondFactor = async (user: User, code: string) => {
+  const normalized = code.replace(/\s/g, '').toLowerCase();
+  if (!user.totpSecret) return false;
+  if (/^\d{6}$/.test(normalized)) {
+    const step = verifyCode(decryptSecret(user.totpSecret, TOTP_ENCRYPTION_KEY), normalized);
+    if (step === null) return false;
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+      // Secrets saved before encryption are encrypted on their next use
+      data: {
+        totpLastUsedStep: step,
+        ...(isEncryptedSecret(user.totpSecret) ? {} : { totpSecret: encryptSecret(user.totpSecret, TOTP_ENCRYPTION_KEY) }),
+      },
+    });
+    return count === 1;
+  }
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hashToken(normalized), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count === 1;
+};
+
+const replaceRecoveryCodes = async (userId: string) => {
+  const codes = generateRecoveryCodes();
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({ data: codes.map(code => ({ userId, codeHash: hashToken(code) })) }),
+  ]);
+  return codes;
+};
+
+const rejectThrottled = (res: any, retryAfterMs: number) => {
+  const retryAfter = Math.ceil(retryAfterMs / 1000);
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: 'Too many attempts, please try again later', retryAfter });
+};
+
+const logLoginAttempt = (req: any, email: string, userId: string | null, reason: string) =>
+  prisma.loginAttempt.create({
+    data: { email, userId, ip: req.ip || null, userAgent: req.headers['user-agent'] || null, reason },
+  });
+
+// Throttle check before any password or code is looked at
+const checkLoginThrottle = async (req: any, email: string) => {
+  const checks = await Promise.all([
+    loginIpLimiter.check(`login:ip:${req.ip}`),
+    loginAccountLimiter.check(`login:account:${email.toLowerCase()}`),
+  ]);
+  return Math.max(...checks.map(check => check.retryAfterMs));
+};
+
+// Counts a failed password or 2FA code against the IP and the account, and
+// locks the account once it reaches ACCOUNT_LOCKOUT_THRESHOLD failures.
+// Locking also revokes the account's sessions.
+const recordFailedLogin = async (req: any, email: string, user: User | null, reason: string) => {
+  await loginIpLimiter.hit(`login:ip:${req.ip}`);
+  const { count } = await loginAccountLimiter.hit(`login:account:${email.toLowerCase()}`);
+  if (user && count >= ACCOUNT_LOCKOUT_THRESHOLD) {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { lockedUntil: new Date(Date.now() + ACCOUNT_LOCKOUT_MS) },
+      }),
+      prisma.session.updateMany({
+        where: { userId: user.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+    reason = 'account_locked';
+  }
+  await logLoginAttempt(req, email, user?.id ?? null, reason);
+};
+
+const isLocked = (user: User) => !!user.lockedUntil && user.lockedUntil > new Date();
+
+const rejectLocked = (res: any, user: User) => {
+  const retryAfterMs = user.lockedUntil!.getTime() - Date.now();
+  res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  return res.status(429).json({ error: 'Account temporarily locked after too many failed attempts', lockedUntil: user.lockedUntil });
+};
+
+// Social login: a known (provider, subject) pair logs straight in. Otherwise a
+// verified email links the identity to the account with that email, or creates
+// a new password-less account.
+const resolveOidcUser = async (providerId: string, claims: IdTokenClaims) => {
+  const identity = await prisma.userIdentity.findUnique({
+    where: { provider_subject: { provider: providerId, subject: claims.sub } },
+    include: { user: true },
+  });
+  if (identity) return { user: identity.user };
+  const existing = claims.email ? await prisma.user.findUnique({ where: { email: claims.email } }) : null;
+  const problem = firstLoginProblem(claims, !!existing);
+  if (problem) return { error: problem };
+
+  let user = existing;
+  if (!user) {
+    user = await prisma.user.create({ data: { email: claims.email!, name: claims.name, emailVerifiedAt: new Date() } });
+  } else if (!user.emailVerifiedAt) {
+    user = await prisma.user.update({ where: { id: user.id }, data: { emailVerifiedAt: new Date() } });
+  }
+  await prisma.userIdentity.create({
+    data: { userId: user.id, provider: providerId, subject: claims.sub, email: claims.email },
+  });
+  return { user };
+};
+
+const oidcReturnUrl = (app: string, params: Record<string, string>) => {
+  const url = new URL(app === 'admin' ? `${ADMIN_URL}/admin-login` : `${WEB_URL}/`);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
+
+// Mailed tokens are single-use: consuming one marks it used in the same
+// conditional update, so two concurrent requests cannot both succeed.
+const issueUserToken = async (userId: string, purpose: string, ttlMs: number) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await prisma.userToken.create({
+    data: { userId, purpose, tokenHash: hashToken(token), expiresAt: new Date(Date.now() + ttlMs) },
+  });
+  return token;
+};
+
+const consumeUserToken = async (token: string, purpose: string) => {
+  const record = await prisma.userToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!record || record.purpose !== purpose || record.expiresAt < new Date()) return null;
+  const { count } = await prisma.userToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count === 1 ? record : null;
+};
+
+const sendVerificationEmail = async (user: { id: string; email: string }) => {
+  const token = await issueUserToken(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_MS);
+  await mailer.send({
+    to: user.email,
+    subject: 'Confirm your email address',
+    text: `Confirm your email address by opening this link:\n\n${WEB_URL}/?verifyToken=${token}\n\nThe link expires in 24 hours.`,
+  });
+};
+
+// `Authorization: ApiKey ek_...` for integrations. The key acts as its owner,
+// limited to its scopes in requirePermission.
+const authenticateApiKey = async (key: string, req: any, res: any, next: any) => {
+  try {
+    const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashToken(key) }, include: { user: true } });
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+      return res.status(401).json({ error: 'Invalid or expired API key' });
+    }
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date(), lastUsedIp: req.ip } });
+    req.user = { id: apiKey.user.id, email: apiKey.user.email };
+    req.apiKey = { id: apiKey.id, scopes: apiKey.scopes };
+    next();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to verify API key' });
+  }
+};
+
+// Middleware to verify JWT. API keys are refused: only routes that check a
+// permission can limit a key to its scopes (see authenticateTokenOrApiKey).
+// Access tokens stop working as soon as their session is revoked or expires
+const isSessionLive = async (sessionId: unknown) => {
+  const session = typeof sessionId === 'string' && await prisma.session.findUnique({ where: { id: sessionId } });
+  return !!session && !session.revokedAt && session.expiresAt >= new Date();
+};
+
+const authenticateToken = async (req: any, res: any, next: any) => {
+  const authHeader = req.headers['authorization'];
+  const [scheme, token] = authHeader ? authHeader.split(' ') : [];
+  if (!token) return res.status(401).json({ error: 'Access token required' });
+  if (scheme === 'ApiKey') return res.status(403).json({ error: 'API keys cannot access this endpoint' });
+
+  let payload: any;
+  try {
+    payload = jwt.verify(token, JWT_SECRET);
+  } catch (err) {
+    if (err instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ error: 'Token expired' });
+    }
+    return res.status(403).json({ error: 'Invalid token' });
+  }
+
+  try {
+    if (!await isSessionLive(payload.sid)) return res.status(401).json({ error: 'Session revoked' });
+    req.user = payload;
+    next();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to verify session' });
+  }
+};
+
+// For routes guarded by requirePermission, which also take API keys
+const authenticateTokenOrApiKey = (req: any, res: any, next: any) => {
+  const authHeader = req.headers['authorization'];
+  const [scheme, token] = authHeader ? authHeader.split(' ') : [];
+  if (scheme === 'ApiKey' && token) return authenticateApiKey(token, req, res, next);
+  return authenticateToken(req, res, next);
+};
+
+// Cart routes also serve guests: requests with credentials are authenticated
+// as usual, requests without them carry on anonymously
+const identifyShopper = (req: any, res: any, next: any) =>
+  req.headers['authorization'] ? authenticateToken(req, res, next) : next();
+
+// Guest cart id from the X-Cart-Token header, if the token is ours
+const guestCartId = (req: any): string | null => {
+  const token = req.headers['x-cart-token'];
+  return typeof token === 'string' ? verifyCartToken(token, CART_TOKEN_SECRET) : null;
+};
+
+// Which cart the request works on; null for a guest without a valid token
+const shopperCartWhere = (req: any): Prisma.CartWhereInput | null => {
+  if (req.user) return { userId: req.user.id };
+  const cartId = guestCartId(req);
+  return cartId ? { id: cartId, userId: null } : null;
+};
+
+// Moves a guest cart into the user's cart when they sign in. Quantities of the
+// same variant add up, capped at the stock; the guest cart is deleted.
+const mergeGuestCart = async (userId: string, req: any) => {
+  const cartId = guestCartId(req);
+  const guestCart = cartId && await prisma.cart.findFirst({ where: { id: cartId, userId: null }, include: { items: true } });
+  if (!guestCart) return null;
+  const userCart = await prisma.cart.findUnique({ where: { userId }, include: { items: true } });
+  const userItems = userCart?.items || [];
+  const variants = await prisma.productVariant.findMany({ where: { id: { in: guestCart.items.map(item => item.variantId) } } });
+  const { lines, adjustments } = mergeCartLines(userItems, guestCart.items, new Map(variants.map(variant => [variant.id, variant.stock])));
+
+  await prisma.$transaction(async tx => {
+    const cart = userCart ?? await tx.cart.create({ data: { userId } });
+    for (const line of lines) {
+      const existing = userItems.find(item => item.variantId === line.variantId);
+      if (!existing) {
+        const guestItem = guestCart.items.find(item => item.variantId === line.variantId);
+        await tx.cartItem.create({
+          data: {
+            cartId: cart.id,
+            productId: line.productId,
+            variantId: line.variantId,
+            quantity: line.quantity,
+            addedPriceMinor: guestItem?.addedPriceMinor ?? null,
+          },
+        });
+      } else if (existing.quantity !== line.quantity) {
+        await tx.cartItem.update({ where: { id: existing.id }, data: { quantity: line.quantity } });
+      }
+    }
+    const keep = new Set(lines.map(line => line.variantId));
+    await tx.cartItem.deleteMany({ where: { id: { in: userItems.filter(item => !keep.has(item.variantId)).map(item => item.id) } } });
+    await tx.cart.delete({ where: { id: guestCart.id } });
+    await tx.cart.update({ where: { id: cart.id }, data: { updatedAt: new Date() } });
+  });
+  const skus = new Map(variants.map(variant => [variant.id, variant.sku]));
+  return {
+    adjustments: adjustments.map(({ variantId, ...adjustment }) => ({ sku: skus.get(variantId) ?? variantId, ...adjustment })),
+  };
+};
+
+const getUserPermissions = async (userId: string) => {
+  const userRoles = await prisma.userRole.findMany({
+    where: { userId },
+    include: { role: true },
+  });
+  return {
+    roles: userRoles.map(userRole => userRole.role.name),
+    permissions: collectPermissions(userRoles.map(userRole => userRole.role)),
+  };
+};
+
+const completeLogin = async (user: User, req: any) => {
+  const tokens = await createSession(user, req);
+  const { roles, permissions } = await getUserPermissions(user.id);
+  // A failed merge leaves the guest cart in place; it must not block the login
+  const mergedCart = await mergeGuestCart(user.id, req).catch(error => {
+    console.error('Failed to merge guest cart:', error);
+    return null;
+  });
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      roles,
+      permissions,
+      emailVerified: !!user.emailVerifiedAt,
+      twoFactorEnabled: !!user.totpEnabledAt,
+    },
+    // Admin access is refused until 2FA is enrolled, so clients send staff straight to setup
+    twoFactorSetupRequired: permissions.length > 0 && !user.totpEnabledAt,
+    // Present when a guest cart was merged; lists lines cut down to the stock
+    ...(mergedCart ? { mergedCart } : {}),
+    ...tokens,
+  };
+};
+
+// Password checked: accounts with 2FA only get a short-lived partial token that
+// /auth/2fa/verify exchanges for a session once the code is confirmed.
+const startLogin = async (user: User, req: any) => {
+  if (user.totpEnabledAt) {
+    const partialToken = jwt.sign({ id: user.id, purpose: '2fa' }, JWT_SECRET, {
+      expiresIn: TWO_FACTOR_PARTIAL_TOKEN_TTL,
+    });
+    return { twoFactorRequired: true, partialToken };
+  }
+  return completeLogin(user, req);
+};
+
+// Middleware to verify the user holds a permission through one of their roles.
+// Admin access also requires two-factor authentication to be enabled.
+const requirePermission = (permission: Permission) => async (req: any, res: any, next: any) => {
+  try {
+    const { permissions: granted } = await getUserPermissions(req.user.id);
+    const permissions = req.apiKey ? scopePermissions(granted, req.apiKey.scopes) : granted;
+    if (!hasPermission(permissions, permission)) {
+      return res.status(403).json({ error: `Permission required: ${permission}` });
+    }
+    const user = await prisma.user.findUnique({ where: { id: req.user.id }, select: { totpEnabledAt: true } });
+    if (!user?.totpEnabledAt) {
+      return res.status(403).json({ error: 'Two-factor authentication required for admin access', code: 'TWO_FACTOR_REQUIRED' });
+    }
+    req.permissions = permissions;
+    next();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to verify permissions' });
+  }
+};
+
+app.get('/', (_, res) => {
+  res.send('API running');
+});
+
+app.get('/health', (_, res) => {
+  res.json({ status: 'ok' });
+});
+
+// Auth routes
+app.post('/auth/register', async (req, res) => {
+  try {
+    const { email, name, password } = registerSchema.parse(req.body);
+    const ipKey = `register:ip:${req.ip}`;
+    const { retryAfterMs } = await registerIpLimiter.check(ipKey);
+    if (retryAfterMs > 0) return rejectThrottled(res, retryAfterMs);
+    await registerIpLimiter.hit(ipKey);
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const user = await prisma.user.create({
+      data: { email, name, password: hashedPassword },
+    });
+    await sendVerificationEmail(user);
+    res.json(await completeLogin(user, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to register' });
+  }
+});
+
+app.post('/auth/login', async (req, res) => {
+  try {
+    const { email, password } = loginSchema.parse(req.body);
+    const retryAfterMs = await checkLoginThrottle(req, email);
+    if (retryAfterMs > 0) {
+      await logLoginAttempt(req, email, null, 'throttled');
+      return rejectThrottled(res, retryAfterMs);
+    }
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (user && isLocked(user)) {
+      await logLoginAttempt(req, email, user.id, 'locked');
+      return rejectLocked(res, user);
+    }
+    if (!user || !user.password || !(await bcrypt.compare(password, user.password))) {
+      await recordFailedLogin(req, email, user, user ? 'invalid_password' : 'unknown_account');
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+    await loginAccountLimiter.reset(`login:account:${email.toLowerCase()}`);
+    res.json(await startLogin(user, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to login' });
+  }
+});
+
+app.post('/auth/2fa/verify', async (req, res) => {
+  try {
+    const { partialToken, code } = twoFactorVerifySchema.parse(req.body);
+    let payload: any;
+    try {
+      payload = jwt.verify(partialToken, JWT_SECRET);
+    } catch (err) {
+      return res.status(401).json({ error: 'Login expired, please sign in again' });
+    }
+    if (payload.purpose !== '2fa') return res.status(401).json({ error: 'Invalid token' });
+    const user = await prisma.user.findUnique({ where: { id: payload.id } });
+    if (!user || !user.totpEnabledAt) return res.status(401).json({ error: 'Invalid token' });
+    const retryAfterMs = await checkLoginThrottle(req, user.email);
+    if (retryAfterMs > 0) {
+      await logLoginAttempt(req, user.email, user.id, 'throttled');
+      return rejectThrottled(res, retryAfterMs);
+    }
+    if (isLocked(user)) return rejectLocked(res, user);
+    if (!(await verifySecondFactor(user, code))) {
+      await recordFailedLogin(req, user.email, user, 'invalid_2fa_code');
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+    await loginAccountLimiter.reset(`login:account:${user.email.toLowerCase()}`);
+    res.json(await completeLogin(user, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to verify authentication code' });
+  }
+});
+
+// 2FA enrollment: setup stores a pending secret, enable confirms it with a
+// first code and hands out the recovery codes (shown only once).
+app.post('/auth/2fa/setup', authenticateToken, async (req: any, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (user.totpEnabledAt) return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    const secret = generateSecret();
+    await prisma.user.update({ where: { id: user.id }, data: { totpSecret: encryptSecret(secret, TOTP_ENCRYPTION_KEY), totpLastUsedStep: null } });
+    const otpauthUrl = buildOtpauthUrl(secret, user.email, TOTP_ISSUER);
+    res.json({ secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+app.post('/auth/2fa/enable', authenticateToken, async (req: any, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user?.totpSecret) return res.status(400).json({ error: 'Start two-factor setup first' });
+    if (user.totpEnabledAt) return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    const step = verifyCode(decryptSecret(user.totpSecret, TOTP_ENCRYPTION_KEY), code);
+    if (step === null) return res.status(400).json({ error: 'Invalid authentication code' });
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step },
+    });
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+app.post('/auth/2fa/recovery-codes', authenticateToken, async (req: any, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user?.totpEnabledAt) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    if (!(await verifySecondFactor(user, code))) {
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+    res.json({ recoveryCodes: await replaceRecoveryCodes(user.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+app.post('/auth/2fa/disable', authenticateToken, async (req: any, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user?.totpEnabledAt) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    const { permissions } = await getUserPermissions(user.id);
+    if (permissions.length > 0) {
+      return res.status(403).json({ error: 'Two-factor authentication is mandatory for admin accounts' });
+    }
+    if (!(await verifySecondFactor(user, code))) {
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId: user.id } }),
+    ]);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+app.post('/auth/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+    const session = await prisma.session.findUnique({
+      where: { refreshTokenHash: hashToken(refreshToken) },
+      include: { user: true },
+    });
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+    if (session.user.deletedAt || isLocked(session.user)) {
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+    const nextRefreshToken = crypto.randomBytes(48).toString('base64url');
+    // Only rotates while the token is still the current one, so two refreshes
+    // racing with the same token cannot both get a new one
+    const { count } = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: session.refreshTokenHash, revokedAt: null },
+      data: { refreshTokenHash: hashToken(nextRefreshToken), expiresAt: refreshExpiry() },
+    });
+    if (count !== 1) return res.status(401).json({ error: 'Invalid refresh token' });
+    res.json({ token: signAccessToken(session.user, session.id), refreshToken: nextRefreshToken });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+app.post('/auth/logout', async (req, res) => {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+    await prisma.session.updateMany({
+      where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to logout' });
+  }
+});
+
+app.post('/auth/forgot-password', async (req, res) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { email } });
+    // Same response whether or not the account exists, so this can't be used to probe emails
+    if (user) {
+      const token = await issueUserToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MS);
+      await mailer.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: `Someone asked to reset the password for this account. If it was you, open this link:\n\n${WEB_URL}/?resetToken=${token}\n\nThe link expires in 1 hour. If it wasn't you, you can ignore this email.`,
+      });
+    }
+    res.json({ message: 'If that account exists, a reset link has been sent' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to request password reset' });
+  }
+});
+
+app.post('/auth/reset-password', async (req, res) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+    const record = await consumeUserToken(token, 'password_reset');
+    if (!record) return res.status(400).json({ error: 'Invalid or expired token' });
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const now = new Date();
+    await prisma.$transaction([
+      prisma.user.update({ where: { id: record.userId }, data: { password: hashedPassword } }),
+      prisma.userToken.updateMany({
+        where: { userId: record.userId, purpose: 'password_reset', usedAt: null },
+        data: { usedAt: now },
+      }),
+      // A reset usually means the password may be compromised: end every session
+      prisma.session.updateMany({
+        where: { userId: record.userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+    ]);
+    res.json({ message: 'Password updated' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+app.post('/auth/verify-email', async (req, res) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+    const record = await consumeUserToken(token, 'email_verification');
+    if (!record) return res.status(400).json({ error: 'Invalid or expired token' });
+    await prisma.user.update({
+      where: { id: record.userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+    res.json({ message: 'Email verified' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+app.post('/auth/resend-verification', authenticateToken, async (req: any, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (user.emailVerifiedAt) return res.status(400).json({ error: 'Email already verified' });
+    await sendVerificationEmail(user);
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
+// OpenID Connect login
+app.get('/auth/oidc/providers', (_, res) => {
+  res.json(oidcProviders.map(({ id, label }) => ({ id, label })));
+});
+
+app.get('/auth/oidc/:provider/start', async (req, res) => {
+  const provider = oidcProviders.find(candidate => candidate.id === req.params.provider);
+  const app = req.query.app === 'admin' ? 'admin' : 'web';
+  if (!provider) return res.status(404).json({ error: 'Unknown identity provider' });
+  try {
+    const { verifier, challenge } = createPkcePair();
+    const state = crypto.randomBytes(24).toString('base64url');
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    await prisma.oidcAuthRequest.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    await prisma.oidcAuthRequest.create({
+      data: {
+        state,
+        provider: provider.id,
+        codeVerifier: verifier,
+        nonce,
+        app,
+        expiresAt: new Date(Date.now() + OIDC_REQUEST_TTL_MS),
+      },
+    });
+    res.redirect(await buildAuthorizationUrl(provider, {
+      redirectUri: `${API_URL}/auth/oidc/${provider.id}/callback`,
+      state,
+      nonce,
+      codeChallenge: challenge,
+    }));
+  } catch (error) {
+    console.error('OIDC start failed:', error);
+    res.redirect(oidcReturnUrl(app, { oidcError: 'Could not reach the identity provider' }));
+  }
+});
+
+// The browser comes back here from the provider. Instead of putting tokens in
+// the URL we hand the app a short-lived single-use ticket to exchange.
+app.get('/auth/oidc/:provider/callback', async (req, res) => {
+  // Where to send the browser once the login request is known
+  let returnApp: string | null = null;
+  try {
+    const state = typeof req.query.state === 'string' ? req.query.state : '';
+    const request = state ? await prisma.oidcAuthRequest.findUnique({ where: { state } }) : null;
+    if (!request || request.provider !== req.params.provider) {
+      return res.status(400).json({ error: 'Invalid or expired login request' });
+    }
+    // Single use: a replayed or double-submitted callback finds it gone
+    const { count } = await prisma.oidcAuthRequest.deleteMany({ where: { state } });
+    if (count === 0) return res.status(400).json({ error: 'Invalid or expired login request' });
+    returnApp = request.app;
+    if (request.expiresAt < new Date() || typeof req.query.code !== 'string') {
+      return res.redirect(oidcReturnUrl(request.app, { oidcError: 'Sign-in was cancelled or expired' }));
+    }
+    const provider = oidcProviders.find(candidate => candidate.id === request.provider)!;
+    const claims = await completeAuthorization(provider, {
+      code: req.query.code,
+      redirectUri: `${API_URL}/auth/oidc/${provider.id}/callback`,
+      codeVerifier: request.codeVerifier,
+      nonce: request.nonce,
+    });
+    const result = await resolveOidcUser(provider.id, claims);
+    if (!result.user) {
+      return res.redirect(oidcReturnUrl(request.app, { oidcError: result.error! }));
+    }
+    const ticket = await issueUserToken(result.user.id, 'oidc_login', OIDC_TICKET_TTL_MS);
+    res.redirect(oidcReturnUrl(request.app, { oidcTicket: ticket }));
+  } catch (error) {
+    console.error('OIDC callback failed:', error);
+    if (!returnApp) return res.status(500).json({ error: 'Failed to complete sign-in' });
+    res.redirect(oidcReturnUrl(returnApp, { oidcError: 'Sign-in with the identity provider failed' }));
+  }
+});
+
+app.post('/auth/oidc/exchange', async (req, res) => {
+  try {
+    const { ticket } = oidcExchangeSchema.parse(req.body);
+    const record = await consumeUserToken(ticket, 'oidc_login');
+    const user = record && await prisma.user.findUnique({ where: { id: record.userId } });
+    if (!user) return res.status(400).json({ error: 'Invalid or expired login ticket' });
+    if (isLocked(user)) return rejectLocked(res, user);
+    res.json(await startLogin(user, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to complete sign-in' });
+  }
+});
+
+// Admin onboarding: the invitee sets a password (or confirms their existing
+// one) and receives the invited roles.
+app.post('/auth/accept-invitation', async (req, res) => {
+  try {
+    const { token, name, password } = acceptInvitationSchema.parse(req.body);
+    const invitation = await prisma.invitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { roles: true },
+    });
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt < new Date()) {
+      return res.status(400).json({ error: 'Invalid or expired invitation' });
+    }
+
+    let user = await prisma.user.findUnique({ where: { email: invitation.email } });
+    if (user) {
+      if (!user.password || !(await bcrypt.compare(password, user.password))) {
+        return res.status(401).json({ error: 'Invalid credentials' });
+      }
+    } else {
+      user = await prisma.user.create({
+        data: {
+          email: invitation.email,
+          name,
+          password: await bcrypt.hash(password, 10),
+          // The invitation link itself proves ownership of the address
+          emailVerifiedAt: new Date(),
+        },
+      });
+    }
+
+    const { count } = await prisma.invitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    if (count !== 1) return res.status(400).json({ error: 'Invalid or expired invitation' });
+    await prisma.userRole.createMany({
+      data: invitation.roles.map(role => ({ userId: user!.id, roleId: role.id })),
+      skipDuplicates: true,
+    });
+
+    res.json(await startLogin(user, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  }
+});
+
+app.post('/auth/logout-all', authenticateToken, async (req: any, res) => {
+  try {
+    const { count } = await prisma.session.updateMany({
+      where: { userId: req.user.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    res.json({ message: 'Logged out of all devices', sessions: count });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to logout of all devices' });
+  }
+});
+
+app.get('/me', authenticateToken, async (req: any, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    const { roles, permissions } = await getUserPermissions(user.id);
+    res.json({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      roles,
+      permissions,
+      emailVerified: !!user.emailVerifiedAt,
+      twoFactorEnabled: !!user.totpEnabledAt,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch profile' });
+  }
+});
+
+// GDPR-style data export: everything we hold about the user, as one JSON
+// document or a ZIP with one file per section (?format=zip)
+const collectUserData = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      roles: { include: { role: true } },
+      identities: true,
+      orders: { include: { items: { include: { product: true } }, discounts: true }, orderBy: { createdAt: 'desc' } },
+      messages: { orderBy: { createdAt: 'asc' } },
+      cart: { include: { items: { include: { product: true } } } },
+      sessions: { orderBy: { createdAt: 'desc' } },
+      apiKeys: { orderBy: { createdAt: 'desc' } },
+      loginAttempts: { orderBy: { createdAt: 'desc' } },
+      reviews: { include: { product: true }, orderBy: { createdAt: 'desc' } },
+      savedItems: { include: { product: true, variant: true }, orderBy: { createdAt: 'desc' } },
+      stockAlerts: { include: { product: true }, orderBy: { createdAt: 'desc' } },
+    },
+  });
+  if (!user) return null;
+  return {
+    exportedAt: new Date(),
+    profile: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      emailVerifiedAt: user.emailVerifiedAt,
+      twoFactorEnabled: !!user.totpEnabledAt,
+      roles: user.roles.map(userRole => userRole.role.name),
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    },
+    identities: user.identities.map(({ provider, email, createdAt }) => ({ provider, email, createdAt })),
+    orders: user.orders.map(order => ({
+      id: order.id,
+      status: order.status,
+      currency: order.currency,
+      subtotal: fromMinor(order.subtotalMinor, order.currency),
+      discounts: order.discounts.map(discount => ({ code: discount.code, amount: fromMinor(discount.amountMinor, order.currency) })),
+      total: fromMinor(order.totalMinor, order.currency),
+      createdAt: order.createdAt,
+      items: order.items.map(item => ({
+        product: item.product.name,
+        quantity: item.quantity,
+        price: fromMinor(item.priceMinor, order.currency),
+      })),
+    })),
+    messages: user.messages.map(({ id, content, createdAt }) => ({ id, content, createdAt })),
+    reviews: user.reviews.map(({ product, rating, title, body, status, createdAt }) => ({
+      product: product.name,
+      rating,
+      title,
+      body,
+      status,
+      createdAt,
+    })),
+    cart: (user.cart?.items || []).map(item => ({ product: item.product.name, quantity: item.quantity })),
+    savedItems: user.savedItems.map(({ list, product, variant, quantity, createdAt }) => ({
+      list,
+      product: product.name,
+      sku: variant.sku,
+      quantity,
+      createdAt,
+    })),
+    stockAlerts: user.stockAlerts.map(({ product, createdAt }) => ({ product: product.name, createdAt })),
+    sessions: user.sessions.map(({ userAgent, createdAt, expiresAt, revokedAt }) => ({ userAgent, createdAt, expiresAt, revokedAt })),
+    apiKeys: user.apiKeys.map(serializeApiKey),
+    loginAttempts: user.loginAttempts.map(({ ip, userAgent, reason, createdAt }) => ({ ip, userAgent, reason, createdAt })),
+  };
+};
+
+const sendUserExport = async (userId: string, format: unknown, res: any) => {
+  const data = await collectUserData(userId);
+  if (!data) return res.status(404).json({ error: 'User not found' });
+  const filename = `export-${userId}-${data.exportedAt.toISOString().slice(0, 10)}`;
+  if (format === 'zip') {
+    const zip = new JSZip();
+    Object.entries(data).forEach(([section, value]) => zip.file(`${section}.json`, JSON.stringify(value, null, 2)));
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.zip"`);
+    return res.send(await zip.generateAsync({ type: 'nodebuffer' }));
+  }
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+  res.json(data);
+};
+
+// Account deletion keeps the User row, scrubbed of personal data, because
+// orders must stay for accounting. Everything else the user owns is removed.
+const anonymizeUser = async (userId: string) => {
+  // Held stock goes back before the cart goes
+  await releaseHolds({ cart: { userId } });
+  const reviewed = await prisma.review.findMany({ where: { userId }, select: { productId: true } });
+  await prisma.$transaction([
+    prisma.session.deleteMany({ where: { userId } }),
+    prisma.userToken.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.userIdentity.deleteMany({ where: { userId } }),
+    prisma.apiKey.deleteMany({ where: { userId } }),
+    prisma.userRole.deleteMany({ where: { userId } }),
+    prisma.loginAttempt.deleteMany({ where: { userId } }),
+    prisma.message.deleteMany({ where: { userId } }),
+    prisma.cart.deleteMany({ where: { userId } }),
+    prisma.savedItem.deleteMany({ where: { userId } }),
+    prisma.stockAlert.deleteMany({ where: { userId } }),
+    prisma.review.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-${userId}@deleted.invalid`,
+        name: null,
+        password: null,
+        emailVerifiedAt: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        lockedUntil: null,
+        deletedAt: new Date(),
+      },
+    }),
+  ]);
+  for (const { productId } of reviewed) await refreshProductRating(prisma, productId);
+};
+
+app.get('/me/export', authenticateToken, async (req: any, res) => {
+  try {
+    await sendUserExport(req.user.id, req.query.format, res);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to export data' });
+  }
+});
+
+// Re-authenticates with the password and, when enabled, a 2FA code
+app.delete('/me', authenticateToken, async (req: any, res) => {
+  try {
+    const { password, code } = deleteAccountSchema.parse(req.body || {});
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (user.password && !(password && await bcrypt.compare(password, user.password))) {
+      return res.status(401).json({ error: 'Invalid password' });
+    }
+    if (user.totpEnabledAt && !(code && await verifySecondFactor(user, code))) {
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+    await anonymizeUser(user.id);
+    res.json({ message: 'Account deleted' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to delete account' });
+  }
+});
+
+// Personal API keys. The plain key is returned once, on creation.
+const serializeApiKey = (apiKey: any) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt,
+});
+
+app.get('/me/api-keys', authenticateToken, async (req: any, res) => {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { userId: req.user.id },
+      orderBy: { createdAt: 'desc' },
+    });
+    // Scopes the user may put on a new key
+    const { permissions } = await getUserPermissions(req.user.id);
+    res.json({
+      apiKeys: apiKeys.map(serializeApiKey),
+      scopes: PERMISSIONS.filter(permission => hasPermission(permissions, permission)),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch API keys' });
+  }
+});
+
+app.post('/me/api-keys', authenticateToken, async (req: any, res) => {
+  try {
+    const { name, scopes, expiresInDays } = apiKeySchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user?.totpEnabledAt) {
+      return res.status(403).json({ error: 'Enable two-factor authentication before creating API keys', code: 'TWO_FACTOR_REQUIRED' });
+    }
+    const { permissions } = await getUserPermissions(user.id);
+    const missing = scopes.filter(scope => !hasPermission(permissions, scope));
+    if (missing.length > 0) {
+      return res.status(403).json({ error: `You do not hold: ${missing.join(', ')}` });
+    }
+
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId: user.id,
+        name,
+        prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+        keyHash: hashToken(key),
+        scopes,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      },
+    });
+    res.status(201).json({ ...serializeApiKey(apiKey), key });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+app.delete('/me/api-keys/:id', authenticateToken, async (req: any, res) => {
+  try {
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id: req.params.id, userId: req.user.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) return res.status(404).json({ error: 'API key not found' });
+    res.json({ message: 'API key revoked' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+// Prices in another currency come from its active price list. Only the
+// explicit prices of the given variants are loaded. Returns null for the base
+// currency and undefined when the currency is not offered.
+const loadPriceList = async (currency: string | undefined, variantIds: string[]): Promise<PriceListRates | null | undefined> => {
+  if (!currency || currency === BASE_CURRENCY) return null;
+  const priceList = await prisma.priceList.findFirst({
+    where: { currency, active: true },
+    include: { prices: { where: { variantId: { in: variantIds } } } },
+  });
+  if (!priceList) return undefined;
+  return {
+    currency,
+    exchangeRate: priceList.exchangeRate,
+    prices: new Map(priceList.prices.map(price => [price.variantId, price.priceMinor])),
+  };
+};
+
+// Sales running at `at` for the given products
+const activeSchedules = (productIds: string[], at = new Date()): Promise<PriceScheduleWindow[]> =>
+  prisma.priceSchedule.findMany({
+    where: { productId: { in: productIds }, startsAt: { lte: at }, OR: [{ endsAt: null }, { endsAt: { gt: at } }] },
+    orderBy: { startsAt: 'desc' },
+  });
+
+type ProductWithIncludes = Prisma.ProductGetPayload<{ include: typeof productInclude }>;
+
+// Base prices stay as they are; display prices are in `currency` and include
+// running sales. The product shows its cheapest variant.
+const localizeProduct = (product: ProductWithIncludes, priceList: PriceListRates | null, schedules: PriceScheduleWindow[]) => {
+  const display = (variant: { id: string; priceMinor: number | null }) => {
+    const price = resolveVariantPrice(variant, product, schedules, priceList);
+    return { displayPriceMinor: price.priceMinor, displayCompareAtPriceMinor: price.compareAtPriceMinor, saleEndsAt: price.saleEndsAt };
+  };
+  const variants = product.variants.map(variant => ({ ...variant, ...display(variant) }));
+  const cheapest = variants.reduce<(typeof variants)[number] | undefined>(
+    (best, variant) => (!best || variant.displayPriceMinor < best.displayPriceMinor ? variant : best),
+    undefined,
+  );
+  const { displayPriceMinor, displayCompareAtPriceMinor, saleEndsAt } = cheapest ?? display({ id: '', priceMinor: null });
+  return {
+    ...product,
+    currency: priceList?.currency ?? BASE_CURRENCY,
+    displayPriceMinor,
+    displayCompareAtPriceMinor,
+    saleEndsAt,
+    variants,
+  };
+};
+
+// One PriceChange row per edit that touched a price
+const recordPriceChange = async (
+  data: Omit<Prisma.PriceChangeUncheckedCreateInput, 'id' | 'createdAt'>,
+  client: Prisma.TransactionClient = prisma,
+) => {
+  const unchanged = data.previousPriceMinor === data.priceMinor && data.previousCompareAtPriceMinor === data.compareAtPriceMinor;
+  if (unchanged && !data.scheduleId) return;
+  await client.priceChange.create({ data });
+};
+
+// Products
+app.get('/products', async (req, res) => {
+  try {
+    const { cursor, currency, minPrice, maxPrice, ...query } = productQuerySchema.parse(req.query);
+    const decodedCursor = cursor ? decodeCursor(cursor) : undefined;
+    if (decodedCursor === null) return res.status(400).json({ error: 'Invalid cursor' });
+    const result = await searchProducts(prisma, {
+      ...query,
+      q: query.q || undefined,
+      minPriceMinor: minPrice,
+      maxPriceMinor: maxPrice,
+      statuses: ['active'],
+      cursor: decodedCursor,
+    });
+    const priceList = await loadPriceList(currency, result.items.flatMap(product => product.variants.map(variant => variant.id)));
+    if (priceList === undefined) return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    const schedules = await activeSchedules(result.items.map(product => product.id));
+    res.json({ ...result, items: result.items.map(product => localizeProduct(product, priceList, schedules)) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch products' });
+  }
+});
+
+// Same search as the storefront, but drafts and archived products are included
+app.get('/admin/products', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { cursor, status, minPrice, maxPrice, ...query } = adminProductQuerySchema.parse(req.query);
+    const decodedCursor = cursor ? decodeCursor(cursor) : undefined;
+    if (decodedCursor === null) return res.status(400).json({ error: 'Invalid cursor' });
+    res.json(await searchProducts(prisma, {
+      ...query,
+      q: query.q || undefined,
+      minPriceMinor: minPrice,
+      maxPriceMinor: maxPrice,
+      statuses: status || [...PRODUCT_STATUSES],
+      cursor: decodedCursor,
+    }));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch products' });
+  }
+});
+
+// Tags are free-form: unknown names are created on the fly, matched by slug
+const productTagsInput = (tags: string[]) => {
+  const bySlug = new Map(tags.map(name => [slugify(name), name] as const).filter(([slug]) => slug));
+  return Array.from(bySlug, ([slug, name]) => ({ where: { slug }, create: { slug, name } }));
+};
+
+const generateSku = (name: string) =>
+  `${slugify(name).toUpperCase().slice(0, 24) || 'SKU'}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+
+// Keeps archivedAt in step with status; undefined leaves both untouched
+const archivedAtFor = (status: ProductStatus | undefined, current?: Date | null) =>
+  status === undefined ? undefined : status === 'archived' ? current ?? new Date() : null;
+
+// Product.stock is denormalised for listing and filtering
+const syncProductStock = async (productId: string, client: Prisma.TransactionClient = prisma) => {
+  const { _sum } = await client.productVariant.aggregate({ where: { productId }, _sum: { stock: true } });
+  return client.product.update({ where: { id: productId }, data: { stock: _sum.stock || 0 } });
+};
+
+// Back-in-stock alerts are one-shot: when an active product's stock rises from
+// zero, subscribers get an email and a socket event and the alerts are removed.
+// Failures are logged; they must not fail the stock update.
+const notifyBackInStock = async (product: { id: string; name: string; status: string; stock: number }, previousStock: number) => {
+  if (product.status !== 'active' || !restocked(previousStock, product.stock)) return;
+  try {
+    const alerts = await prisma.stockAlert.findMany({ where: { productId: product.id }, include: { user: true } });
+    // Each alert goes once its own mail is out; one that fails stays for the next restock
+    for (const alert of alerts) {
+      try {
+        await mailer.send({ to: alert.user.email, ...backInStockEmail(product.name, WEB_URL) });
+        await prisma.stockAlert.deleteMany({ where: { id: alert.id } });
+        io.to(alert.userId).emit('backInStock', { productId: product.id, name: product.name });
+      } catch (error) {
+        console.error(`Failed to send back-in-stock alert ${alert.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to send back-in-stock alerts:', error);
+  }
+};
+
+app.get('/products/:id', async (req, res) => {
+  try {
+    const { currency } = currencyQuerySchema.parse(req.query);
+    const product = await prisma.product.findUnique({ where: { id: req.params.id }, include: productInclude });
+    if (!product || product.status !== 'active') return res.status(404).json({ error: 'Product not found' });
+    const priceList = await loadPriceList(currency, product.variants.map(variant => variant.id));
+    if (priceList === undefined) return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    res.json(localizeProduct(product, priceList, await activeSchedules([product.id])));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch product' });
+  }
+});
+
+// Approved reviews, newest first, with the rating summary. The cursor is the
+// id of the last review on the previous page.
+app.get('/products/:id/reviews', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { cursor, limit } = reviewQuerySchema.parse(req.query);
+    if (!(await prisma.product.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+    const [reviews, summary] = await Promise.all([
+      prisma.review.findMany({
+        where: { productId: id, status: 'approved' },
+        include: { user: { select: { name: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      }),
+      productRatingSummary(prisma, id),
+    ]);
+    const page = reviews.slice(0, limit);
+    res.json({
+      items: page.map(({ id: reviewId, rating, title, body, createdAt, updatedAt, user }) => ({
+        id: reviewId,
+        rating,
+        title,
+        body,
+        author: user.name || 'Verified buyer',
+        createdAt,
+        updatedAt,
+      })),
+      summary,
+      nextCursor: reviews.length > limit ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch reviews' });
+  }
+});
+
+// One review per customer and product; posting again edits it, which sends it
+// back to moderation
+app.post('/products/:id/reviews', authenticateToken, async (req: any, res) => {
+  try {
+    const { id } = req.params;
+    const { rating, title, body } = reviewSchema.parse(req.body);
+    if (!(await prisma.product.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+    if (!(await hasPurchased(prisma, req.user.id, id))) {
+      return res.status(403).json({ error: 'Only customers who bought this product can review it' });
+    }
+    const data = { rating, title: title || null, body, status: 'pending', moderatedById: null, moderatedAt: null };
+    const review = await prisma.review.upsert({
+      where: { productId_userId: { productId: id, userId: req.user.id } },
+      update: data,
+      create: { ...data, productId: id, userId: req.user.id },
+    });
+    await refreshProductRating(prisma, id);
+    res.json(review);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to save review' });
+  }
+});
+
+// New products start with a single default variant carrying the stock
+app.post('/products', authenticateTokenOrApiKey, requirePermission('products:write'), async (req: any, res) => {
+  try {
+    const { tags, sku, ...data } = productSchema.parse(req.body);
+    if (data.categoryId && !(await prisma.category.findUnique({ where: { id: data.categoryId } }))) {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+    if (sku && await prisma.productVariant.findUnique({ where: { sku } })) {
+      return res.status(409).json({ error: `SKU ${sku} is already in use` });
+    }
+    const product = await prisma.product.create({
+      data: {
+        ...data,
+        archivedAt: archivedAtFor(data.status),
+        tags: tags ? { connectOrCreate: productTagsInput(tags) } : undefined,
+        variants: { create: { sku: sku || generateSku(data.name), stock: data.stock } },
+      },
+      include: productInclude,
+    });
+    await recordPriceChange({
+      productId: product.id,
+      reason: 'manual',
+      priceMinor: product.priceMinor,
+      compareAtPriceMinor: product.compareAtPriceMinor,
+      changedById: req.user.id,
+    });
+    res.json(product);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create product' });
+  }
+});
+
+// Categories & tags
+app.get('/categories', async (_, res) => {
+  try {
+    const categories = await prisma.category.findMany({
+      select: { id: true, name: true, slug: true, parentId: true },
+    });
+    res.json(buildCategoryTree(categories));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch categories' });
+  }
+});
+
+app.get('/option-types', async (_, res) => {
+  try {
+    const optionTypes = await prisma.optionType.findMany({
+      include: { values: { orderBy: { position: 'asc' } } },
+      orderBy: [{ position: 'asc' }, { name: 'asc' }],
+    });
+    res.json(optionTypes);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch option types' });
+  }
+});
+
+app.get('/tags', async (_, res) => {
+  try {
+    const tags = await prisma.tag.findMany({
+      include: { _count: { select: { products: true } } },
+      orderBy: { name: 'asc' },
+    });
+    res.json(tags);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+// Currencies the storefront can show prices in: the base currency plus every active price list
+app.get('/currencies', async (_, res) => {
+  try {
+    const priceLists = await prisma.priceList.findMany({ where: { active: true }, orderBy: { currency: 'asc' } });
+    res.json([
+      { code: BASE_CURRENCY, name: BASE_CURRENCY, digits: currencyDigits(BASE_CURRENCY), base: true },
+      ...priceLists.map(priceList => ({
+        code: priceList.currency,
+        name: priceList.name,
+        digits: currencyDigits(priceList.currency),
+        base: false,
+      })),
+    ]);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch currencies' });
+  }
+});
+
+// Cart routes (protected)
+const cartInclude = {
+  coupon: true,
+  holds: true,
+  items: {
+    include: { product: true, variant: { include: { optionValues: { include: { optionType: true } } } } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.CartInclude;
+
+type CartWithItems = Prisma.CartGetPayload<{ include: typeof cartInclude }>;
+
+const heldQuantity = (holds: StockLine[], variantId: string) =>
+  holds.find(hold => hold.variantId === variantId)?.quantity ?? 0;
+
+// Changing lines does not update the cart row, so routes that do touch it:
+// Cart.updatedAt is the last activity that abandoned cart reminders go by
+const touchCart = (where: Prisma.CartWhereInput) => prisma.cart.updateMany({ where, data: { updatedAt: new Date() } });
+
+// The price that applies right now: a running sale, else the variant's own
+// price, else the product price
+const itemPrice = (item: CartWithItems['items'][number], priceList: PriceListRates | null, schedules: PriceScheduleWindow[]) =>
+  resolveVariantPrice(item.variant, item.product, schedules, priceList);
+
+// Lines carry their total and warnings about what changed since they were
+// added; warning prices are in the cart currency
+const serializeCart = (cart: CartWithItems | null, priceList: PriceListRates | null, schedules: PriceScheduleWindow[]) => {
+  const items = (cart?.items || []).map(item => {
+    const price = itemPrice(item, priceList, schedules);
+    const basePriceMinor = priceList ? itemPrice(item, null, schedules).priceMinor : price.priceMinor;
+    const warnings = lineWarnings({
+      active: item.product.status === 'active',
+      // Units the cart holds for checkout are still the customer's
+      stock: item.variant.stock + heldQuantity(cart?.holds || [], item.variantId),
+      quantity: item.quantity,
+      addedPriceMinor: item.addedPriceMinor,
+      priceMinor: basePriceMinor,
+    }).map(warning =>
+      warning.code === 'price_changed' && priceList
+        ? {
+            ...warning,
+            previousPriceMinor: convertMinor(warning.previousPriceMinor, BASE_CURRENCY, priceList.currency, priceList.exchangeRate),
+            priceMinor: price.priceMinor,
+          }
+        : warning,
+    );
+    return {
+      ...item,
+      variantTitle: variantTitle(item.variant.optionValues),
+      unitPriceMinor: price.priceMinor,
+      compareAtPriceMinor: price.compareAtPriceMinor,
+      saleEndsAt: price.saleEndsAt,
+      lineTotalMinor: price.priceMinor * item.quantity,
+      warnings,
+    };
+  });
+  return {
+    ...cart,
+    currency: priceList?.currency ?? BASE_CURRENCY,
+    items,
+    subtotalMinor: items.reduce((sum, item) => sum + item.lineTotalMinor, 0),
+  };
+};
+
+// Cancelled orders give their coupon back; failed payments may still be
+// retried, so those orders keep counting
+const redeemedStatus = { not: 'cancelled' } satisfies Prisma.StringFilter;
+
+// Orders that used each coupon, overall and by the user when signed in
+const couponUsage = async (couponIds: string[], userId: string | null, client: Prisma.TransactionClient = prisma) => {
+  const where = { couponId: { in: couponIds } };
+  const [totals, own] = await Promise.all([
+    client.orderDiscount.groupBy({ by: ['couponId'], where: { ...where, order: { status: redeemedStatus } }, _count: { _all: true } }),
+    userId
+      ? client.orderDiscount.groupBy({ by: ['couponId'], where: { ...where, order: { userId, status: redeemedStatus } }, _count: { _all: true } })
+      : [],
+  ]);
+  const ownCounts = new Map(own.map(row => [row.couponId, row._count._all]));
+  return new Map<string, CouponUsage>(couponIds.map(id => [id, {
+    total: totals.find(row => row.couponId === id)?._count._all ?? 0,
+    customer: userId ? ownCounts.get(id) ?? 0 : null,
+  }]));
+};
+
+// Checks the limits of the order's coupons again inside the order
+// transaction. The coupon rows stay locked until it commits, so concurrent
+// checkouts with the same coupon take turns and count each other's orders.
+const claimCoupons = async (tx: Prisma.TransactionClient, couponIds: string[], userId: string) => {
+  const ids = [...new Set(couponIds)].sort();
+  if (ids.length === 0) return;
+  await tx.$queryRaw`SELECT id FROM "Coupon" WHERE id IN (${Prisma.join(ids)}) ORDER BY id FOR UPDATE`;
+  const coupons = await tx.coupon.findMany({ where: { id: { in: ids } } });
+  const usage = await couponUsage(ids, userId, tx);
+  for (const coupon of coupons) {
+    const problem = ownerProblem(coupon, userId) ?? usageProblem(coupon, usage.get(coupon.id)!);
+    if (problem) throw new CouponLimitError(coupon.code, problem);
+  }
+};
+
+// The serialized cart plus its discounts: qualifying automatic promotions and
+// the entered coupon. A coupon that stopped qualifying stays on the cart and
+// is reported in coupon.error.
+const priceCart = async (cart: CartWithItems | null, priceList: PriceListRates | null, schedules: PriceScheduleWindow[], userId: string | null) => {
+  const serialized = serializeCart(cart, priceList, schedules);
+  const automatic = await prisma.coupon.findMany({ where: { automatic: true, active: true }, orderBy: { createdAt: 'asc' } });
+  const entered = cart?.coupon ?? null;
+  const usage = await couponUsage([...automatic.map(coupon => coupon.id), ...(entered ? [entered.id] : [])], userId);
+  const ownerError = entered && ownerProblem(entered, userId);
+  const { couponError, ...promotions } = applyPromotions(automatic, ownerError ? null : entered, serialized.items, priceList, usage);
+  return {
+    ...serialized,
+    coupon: entered ? { code: entered.code, description: entered.description, error: ownerError || couponError } : null,
+    ...promotions,
+  };
+};
+
+const rejectInsufficientStock = (res: any, available: number) =>
+  res.status(400).json({ error: available > 0 ? `Only ${available} left in stock` : 'Out of stock', available });
+
+app.get('/cart', identifyShopper, async (req: any, res) => {
+  try {
+    const { currency } = currencyQuerySchema.parse(req.query);
+    const where = shopperCartWhere(req);
+    const cart = where && await prisma.cart.findFirst({ where, include: cartInclude });
+    const priceList = await loadPriceList(currency, (cart?.items || []).map(item => item.variantId));
+    if (priceList === undefined) return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    const schedules = await activeSchedules((cart?.items || []).map(item => item.productId));
+    res.json(await priceCart(cart, priceList, schedules, req.user?.id ?? null));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch cart' });
+  }
+});
+
+// The variant a shopper picked. Products with a single variant may be added
+// without naming it; inactive products cannot be added at all.
+const findShopperVariant = async (
+  productId: string,
+  variantId?: string,
+): Promise<{ product: Product; variant: ProductVariant } | { status: number; error: string }> => {
+  const product = await prisma.product.findUnique({ where: { id: productId } });
+  if (!product) return { status: 404, error: 'Product or variant not found' };
+  if (product.status !== 'active') return { status: 400, error: 'This product is no longer available' };
+  const variants = await prisma.productVariant.findMany({
+    where: { productId, ...(variantId ? { id: variantId } : {}) },
+    take: 2,
+  });
+  if (variants.length === 0) return { status: 404, error: 'Product or variant not found' };
+  if (variants.length > 1) return { status: 400, error: 'Choose a variant' };
+  return { product, variant: variants[0] };
+};
+
+// Guests without a cart get one; the response then carries the cartToken to send back
+app.post('/cart', identifyShopper, async (req: any, res) => {
+  try {
+    const { productId, variantId, quantity } = cartSchema.parse(req.body);
+    const found = await findShopperVariant(productId, variantId);
+    if ('error' in found) return res.status(found.status).json({ error: found.error });
+    const { product, variant } = found;
+
+    const where = shopperCartWhere(req);
+    let cart = where && await prisma.cart.findFirst({ where, include: { holds: true } });
+    const existingItem = cart && await prisma.cartItem.findFirst({
+      where: { cartId: cart.id, variantId: variant.id },
+    });
+    const available = variant.stock + heldQuantity(cart?.holds || [], variant.id);
+    if ((existingItem?.quantity ?? 0) + quantity > available) return rejectInsufficientStock(res, available);
+    if (!cart) {
+      cart = await prisma.cart.create({ data: { userId: req.user?.id ?? null }, include: { holds: true } });
+    }
+    // Adding again at today's price also settles any earlier price change
+    const addedPriceMinor = resolveVariantPrice(variant, product, await activeSchedules([productId]), null).priceMinor;
+    if (existingItem) {
+      await prisma.cartItem.update({
+        where: { id: existingItem.id },
+        data: { quantity: existingItem.quantity + quantity, addedPriceMinor },
+      });
+    } else {
+      await prisma.cartItem.create({
+        data: { cartId: cart.id, productId, variantId: variant.id, quantity, addedPriceMinor },
+      });
+    }
+    await touchCart({ id: cart.id });
+    res.json({ message: 'Added to cart', ...(cart.userId ? {} : { cartToken: signCartToken(cart.id, CART_TOKEN_SECRET) }) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to add to cart' });
+  }
+});
+
+// Applies a coupon code to the cart, if it qualifies for the cart as it is now.
+// Minimum subtotals are checked in the currency the cart is shown in.
+app.post('/cart/coupon', identifyShopper, async (req: any, res) => {
+  try {
+    const { code } = cartCouponSchema.parse(req.body);
+    const { currency } = currencyQuerySchema.parse(req.query);
+    const where = shopperCartWhere(req);
+    const cart = where && await prisma.cart.findFirst({ where, include: cartInclude });
+    if (!cart || cart.items.length === 0) return res.status(400).json({ error: 'Cart is empty' });
+    const coupon = await prisma.coupon.findUnique({ where: { code } });
+    if (!coupon) return res.status(404).json({ error: 'Coupon not found' });
+    const priceList = await loadPriceList(currency, cart.items.map(item => item.variantId));
+    if (priceList === undefined) return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    const schedules = await activeSchedules(cart.items.map(item => item.productId));
+    const priced = await priceCart({ ...cart, coupon }, priceList, schedules, req.user?.id ?? null);
+    if (priced.coupon?.error) return res.status(400).json({ error: priced.coupon.error });
+    await prisma.cart.update({ where: { id: cart.id }, data: { couponId: coupon.id } });
+    res.json({ message: 'Coupon applied' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to apply coupon' });
+  }
+});
+
+app.delete('/cart/coupon', identifyShopper, async (req: any, res) => {
+  try {
+    const where = shopperCartWhere(req);
+    if (where) await prisma.cart.updateMany({ where, data: { couponId: null } });
+    res.json({ message: 'Coupon removed' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to remove coupon' });
+  }
+});
+
+// Sets the quantity of a line; it may not exceed the variant's stock
+app.patch('/cart/items/:id', identifyShopper, async (req: any, res) => {
+  try {
+    const { quantity } = cartItemSchema.parse(req.body);
+    const where = shopperCartWhere(req);
+    const item = where && await prisma.cartItem.findFirst({
+      where: { id: req.params.id, cart: where },
+      include: { product: true, variant: true, cart: { include: { holds: true } } },
+    });
+    if (!item) return res.status(404).json({ error: 'Cart item not found' });
+    if (item.product.status !== 'active') return res.status(400).json({ error: 'This product is no longer available' });
+    const available = item.variant.stock + heldQuantity(item.cart.holds, item.variantId);
+    if (quantity > available) return rejectInsufficientStock(res, available);
+    await prisma.cartItem.update({ where: { id: item.id }, data: { quantity } });
+    await touchCart({ id: item.cartId });
+    res.json({ message: 'Cart updated' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update cart' });
+  }
+});
+
+app.delete('/cart/:productId', identifyShopper, async (req: any, res) => {
+  try {
+    const where = shopperCartWhere(req);
+    const cart = where && await prisma.cart.findFirst({ where });
+    if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    await prisma.cartItem.deleteMany({
+      where: { cartId: cart.id, productId: req.params.productId },
+    });
+    await touchCart({ id: cart.id });
+    res.json({ message: 'Removed from cart' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to remove from cart' });
+  }
+});
+
+app.delete('/cart/items/:id', identifyShopper, async (req: any, res) => {
+  try {
+    const where = shopperCartWhere(req);
+    if (!where) return res.status(404).json({ error: 'Cart item not found' });
+    const { count } = await prisma.cartItem.deleteMany({
+      where: { id: req.params.id, cart: where },
+    });
+    if (count === 0) return res.status(404).json({ error: 'Cart item not found' });
+    await touchCart(where);
+    res.json({ message: 'Removed from cart' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to remove from cart' });
+  }
+});
+
+// Wishlist and save-for-later lists (see wishlists.ts)
+const savedItemInclude = {
+  product: true,
+  variant: { include: { optionValues: { include: { optionType: true } } } },
+} satisfies Prisma.SavedItemInclude;
+
+app.get('/me/lists/:list', authenticateToken, async (req: any, res) => {
+  try {
+    const { list } = savedListParamsSchema.parse(req.params);
+    const { currency } = currencyQuerySchema.parse(req.query);
+    const items = await prisma.savedItem.findMany({
+      where: { userId: req.user.id, list },
+      include: savedItemInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    const priceList = await loadPriceList(currency, items.map(item => item.variantId));
+    if (priceList === undefined) return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    const productIds = items.map(item => item.productId);
+    const [schedules, alerts] = await Promise.all([
+      activeSchedules(productIds),
+      prisma.stockAlert.findMany({ where: { userId: req.user.id, productId: { in: productIds } } }),
+    ]);
+    res.json({
+      list,
+      currency: priceList?.currency ?? BASE_CURRENCY,
+      items: items.map(item => ({
+        ...item,
+        variantTitle: variantTitle(item.variant.optionValues),
+        unitPriceMinor: resolveVariantPrice(item.variant, item.product, schedules, priceList).priceMinor,
+        inStock: item.variant.stock > 0,
+        stockAlert: alerts.some(alert => alert.productId === item.productId),
+      })),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch list' });
+  }
+});
+
+// Saving a product that is sold out also asks for a back-in-stock alert
+app.post('/me/lists/:list', authenticateToken, async (req: any, res) => {
+  try {
+    const { list } = savedListParamsSchema.parse(req.params);
+    const { productId, variantId, quantity } = savedItemSchema.parse(req.body);
+    const found = await findShopperVariant(productId, variantId);
+    if ('error' in found) return res.status(found.status).json({ error: found.error });
+    const { product, variant } = found;
+    const userId_list_variantId = { userId: req.user.id, list, variantId: variant.id };
+    await prisma.savedItem.upsert({
+      where: { userId_list_variantId },
+      create: { ...userId_list_variantId, productId, quantity },
+      update: { quantity: list === 'saved' ? { increment: quantity } : quantity },
+    });
+    if (product.stock <= 0) {
+      await prisma.stockAlert.upsert({
+        where: { userId_productId: { userId: req.user.id, productId } },
+        create: { userId: req.user.id, productId },
+        update: {},
+      });
+    }
+    res.json({ message: 'Saved' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to save item' });
+  }
+});
+
+app.delete('/me/lists/:list/items/:id', authenticateToken, async (req: any, res) => {
+  try {
+    const { list } = savedListParamsSchema.parse(req.params);
+    const { count } = await prisma.savedItem.deleteMany({ where: { id: req.params.id, userId: req.user.id, list } });
+    if (count === 0) return res.status(404).json({ error: 'Item not found' });
+    res.json({ message: 'Removed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to remove item' });
+  }
+});
+
+// Moves a saved item into the cart, adding to a line of the same variant
+app.post('/me/lists/:list/items/:id/move-to-cart', authenticateToken, async (req: any, res) => {
+  try {
+    const { list } = savedListParamsSchema.parse(req.params);
+    const item = await prisma.savedItem.findFirst({
+      where: { id: req.params.id, userId: req.user.id, list },
+      include: { product: true, variant: true },
+    });
+    if (!item) return res.status(404).json({ error: 'Item not found' });
+    if (item.product.status !== 'active') return res.status(400).json({ error: 'This product is no longer available' });
+    const cart = await prisma.cart.upsert({
+      where: { userId: req.user.id },
+      create: { userId: req.user.id },
+      update: {},
+      include: { holds: true },
+    });
+    const existing = await prisma.cartItem.findFirst({ where: { cartId: cart.id, variantId: item.variantId } });
+    const quantity = (existing?.quantity ?? 0) + item.quantity;
+    const available = item.variant.stock + heldQuantity(cart.holds, item.variantId);
+    if (quantity > available) return rejectInsufficientStock(res, available);
+    const addedPriceMinor = resolveVariantPrice(item.variant, item.product, await activeSchedules([item.productId]), null).priceMinor;
+    await prisma.$transaction([
+      existing
+        ? prisma.cartItem.update({ where: { id: existing.id }, data: { quantity, addedPriceMinor } })
+        : prisma.cartItem.create({
+            data: { cartId: cart.id, productId: item.productId, variantId: item.variantId, quantity, addedPriceMinor },
+          }),
+      prisma.savedItem.delete({ where: { id: item.id } }),
+      touchCart({ id: cart.id }),
+    ]);
+    res.json({ message: 'Moved to cart' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to move item to cart' });
+  }
+});
+
+// Takes a line out of the cart onto the save-for-later list, keeping its quantity
+app.post('/cart/items/:id/save-for-later', authenticateToken, async (req: any, res) => {
+  try {
+    const item = await prisma.cartItem.findFirst({ where: { id: req.params.id, cart: { userId: req.user.id } } });
+    if (!item) return res.status(404).json({ error: 'Cart item not found' });
+    const userId_list_variantId = { userId: req.user.id, list: 'saved', variantId: item.variantId };
+    await prisma.$transaction([
+      prisma.savedItem.upsert({
+        where: { userId_list_variantId },
+        create: { ...userId_list_variantId, productId: item.productId, quantity: item.quantity },
+        update: { quantity: { increment: item.quantity } },
+      }),
+      prisma.cartItem.delete({ where: { id: item.id } }),
+      touchCart({ id: item.cartId }),
+    ]);
+    res.json({ message: 'Saved for later' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save for later' });
+  }
+});
+
+app.post('/products/:id/stock-alerts', authenticateToken, async (req: any, res) => {
+  try {
+    const product = await prisma.product.findUnique({ where: { id: req.params.id } });
+    if (!product || product.status !== 'active') return res.status(404).json({ error: 'Product not found' });
+    if (product.stock > 0) return res.status(400).json({ error: 'This product is in stock' });
+    await prisma.stockAlert.upsert({
+      where: { userId_productId: { userId: req.user.id, productId: product.id } },
+      create: { userId: req.user.id, productId: product.id },
+      update: {},
+    });
+    res.json({ message: 'We will let you know when it is back in stock' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create stock alert' });
+  }
+});
+
+app.delete('/products/:id/stock-alerts', authenticateToken, async (req: any, res) => {
+  try {
+    await prisma.stockAlert.deleteMany({ where: { userId: req.user.id, productId: req.params.id } });
+    res.json({ message: 'Stock alert removed' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to remove stock alert' });
+  }
+});
+
+// Abandoned cart reminders (see abandoned.ts). Each run emails the customers
+// whose carts went idle; a reminder that fails to send is dropped and tried
+// again on the next run.
+const sendCartReminders = async () => {
+  const now = new Date();
+  const carts = await prisma.cart.findMany({
+    where: {
+      user: { deletedAt: null, emailVerifiedAt: { not: null } },
+      items: { some: {} },
+      updatedAt: {
+        lte: new Date(now.getTime() - CART_REMINDER_SCHEDULE.idleMs),
+        gte: new Date(now.getTime() - CART_REMINDER_SCHEDULE.maxIdleMs),
+      },
+    },
+    include: {
+      user: true,
+      items: { include: { product: true }, orderBy: { createdAt: 'asc' } },
+      reminders: { orderBy: { sentAt: 'desc' }, take: 1 },
+    },
+  });
+  for (const cart of carts) {
+    if (!cart.user || !isAbandoned(cart.updatedAt, cart.reminders[0]?.sentAt ?? null, CART_REMINDER_SCHEDULE, now)) continue;
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now.getTime() + CART_REMINDER_TTL_MS);
+    const coupon = CART_REMINDER_COUPON_PERCENT > 0
+      ? await prisma.coupon.create({
+          data: {
+            code: `BACK-${crypto.randomBytes(4).toString('hex').toUpperCase()}`,
+            description: `${CART_REMINDER_COUPON_PERCENT}% off your saved cart`,
+            type: 'percent',
+            percentOff: CART_REMINDER_COUPON_PERCENT,
+            endsAt: expiresAt,
+            usageLimit: 1,
+            perCustomerLimit: 1,
+            userId: cart.user.id,
+          },
+        })
+      : null;
+    const reminder = await prisma.cartReminder.create({
+      data: {
+        cartId: cart.id,
+        userId: cart.user.id,
+        tokenHash: hashToken(token),
+        items: cart.items.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })),
+        couponId: coupon?.id ?? null,
+        expiresAt,
+      },
+    });
+    try {
+      await mailer.send({
+        to: cart.user.email,
+        ...cartReminderEmail({
+          name: cart.user.name || 'there',
+          items: cart.items.map(item => ({ name: item.product.name, quantity: item.quantity })),
+          restoreUrl: `${WEB_URL}/?restoreCart=${token}`,
+          expiresAt,
+          coupon: coupon && { code: coupon.code, percentOff: CART_REMINDER_COUPON_PERCENT },
+        }),
+      });
+    } catch (error) {
+      console.error(`Failed to send cart reminder for cart ${cart.id}:`, error);
+      await prisma.cartReminder.delete({ where: { id: reminder.id } });
+      if (coupon) await prisma.coupon.delete({ where: { id: coupon.id } });
+    }
+  }
+};
+
+// The one-click link from a reminder email: puts back reminded lines the
+// customer has removed since and applies the reminder's coupon unless the cart
+// already has one. The link only works for the customer it was sent to.
+app.post('/cart/restore', authenticateToken, async (req: any, res) => {
+  try {
+    const { token } = cartRestoreSchema.parse(req.body);
+    const reminder = await prisma.cartReminder.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { cart: { include: { items: true } } },
+    });
+    if (!reminder || reminder.userId !== req.user.id) return res.status(404).json({ error: 'Cart not found' });
+    if (reminder.expiresAt <= new Date()) return res.status(400).json({ error: 'This link has expired' });
+    if (reminder.orderId) return res.status(400).json({ error: 'This cart has already been checked out' });
+
+    const reminded = reminder.items as unknown as CartLine[];
+    const variants = await prisma.productVariant.findMany({
+      where: { id: { in: reminded.map(line => line.variantId) }, product: { status: 'active' } },
+    });
+    const lines = linesToRestore(reminded, reminder.cart.items, new Map(variants.map(variant => [variant.id, variant.stock])));
+    const schedules = await activeSchedules(lines.map(line => line.productId));
+    const products = await prisma.product.findMany({ where: { id: { in: lines.map(line => line.productId) } } });
+    await prisma.$transaction([
+      ...lines.map(line => prisma.cartItem.create({
+        data: {
+          cartId: reminder.cartId,
+          ...line,
+          addedPriceMinor: resolveVariantPrice(
+            variants.find(variant => variant.id === line.variantId)!,
+            products.find(product => product.id === line.productId)!,
+            schedules,
+            null,
+          ).priceMinor,
+        },
+      })),
+      prisma.cart.update({
+        where: { id: reminder.cartId },
+        data: { couponId: reminder.cart.couponId ?? reminder.couponId, updatedAt: new Date() },
+      }),
+      prisma.cartReminder.update({ where: { id: reminder.id }, data: { restoredAt: reminder.restoredAt ?? new Date() } }),
+    ]);
+    res.json({ message: 'Cart restored', restored: lines.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to restore cart' });
+  }
+});
+
+// Stock for checkout (see checkout.ts)
+
+// Puts units back on their variants. Returns the products with their stock
+// before, for back-in-stock alerts.
+const returnStock = async (tx: Prisma.TransactionClient, lines: StockLine[]) => {
+  const productIds = new Set<string>();
+  for (const line of lines) {
+    const variant = await tx.productVariant.update({ where: { id: line.variantId }, data: { stock: { increment: line.quantity } } });
+    productIds.add(variant.productId);
+  }
+  const restocked: { product: Product; previousStock: number }[] = [];
+  for (const productId of productIds) {
+    const { stock: previousStock } = await tx.product.findUniqueOrThrow({ where: { id: productId } });
+    restocked.push({ product: await syncProductStock(productId, tx), previousStock });
+  }
+  return restocked;
+};
+
+// Takes the stock for the cart's lines, less what the cart held, with
+// conditional decrements. Every line that cannot be covered is reported at
+// once; the error rolls the transaction back.
+const takeStock = async (tx: Prisma.TransactionClient, cart: CartWithItems, held: StockLine[]) => {
+  const { take, release } = stockAdjustments(cart.items, held);
+  await returnStock(tx, release);
+  const shortages: StockShortage[] = [];
+  for (const line of take) {
+    const { count } = await tx.productVariant.updateMany({
+      where: { id: line.variantId, stock: { gte: line.quantity } },
+      data: { stock: { decrement: line.quantity } },
+    });
+    if (count === 1) continue;
+    const item = cart.items.find(candidate => candidate.variantId === line.variantId)!;
+    const variant = await tx.productVariant.findUnique({ where: { id: line.variantId } });
+    shortages.push({
+      itemId: item.id,
+      productId: item.productId,
+      variantId: item.variantId,
+      sku: item.variant.sku,
+      name: item.product.name,
+      requested: item.quantity,
+      available: line.held + Math.max(variant?.stock ?? 0, 0),
+    });
+  }
+  if (shortages.length > 0) throw new StockShortageError(shortages);
+  for (const productId of new Set(take.map(line => cart.items.find(item => item.variantId === line.variantId)!.productId))) {
+    await syncProductStock(productId, tx);
+  }
+};
+
+// Takes over the cart's holds inside a checkout transaction. Each hold is
+// deleted before its units count, so one the expiry job releases at the same
+// moment is never used twice.
+const claimHolds = async (tx: Prisma.TransactionClient, cartId: string) => {
+  const holds = await tx.stockHold.findMany({ where: { cartId } });
+  const claimed: StockLine[] = [];
+  for (const hold of holds) {
+    const { count } = await tx.stockHold.deleteMany({ where: { id: hold.id } });
+    if (count === 1) claimed.push(hold);
+  }
+  return claimed;
+};
+
+// Gives back the stock of the holds matching where, one hold per transaction
+const releaseHolds = async (where: Prisma.StockHoldWhereInput) => {
+  const holds = await prisma.stockHold.findMany({ where });
+  for (const hold of holds) {
+    const restocked = await prisma.$transaction(async tx => {
+      const { count } = await tx.stockHold.deleteMany({ where: { ...where, id: hold.id } });
+      return count === 1 ? returnStock(tx, [hold]) : [];
+    });
+    for (const { product, previousStock } of restocked) await notifyBackInStock(product, previousStock);
+  }
+};
+
+// Sets the cart's stock aside while the customer pays; POST /orders then uses
+// the held units. Holding again renews the hold for the cart as it is now.
+app.post('/checkout/hold', authenticateToken, async (req: any, res) => {
+  try {
+    const cart = await prisma.cart.findUnique({ where: { userId: req.user.id }, include: cartInclude });
+    if (!cart || cart.items.length === 0) return res.status(400).json({ error: 'Cart is empty' });
+    if (cart.items.some(item => item.product.status !== 'active')) {
+      return res.status(400).json({ error: 'Remove the items that are no longer available first' });
+    }
+    const expiresAt = new Date(Date.now() + STOCK_HOLD_MS);
+    await prisma.$transaction(async tx => {
+      await takeStock(tx, cart, await claimHolds(tx, cart.id));
+      await tx.stockHold.createMany({
+        data: cart.items.map(item => ({ cartId: cart.id, variantId: item.variantId, quantity: item.quantity, expiresAt })),
+      });
+    });
+    res.json({ expiresAt });
+  } catch (error) {
+    if (error instanceof StockShortageError) return res.status(409).json(shortageResponse(error.shortages));
+    res.status(500).json({ error: 'Failed to hold stock' });
+  }
+});
+
+app.delete('/checkout/hold', authenticateToken, async (req: any, res) => {
+  try {
+    await releaseHolds({ cart: { userId: req.user.id } });
+    res.json({ message: 'Stock released' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to release stock' });
+  }
+});
+
+// Orders
+app.post('/orders', authenticateToken, async (req: any, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
+    if (!user?.emailVerifiedAt) {
+      return res.status(403).json({ error: 'Email verification required' });
+    }
+    const { currency, paymentMethod } = orderSchema.parse(req.body ?? {});
+    const cart = await prisma.cart.findUnique({
+      where: { userId: req.user.id },
+      include: cartInclude,
+    });
+    if (!cart || cart.items.length === 0) {
+      return res.status(400).json({ error: 'Cart is empty' });
+    }
+    const priceList = await loadPriceList(currency, cart.items.map(item => item.variantId));
+    if (priceList === undefined) return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    const unavailable = cart.items.filter(item => item.product.status !== 'active');
+    if (unavailable.length > 0) {
+      return res.status(400).json({
+        error: `No longer available: ${unavailable.map(item => item.product.name).join(', ')}. Remove them from your cart to check out.`,
+      });
+    }
+    // Prices are fixed at this moment, so a sale ending mid-request cannot split the order
+    const schedules = await activeSchedules(cart.items.map(item => item.productId));
+    // Coupons are checked again: limits or dates may have run out since it was applied
+    const priced = await priceCart(cart, priceList, schedules, req.user.id);
+    if (priced.coupon?.error) {
+      return res.status(400).json({ error: `Coupon ${priced.coupon.code}: ${priced.coupon.error}` });
+    }
+    const prices = new Map(priced.items.map(item => [item.id, item.unitPriceMinor]));
+    // One transaction: the stock, the order and the emptied cart commit together
+    const order = await prisma.$transaction(async tx => {
+      // Claiming the lines first means a second checkout of the same cart
+      // (a double submit) waits for this one and then finds them gone
+      const { count } = await tx.cartItem.deleteMany({ where: { id: { in: cart.items.map(item => item.id) } } });
+      if (count !== cart.items.length) throw new CartChangedError();
+      await takeStock(tx, cart, await claimHolds(tx, cart.id));
+      await claimCoupons(tx, priced.discounts.map(discount => discount.couponId), req.user.id);
+      const order = await tx.order.create({
+        data: {
+          userId: req.user.id,
+          subtotalMinor: priced.subtotalMinor,
+          discountMinor: priced.discountMinor,
+          totalMinor: priced.totalMinor,
+          currency: priceList?.currency ?? BASE_CURRENCY,
+          // Snapshot of the rate the prices were converted with
+          exchangeRate: priceList?.exchangeRate ?? 1,
+          stockTaken: true,
+          paymentDueAt: new Date(Date.now() + STOCK_HOLD_MS),
+          statusEvents: { create: { toStatus: 'pending', actorId: req.user.id } },
+          items: {
+            create: cart.items.map(item => ({
+              productId: item.productId,
+              variantId: item.variantId,
+              sku: item.variant.sku,
+              variantTitle: variantTitle(item.variant.optionValues) || null,
+              quantity: item.quantity,
+              priceMinor: prices.get(item.id)!,
+            })),
+          },
+          discounts: {
+            create: priced.discounts.map(({ couponId, code, description, amountMinor }) => ({ couponId, code, description, amountMinor })),
+          },
+        },
+        include: { items: { include: { product: true } }, discounts: true },
+      });
+      await tx.cart.update({ where: { id: cart.id }, data: { couponId: null } });
+      // The latest open reminder about this cart counts the order as recovered
+      const reminder = await tx.cartReminder.findFirst({
+        where: { cartId: cart.id, orderId: null, expiresAt: { gt: new Date() } },
+        orderBy: { sentAt: 'desc' },
+      });
+      if (reminder) {
+        await tx.cartReminder.update({ where: { id: reminder.id }, data: { orderId: order.id, recoveredAt: new Date() } });
+      }
+      return order;
+    });
+    // The order stays pending until its payment goes through; without a
+    // payment method the customer pays later with POST /orders/:id/payments
+    if (order.totalMinor === 0) {
+      const paid = await transitionOrder(order, 'paid', null, 'Nothing to pay');
+      return res.json({ ...order, ...paid, payment: null });
+    }
+    const payment = paymentMethod ? await startPayment(order, paymentMethod) : null;
+    res.json({ ...order, payment });
+  } catch (error) {
+    if (error instanceof StockShortageError) return res.status(409).json(shortageResponse(error.shortages));
+    if (error instanceof CartChangedError) return res.status(409).json({ error: error.message });
+    if (error instanceof CouponLimitError) return res.status(409).json({ error: error.message });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create order' });
+  }
+});
+
+// Payments (see payments.ts)
+
+// What the shop's frontend needs to know about an attempt
+const serializePayment = (attempt: { id: string; status: string; nextActionUrl: string | null; failureReason: string | null }) => ({
+  id: attempt.id,
+  status: attempt.status,
+  nextActionUrl: attempt.nextActionUrl,
+  failureReason: attempt.failureReason,
+});
+
+// Asks the provider to charge the order. The attempt is stored before the
+// provider is called so every charge it may have made can be reconciled. The
+// outcome arrives by webhook, except for payments the provider turns down at
+// once. Each attempt gives the customer the full hold time to pay again.
+const startPayment = async (order: { id: string; totalMinor: number; currency: string }, paymentMethod: string) => {
+  const [attempt] = await prisma.$transaction([
+    prisma.paymentAttempt.create({
+      data: { orderId: order.id, provider: paymentProvider.name, amountMinor: order.totalMinor, currency: order.currency },
+    }),
+    prisma.order.update({ where: { id: order.id }, data: { paymentDueAt: new Date(Date.now() + STOCK_HOLD_MS) } }),
+  ]);
+  try {
+    const result = await paymentProvider.createPayment({
+      attemptId: attempt.id,
+      amountMinor: attempt.amountMinor,
+      currency: attempt.currency,
+      paymentMethod,
+      returnUrl: `${WEB_URL}/?paymentReturn=${order.id}`,
+    });
+    return serializePayment(await prisma.paymentAttempt.update({
+      where: { id: attempt.id },
+      data: {
+        reference: result.reference,
+        status: result.status,
+        nextActionUrl: result.nextActionUrl ?? null,
+        failureReason: result.failureReason ?? null,
+      },
+    }));
+  } catch (error) {
+    console.error(`Payment attempt ${attempt.id} failed:`, error);
+    return serializePayment(await prisma.paymentAttempt.update({
+      where: { id: attempt.id },
+      data: { status: 'failed', failureReason: 'The payment provider could not be reached' },
+    }));
+  }
+};
+
+// Pays an order that has no payment yet or whose payment failed. An attempt
+// still waiting for its outcome must settle first, so an order is not charged
+// twice.
+app.post('/orders/:id/payments', authenticateToken, async (req: any, res) => {
+  try {
+    const { paymentMethod } = paymentSchema.parse(req.body);
+    const order = await prisma.order.findUnique({ where: { id: req.params.id } });
+    if (!order || order.userId !== req.user.id) return res.status(404).json({ error: 'Order not found' });
+    if (order.status !== 'pending' && order.status !== 'payment_failed') {
+      return res.status(409).json({ error: `Order is already ${order.status}` });
+    }
+    const processing = await prisma.paymentAttempt.findFirst({ where: { orderId: order.id, status: 'processing' } });
+    if (processing) return res.status(409).json({ error: 'A payment for this order is still being processed' });
+    if (order.status === 'payment_failed') await transitionOrder(order, 'pending', req.user.id, 'Payment retried');
+    res.json(await startPayment(order, paymentMethod));
+  } catch (error) {
+    if (error instanceof OrderStatusConflictError) return res.status(409).json({ error: error.message });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to start payment' });
+  }
+});
+
+// Outcome of a payment, sent by the provider. Deliveries may repeat, so each
+// event is applied once. A success the order can no longer take, such as one
+// after the order was cancelled for not being paid in time, leaves the attempt
+// refund_required and is logged for reconciliation.
+app.post('/webhooks/payments/:provider', async (req: any, res) => {
+  try {
+    if (req.params.provider !== paymentProvider.name) return res.status(404).json({ error: 'Unknown payment provider' });
+    const event = paymentProvider.parseWebhook(req.rawBody ?? Buffer.alloc(0), req.headers);
+    if (!event) return res.status(400).json({ error: 'Invalid signature' });
+    const attempt = await prisma.paymentAttempt.findUnique({
+      where: { provider_reference: { provider: paymentProvider.name, reference: event.reference } },
+      include: { order: true },
+    });
+    if (!attempt) return res.status(404).json({ error: 'Payment not found' });
+
+    const succeeded = event.type === 'payment.succeeded';
+    const status: OrderStatus = succeeded ? 'paid' : 'payment_failed';
+    const { order } = attempt;
+    const note = succeeded ? `Payment ${event.reference}` : `Payment ${event.reference}: ${event.failureReason || 'failed'}`;
+    // The event is only recorded together with its effect, so a delivery that
+    // fails halfway is applied in full when the provider retries it
+    const outcome = await prisma.$transaction(async tx => {
+      const { count } = await tx.paymentWebhookEvent.createMany({
+        data: { provider: paymentProvider.name, eventId: event.id, type: event.type, reference: event.reference, payload: req.body },
+        skipDuplicates: true,
+      });
+      if (count === 0) return 'duplicate';
+      const applies = !transitionProblem(order.status, status);
+      // A success the order can no longer take (it was cancelled, or another
+      // attempt paid it) still charged the customer, so it is flagged for a refund
+      const attemptStatus = succeeded ? (applies ? 'succeeded' : 'refund_required') : 'failed';
+      // Settled attempts keep their outcome, so a late or out-of-order failure
+      // cannot overwrite a success
+      await tx.paymentAttempt.updateMany({
+        where: { id: attempt.id, status: { notIn: ['succeeded', 'refund_required'] } },
+        data: {
+          status: attemptStatus,
+          failureReason: succeeded ? null : event.failureReason || 'Payment failed',
+          nextActionUrl: null,
+        },
+      });
+      if (!applies) return succeeded ? 'refund_required' : 'ignored';
+      await changeOrderStatus(tx, order, status, null, note);
+      return 'applied';
+    });
+    if (outcome === 'duplicate') return res.json({ received: true, duplicate: true });
+    if (outcome === 'refund_required') {
+      console.warn(`Payment ${event.reference} succeeded for order ${order.id}, which is ${order.status}; it needs a refund`);
+      return res.json({ received: true });
+    }
+    if (outcome === 'ignored') return res.json({ received: true });
+    io.to(order.userId).emit('orderStatus', { orderId: order.id, status });
+    res.json({ received: true });
+  } catch (error) {
+    if (error instanceof OrderStatusConflictError) return res.status(409).json({ error: error.message });
+    res.status(500).json({ error: 'Failed to process payment webhook' });
+  }
+});
+
+// The mock provider's 3-D Secure challenge (see payments.ts)
+app.get('/payments/mock/challenge/:reference', (_req, res) => {
+  if (!paymentProvider.completeChallenge) return res.status(404).json({ error: 'Not found' });
+  res.type('html').send(MOCK_CHALLENGE_PAGE);
+});
+
+app.post('/payments/mock/challenge/:reference', express.urlencoded({ extended: false }), async (req, res) => {
+  try {
+    if (!paymentProvider.completeChallenge) return res.status(404).json({ error: 'Not found' });
+    const returnUrl = await paymentProvider.completeChallenge(req.params.reference, req.body?.result === 'approve');
+    if (!returnUrl) return res.status(404).json({ error: 'Payment not found' });
+    res.redirect(303, returnUrl);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to complete payment challenge' });
+  }
+});
+
+// Cancels orders that were not paid in time, which gives their stock back
+const cancelUnpaidOrders = async () => {
+  const orders = await prisma.order.findMany({
+    where: { status: { in: ['pending', 'payment_failed'] }, paymentDueAt: { lte: new Date() } },
+  });
+  for (const order of orders) {
+    try {
+      await transitionOrder(order, 'cancelled', null, 'Not paid in time');
+    } catch (error) {
+      // Paid or changed in the meantime
+      if (!(error instanceof OrderStatusConflictError)) throw error;
+    }
+  }
+};
+
+app.get('/orders', authenticateToken, async (req: any, res) => {
+  try {
+    const orders = await prisma.order.findMany({
+      where: { userId: req.user.id },
+      include: { items: { include: { product: true } }, discounts: true },
+    });
+    res.json(orders);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch orders' });
+  }
+});
+
+// Messages (for chat)
+app.get('/messages', async (_, res) => {
+  try {
+    const messages = await prisma.message.findMany({
+      include: { user: { select: publicUserSelect } },
+      orderBy: { createdAt: 'asc' },
+    });
+    res.json(messages);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch messages' });
+  }
+});
+
+app.post('/messages', authenticateToken, async (req: any, res) => {
+  try {
+    const { content } = messageSchema.parse(req.body);
+    const message = await prisma.message.create({
+      data: { userId: req.user.id, content },
+      include: { user: { select: publicUserSelect } },
+    });
+    res.json(message);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create message' });
+  }
+});
+
+// Admin routes
+app.get('/admin/users', authenticateTokenOrApiKey, requirePermission('users:read'), async (_, res) => {
+  try {
+    const users = await prisma.user.findMany({
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        roles: {
+          select: { role: { select: { id: true, name: true } } }
+        },
+        lockedUntil: true,
+        deletedAt: true,
+        createdAt: true,
+        _count: {
+          select: {
+            orders: true,
+            messages: true
+          }
+        }
+      }
+    });
+    res.json(users);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+app.get('/admin/orders', authenticateTokenOrApiKey, requirePermission('orders:read'), async (_, res) => {
+  try {
+    const orders = await prisma.order.findMany({
+      include: {
+        user: {
+          select: { id: true, email: true, name: true }
+        },
+        items: {
+          include: {
+            product: true
+          }
+        },
+        discounts: true
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    // The statuses each order may move to next
+    res.json(orders.map(order => ({ ...order, allowedStatuses: allowedTransitions(order.status) })));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch orders' });
+  }
+});
+
+// Moves an order to another status and records the change; actorId is null
+// for changes the system makes. The update only applies while the order still
+// has the status it was checked against, so two concurrent changes cannot both
+// pass. Cancelling gives the stock checkout took back. Runs inside the
+// caller's transaction and returns the products that got stock back, for
+// back-in-stock alerts once it commits.
+const changeOrderStatus = async (
+  tx: Prisma.TransactionClient,
+  order: { id: string; status: string; stockTaken: boolean },
+  status: OrderStatus,
+  actorId: string | null,
+  note?: string,
+) => {
+  const { count } = await tx.order.updateMany({ where: { id: order.id, status: order.status }, data: { status } });
+  if (count === 0) throw new OrderStatusConflictError();
+  await tx.orderStatusEvent.create({
+    data: { orderId: order.id, fromStatus: order.status, toStatus: status, actorId, note: note || null },
+  });
+  if (status !== 'cancelled' || !order.stockTaken) return [];
+  // Lines whose variant was deleted since have nothing to go back to
+  const items = await tx.orderItem.findMany({ where: { orderId: order.id, variantId: { not: null } } });
+  return returnStock(tx, items.map(item => ({ variantId: item.variantId!, quantity: item.quantity })));
+};
+
+// The same as a transaction of its own
+const transitionOrder = async (
+  order: { id: string; status: string; stockTaken: boolean },
+  status: OrderStatus,
+  actorId: string | null,
+  note?: string,
+) => {
+  const restocked = await prisma.$transaction(tx => changeOrderStatus(tx, order, status, actorId, note));
+  for (const { product, previousStock } of restocked) await notifyBackInStock(product, previousStock);
+  return prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+};
+
+app.put('/admin/orders/:id/status', authenticateTokenOrApiKey, requirePermission('orders:update'), async (req: any, res) => {
+  try {
+    const { status, note } = orderStatusSchema.parse(req.body);
+    const order = await prisma.order.findUnique({ where: { id: req.params.id } });
+    if (!order) return res.status(404).json({ error: 'Order not found' });
+    const problem = transitionProblem(order.status, status);
+    if (problem) return res.status(409).json({ error: problem, allowedStatuses: allowedTransitions(order.status) });
+    res.json(await transitionOrder(order, status, req.user.id, note));
+  } catch (error) {
+    if (error instanceof OrderStatusConflictError) return res.status(409).json({ error: error.message });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update order status' });
+  }
+});
+
+// Status timeline of an order, oldest first
+app.get('/admin/orders/:id/history', authenticateTokenOrApiKey, requirePermission('orders:read'), async (req, res) => {
+  try {
+    const order = await prisma.order.findUnique({ where: { id: req.params.id } });
+    if (!order) return res.status(404).json({ error: 'Order not found' });
+    const events = await prisma.orderStatusEvent.findMany({
+      where: { orderId: order.id },
+      include: { actor: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const payments = await prisma.paymentAttempt.findMany({ where: { orderId: order.id }, orderBy: { createdAt: 'asc' } });
+    res.json({ status: order.status, allowedStatuses: allowedTransitions(order.status), events, payments });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch order history' });
+  }
+});
+
+app.put('/admin/products/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req: any, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description, priceMinor, compareAtPriceMinor, stock, previousStock, categoryId, tags, status } =
+      productUpdateSchema.parse(req.body);
+    const existing = await prisma.product.findUnique({ where: { id } });
+    if (!existing) return res.status(404).json({ error: 'Product not found' });
+    if (categoryId && !(await prisma.category.findUnique({ where: { id: categoryId } }))) {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+    // Stock is edited here only for products without options; otherwise per
+    // variant. It moves by the change the admin made to previousStock, so units
+    // checkouts held or took while the form was open stay taken. Without it
+    // the stock is set as given.
+    const variants = await prisma.productVariant.findMany({ where: { productId: id }, include: { optionValues: true } });
+    const single = variants.length === 1 && variants[0].optionValues.length === 0 ? variants[0] : null;
+    if (stock !== undefined && !single) {
+      return res.status(400).json({ error: 'This product has options; edit the stock of its variants instead' });
+    }
+    const updated = await prisma.$transaction(async tx => {
+      const change = single && stock !== undefined ? stock - (previousStock ?? single.stock) : 0;
+      if (change !== 0) {
+        const { count } = await tx.productVariant.updateMany({
+          where: { id: single!.id, stock: { gte: -change } },
+          data: { stock: { increment: change } },
+        });
+        if (count === 0) throw new StockEditConflictError();
+      }
+      await tx.product.update({
+        where: { id },
+        data: {
+          name,
+          description,
+          priceMinor,
+          compareAtPriceMinor,
+          categoryId,
+          status,
+          archivedAt: archivedAtFor(status, existing.archivedAt),
+          tags: tags ? { set: [], connectOrCreate: productTagsInput(tags) } : undefined
+        }
+      });
+      await recordPriceChange({
+        productId: id,
+        reason: 'manual',
+        previousPriceMinor: existing.priceMinor,
+        priceMinor,
+        previousCompareAtPriceMinor: existing.compareAtPriceMinor,
+        compareAtPriceMinor: compareAtPriceMinor === undefined ? existing.compareAtPriceMinor : compareAtPriceMinor,
+        changedById: req.user.id,
+      }, tx);
+      return syncProductStock(id, tx);
+    });
+    await notifyBackInStock(updated, existing.stock);
+    const product = await prisma.product.findUnique({ where: { id }, include: productInclude });
+    res.json(product);
+  } catch (error) {
+    if (error instanceof StockEditConflictError) return res.status(409).json({ error: error.message });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update product' });
+  }
+});
+
+const removeStoredFiles = async (keys: string[]) => {
+  const results = await Promise.allSettled(keys.map(key => storage.delete(key)));
+  results.forEach(result => {
+    if (result.status === 'rejected') console.error('Failed to delete stored file:', result.reason);
+  });
+};
+
+// Products are archived, never deleted: past orders keep pointing at them.
+// Archived products leave the storefront and can no longer be added to carts.
+app.delete('/admin/products/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const product = await prisma.product.findUnique({ where: { id } });
+    if (!product) return res.status(404).json({ error: 'Product not found' });
+    if (product.status !== 'archived') {
+      await prisma.product.update({ where: { id }, data: { status: 'archived', archivedAt: new Date() } });
+    }
+    res.json({ message: 'Product archived' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to archive product' });
+  }
+});
+
+app.post('/admin/products/:id/restore', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const product = await prisma.product.findUnique({ where: { id } });
+    if (!product) return res.status(404).json({ error: 'Product not found' });
+    if (product.status !== 'archived') return res.status(400).json({ error: 'Product is not archived' });
+    const restored = await prisma.product.update({
+      where: { id },
+      data: { status: 'active', archivedAt: null },
+      include: productInclude,
+    });
+    res.json(restored);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to restore product' });
+  }
+});
+
+const scheduleState = (schedule: PriceScheduleWindow, now = new Date()) =>
+  schedule.startsAt > now ? 'scheduled' : schedule.endsAt && schedule.endsAt <= now ? 'ended' : 'active';
+
+// Another sale for the same product or variant whose window overlaps
+const overlappingSchedule = async (
+  productId: string,
+  schedule: { variantId: string | null; startsAt: Date; endsAt: Date | null },
+  excludeId?: string,
+) => {
+  const existing = await prisma.priceSchedule.findMany({
+    where: { productId, variantId: schedule.variantId, id: excludeId ? { not: excludeId } : undefined },
+  });
+  return existing.find(candidate => windowsOverlap(candidate, schedule));
+};
+
+app.get('/admin/products/:id/price-schedules', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const schedules = await prisma.priceSchedule.findMany({
+      where: { productId: req.params.id },
+      include: { variant: { select: { sku: true } }, createdBy: { select: { email: true } } },
+      orderBy: { startsAt: 'desc' },
+    });
+    const now = new Date();
+    res.json(schedules.map(schedule => ({ ...schedule, state: scheduleState(schedule, now) })));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch price schedules' });
+  }
+});
+
+app.post('/admin/products/:id/price-schedules', authenticateTokenOrApiKey, requirePermission('products:write'), async (req: any, res) => {
+  try {
+    const { id } = req.params;
+    const { variantId = null, endsAt = null, ...data } = priceScheduleSchema.parse(req.body);
+    const product = await prisma.product.findUnique({ where: { id }, include: { variants: true } });
+    if (!product) return res.status(404).json({ error: 'Product not found' });
+    if (variantId && !product.variants.some(variant => variant.id === variantId)) {
+      return res.status(400).json({ error: 'Variant does not belong to this product' });
+    }
+    if (endsAt && endsAt <= new Date()) return res.status(400).json({ error: 'The sale would already be over' });
+    const clash = await overlappingSchedule(id, { variantId, startsAt: data.startsAt, endsAt });
+    if (clash) return res.status(409).json({ error: 'Another sale overlaps this period', scheduleId: clash.id });
+
+    const schedule = await prisma.priceSchedule.create({
+      data: { ...data, productId: id, variantId, endsAt, createdById: req.user.id },
+    });
+    await recordPriceChange({
+      productId: id,
+      variantId,
+      reason: 'schedule_created',
+      priceMinor: schedule.priceMinor,
+      compareAtPriceMinor: schedule.compareAtPriceMinor,
+      scheduleId: schedule.id,
+      changedById: req.user.id,
+    });
+    res.json({ ...schedule, state: scheduleState(schedule) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create price schedule' });
+  }
+});
+
+// Upcoming sales can be changed freely; a running sale only gets a new end
+// time or note, so the prices already charged stay true to the history
+app.put('/admin/products/:id/price-schedules/:scheduleId', authenticateTokenOrApiKey, requirePermission('products:write'), async (req: any, res) => {
+  try {
+    const { id, scheduleId } = req.params;
+    const { variantId = null, endsAt = null, ...data } = priceScheduleSchema.parse(req.body);
+    const schedule = await prisma.priceSchedule.findFirst({ where: { id: scheduleId, productId: id } });
+    if (!schedule) return res.status(404).json({ error: 'Price schedule not found' });
+    const state = scheduleState(schedule);
+    if (state === 'ended') return res.status(409).json({ error: 'This sale has already ended' });
+    if (state === 'active' && (
+      variantId !== schedule.variantId ||
+      data.priceMinor !== schedule.priceMinor ||
+      (data.compareAtPriceMinor ?? null) !== schedule.compareAtPriceMinor ||
+      data.startsAt.getTime() !== schedule.startsAt.getTime()
+    )) {
+      return res.status(409).json({ error: 'A running sale can only get a new end time' });
+    }
+    if (variantId && !(await prisma.productVariant.findFirst({ where: { id: variantId, productId: id } }))) {
+      return res.status(400).json({ error: 'Variant does not belong to this product' });
+    }
+    if (endsAt && endsAt <= new Date()) return res.status(400).json({ error: 'Use DELETE to end a sale now' });
+    const clash = await overlappingSchedule(id, { variantId, startsAt: data.startsAt, endsAt }, scheduleId);
+    if (clash) return res.status(409).json({ error: 'Another sale overlaps this period', scheduleId: clash.id });
+
+    const updated = await prisma.priceSchedule.update({
+      where: { id: scheduleId },
+      data: { ...data, compareAtPriceMinor: data.compareAtPriceMinor ?? null, variantId, endsAt },
+    });
+    await recordPriceChange({
+      productId: id,
+      variantId,
+      reason: 'schedule_updated',
+      previousPriceMinor: schedule.priceMinor,
+      priceMinor: updated.priceMinor,
+      previousCompareAtPriceMinor: schedule.compareAtPriceMinor,
+      compareAtPriceMinor: updated.compareAtPriceMinor,
+      scheduleId,
+      changedById: req.user.id,
+    });
+    res.json({ ...updated, state: scheduleState(updated) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update price schedule' });
+  }
+});
+
+// Upcoming sales are removed; a running sale ends now and stays in the history
+app.delete('/admin/products/:id/price-schedules/:scheduleId', authenticateTokenOrApiKey, requirePermission('products:write'), async (req: any, res) => {
+  try {
+    const { id, scheduleId } = req.params;
+    const schedule = await prisma.priceSchedule.findFirst({ where: { id: scheduleId, productId: id } });
+    if (!schedule) return res.status(404).json({ error: 'Price schedule not found' });
+    const state = scheduleState(schedule);
+    if (state === 'ended') return res.status(409).json({ error: 'This sale has already ended' });
+    if (state === 'scheduled') {
+      await prisma.priceSchedule.delete({ where: { id: scheduleId } });
+    } else {
+      await prisma.priceSchedule.update({ where: { id: scheduleId }, data: { endsAt: new Date() } });
+    }
+    await recordPriceChange({
+      productId: id,
+      variantId: schedule.variantId,
+      reason: 'schedule_cancelled',
+      previousPriceMinor: schedule.priceMinor,
+      previousCompareAtPriceMinor: schedule.compareAtPriceMinor,
+      scheduleId,
+      changedById: req.user.id,
+    });
+    res.json({ message: state === 'scheduled' ? 'Sale cancelled' : 'Sale ended' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to cancel price schedule' });
+  }
+});
+
+app.get('/admin/products/:id/price-history', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!(await prisma.product.findUnique({ where: { id } }))) return res.status(404).json({ error: 'Product not found' });
+    const [changes, schedules] = await Promise.all([
+      prisma.priceChange.findMany({
+        where: { productId: id },
+        include: { changedBy: { select: { email: true } } },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.priceSchedule.findMany({ where: { productId: id } }),
+    ]);
+    res.json(priceTimeline(changes, schedules));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch price history' });
+  }
+});
+
+// Upload limit errors are the client's fault, not a 500
+const handleUpload = (upload: express.RequestHandler) =>
+  (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) return res.status(400).json({ error: error.message });
+      if (error) return next(error);
+      next();
+    });
+  };
+
+const uploadImages = handleUpload(multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: MAX_IMAGES_PER_UPLOAD },
+}).array('images', MAX_IMAGES_PER_UPLOAD));
+
+const uploadCatalog = handleUpload(multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_BYTES, files: 1 },
+}).single('file'));
+
+const parseList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Import rows come from CSV (all strings) or JSON (typed values). Missing
+// status, category and tags columns leave the product's values alone.
+const catalogRowInput = (row: Record<string, unknown>, categoryIds: Map<string, string>) => {
+  const text = (value: unknown) => (value === undefined || value === null ? undefined : String(value).trim());
+  const number = (value: unknown) => (typeof value === 'number' ? value : text(value) ? Number(text(value)) : undefined);
+  const errors: string[] = [];
+  const category = text(row.category);
+  if (category && !categoryIds.has(category)) errors.push(`category: no category with slug ${category}`);
+  // Prices are written in major units of the base currency
+  const price = text(row.price);
+  const priceMinor = price ? toMinor(price, BASE_CURRENCY) : undefined;
+  if (priceMinor === null) errors.push(`price: must be an amount in ${BASE_CURRENCY} such as 19.99`);
+  const input = {
+    sku: text(row.sku) || undefined,
+    name: text(row.name),
+    description: text(row.description) || undefined,
+    priceMinor: priceMinor ?? undefined,
+    stock: number(row.stock),
+    status: text(row.status) || undefined,
+    categoryId: category === undefined ? undefined : categoryIds.get(category) ?? null,
+    tags: Array.isArray(row.tags)
+      ? row.tags.map(String)
+      : row.tags === undefined ? undefined : parseList(text(row.tags) || ''),
+  };
+  return { input, errors };
+};
+
+// Validates every row, then (unless dryRun) creates or updates the valid ones.
+// SKUs identify variants: a known SKU updates its product and that variant's
+// stock, an unknown one creates a product with a single default variant.
+app.post('/admin/products/import', authenticateTokenOrApiKey, requirePermission('products:write'), uploadCatalog, async (req: any, res) => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+    if (!req.file) return res.status(400).json({ error: 'Upload a CSV or JSON file in the "file" field' });
+    const content = req.file.buffer.toString('utf8');
+    const isJson = req.file.mimetype === 'application/json' || /\.json$/i.test(req.file.originalname);
+
+    let records: Record<string, unknown>[];
+    try {
+      const parsed = isJson ? JSON.parse(content) : parseCsvRecords(content);
+      records = Array.isArray(parsed) ? parsed : parsed?.products;
+    } catch {
+      return res.status(400).json({ error: `The file is not valid ${isJson ? 'JSON' : 'CSV'}` });
+    }
+    if (!Array.isArray(records) || records.length === 0) return res.status(400).json({ error: 'The file has no products' });
+    if (records.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({ error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` });
+    }
+
+    const categoryIds = new Map((await prisma.category.findMany()).map(category => [category.slug, category.id]));
+    const rows = records.map((record, index) => {
+      const { input, errors } = catalogRowInput(record && typeof record === 'object' ? record : {}, categoryIds);
+      const parsed = productSchema.safeParse(input);
+      parsed.error?.issues.forEach(issue => {
+        const field = issue.path[0] === 'priceMinor' ? 'price' : issue.path.join('.');
+        // Unreadable values are already explained by catalogRowInput
+        if (!errors.some(error => error.startsWith(`${field}:`))) errors.push(`${field}: ${issue.message}`);
+      });
+      if (!input.sku) errors.push('sku: required');
+      // CSV row numbers count the header line, like a spreadsheet does
+      return { row: index + (isJson ? 1 : 2), sku: input.sku || '', data: parsed.data, errors };
+    });
+
+    const seen = new Set<string>();
+    rows.forEach(row => {
+      if (!row.sku) return;
+      if (seen.has(row.sku)) row.errors.push('sku: appears more than once in the file');
+      seen.add(row.sku);
+    });
+
+    const existing = new Map(
+      (await prisma.productVariant.findMany({ where: { sku: { in: Array.from(seen) } } })).map(variant => [variant.sku, variant]),
+    );
+    const results = [];
+    for (const { row, sku, data, errors } of rows) {
+      const variant = existing.get(sku);
+      if (errors.length > 0 || !data) {
+        results.push({ row, sku, action: 'error' as const, errors });
+        continue;
+      }
+      const action = variant ? ('update' as const) : ('create' as const);
+      if (!dryRun) {
+        const { tags, stock, sku: _sku, ...fields } = data;
+        try {
+          if (variant) {
+            const product = await prisma.product.findUniqueOrThrow({ where: { id: variant.productId } });
+            await prisma.product.update({
+              where: { id: product.id },
+              data: {
+                ...fields,
+                archivedAt: archivedAtFor(fields.status, product.archivedAt),
+                tags: tags ? { set: [], connectOrCreate: productTagsInput(tags) } : undefined,
+              },
+            });
+            await prisma.productVariant.update({ where: { id: variant.id }, data: { stock } });
+            await syncProductStock(variant.productId);
+            await recordPriceChange({
+              productId: product.id,
+              reason: 'import',
+              previousPriceMinor: product.priceMinor,
+              priceMinor: fields.priceMinor,
+              previousCompareAtPriceMinor: product.compareAtPriceMinor,
+              compareAtPriceMinor: product.compareAtPriceMinor,
+              changedById: req.user.id,
+            });
+          } else {
+            const product = await prisma.product.create({
+              data: {
+                ...fields,
+                stock,
+                archivedAt: archivedAtFor(fields.status),
+                tags: tags ? { connectOrCreate: productTagsInput(tags) } : undefined,
+                variants: { create: { sku, stock } },
+              },
+            });
+            await recordPriceChange({ productId: product.id, reason: 'import', priceMinor: product.priceMinor, changedById: req.user.id });
+          }
+        } catch (error) {
+          console.error(`Failed to import row ${row}:`, error);
+          results.push({ row, sku, action: 'error' as const, errors: ['Failed to save this row'] });
+          continue;
+        }
+      }
+      results.push({ row, sku, action });
+    }
+
+    res.json({
+      dryRun,
+      summary: {
+        total: results.length,
+        created: results.filter(result => result.action === 'create').length,
+        updated: results.filter(result => result.action === 'update').length,
+        failed: results.filter(result => result.action === 'error').length,
+      },
+      rows: results,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to import products' });
+  }
+});
+
+app.get('/admin/products/export', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const products = await prisma.product.findMany({ include: productInclude, orderBy: { createdAt: 'asc' } });
+    const records = products.flatMap(product =>
+      product.variants.map(variant => ({
+        sku: variant.sku,
+        name: product.name,
+        description: product.description ?? '',
+        price: fromMinor(product.priceMinor, BASE_CURRENCY),
+        stock: variant.stock,
+        status: product.status,
+        category: product.category?.slug ?? '',
+        tags: product.tags.map(tag => tag.name),
+        options: variantTitle(variant.optionValues),
+      })),
+    );
+    const filename = `products-${new Date().toISOString().slice(0, 10)}`;
+    if (req.query.format === 'json') {
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+      return res.json(records);
+    }
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(toCsv(CATALOG_COLUMNS, records.map(record => ({ ...record, tags: record.tags.join(', ') }))));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to export products' });
+  }
+});
+
+// Multipart upload (field "images"). New images go after the existing ones.
+app.post('/admin/products/:id/images', authenticateTokenOrApiKey, requirePermission('products:write'), uploadImages, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    if (files.length === 0) return res.status(400).json({ error: 'No images uploaded' });
+    if (!(await prisma.product.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    // One at a time: resizing is CPU and memory heavy
+    const processed = [];
+    for (const file of files) {
+      const image = await processImage(file.buffer);
+      if (!image) return res.status(400).json({ error: `${file.originalname} is not a supported image` });
+      processed.push(image);
+    }
+
+    const { _max } = await prisma.productImage.aggregate({ where: { productId: id }, _max: { position: true } });
+    let position = (_max.position ?? -1) + 1;
+    const images = [];
+    for (const image of processed) {
+      const imageId = crypto.randomUUID();
+      const renditions = Object.keys(IMAGE_RENDITIONS) as ImageRendition[];
+      const keys = Object.fromEntries(
+        renditions.map(rendition => [rendition, `products/${id}/${imageId}/${rendition}.webp`]),
+      ) as Record<ImageRendition, string>;
+      await Promise.all(renditions.map(rendition => storage.put(keys[rendition], image.renditions[rendition], 'image/webp')));
+      images.push(await prisma.productImage.create({
+        data: {
+          id: imageId,
+          productId: id,
+          position: position++,
+          width: image.width,
+          height: image.height,
+          url: storage.url(keys.large),
+          mediumUrl: storage.url(keys.medium),
+          thumbnailUrl: storage.url(keys.thumbnail),
+          storageKeys: Object.values(keys),
+        },
+      }));
+    }
+    res.json(images);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to upload images' });
+  }
+});
+
+// Sets the display order; the first image is the product's main image
+app.put('/admin/products/:id/images', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { imageIds } = imageOrderSchema.parse(req.body);
+    const images = await prisma.productImage.findMany({ where: { productId: id } });
+    if (images.length !== imageIds.length || images.some(image => !imageIds.includes(image.id))) {
+      return res.status(400).json({ error: 'Send every image of the product exactly once' });
+    }
+    await prisma.$transaction(
+      imageIds.map((imageId, position) => prisma.productImage.update({ where: { id: imageId }, data: { position } })),
+    );
+    res.json(await prisma.productImage.findMany({ where: { productId: id }, orderBy: { position: 'asc' } }));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to reorder images' });
+  }
+});
+
+app.delete('/admin/products/:id/images/:imageId', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const image = await prisma.productImage.findFirst({ where: { id: req.params.imageId, productId: req.params.id } });
+    if (!image) return res.status(404).json({ error: 'Image not found' });
+    await prisma.productImage.delete({ where: { id: image.id } });
+    await removeStoredFiles(image.storageKeys);
+    res.json({ message: 'Image deleted' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete image' });
+  }
+});
+
+// Replaces the product's option types and variant matrix. Variants sent with an
+// id are updated, new ones created, and the ones left out deleted.
+app.put('/admin/products/:id/variants', authenticateTokenOrApiKey, requirePermission('products:write'), async (req: any, res) => {
+  try {
+    const { id } = req.params;
+    const { optionTypeIds, variants } = variantsSchema.parse(req.body);
+    const product = await prisma.product.findUnique({ where: { id }, include: { variants: true } });
+    if (!product) return res.status(404).json({ error: 'Product not found' });
+
+    const optionTypes = await prisma.optionType.findMany({ where: { id: { in: optionTypeIds } }, include: { values: true } });
+    if (optionTypes.length !== new Set(optionTypeIds).size) {
+      return res.status(400).json({ error: 'Option type not found' });
+    }
+    const invalid = validateVariants(optionTypes, variants);
+    if (invalid) return res.status(400).json({ error: invalid });
+    if (variants.some(variant => variant.id && !product.variants.some(existing => existing.id === variant.id))) {
+      return res.status(400).json({ error: 'Variant does not belong to this product' });
+    }
+    const taken = await prisma.productVariant.findFirst({
+      where: { sku: { in: variants.map(variant => variant.sku) }, productId: { not: id } },
+    });
+    if (taken) return res.status(409).json({ error: `SKU ${taken.sku} is already in use` });
+
+    const keptIds = variants.flatMap(variant => (variant.id ? [variant.id] : []));
+    await prisma.$transaction(async tx => {
+      await tx.product.update({
+        where: { id },
+        data: { optionTypes: { set: optionTypeIds.map(optionTypeId => ({ id: optionTypeId })) } },
+      });
+      await tx.productVariant.deleteMany({ where: { productId: id, id: { notIn: keptIds } } });
+      for (const { id: variantId, optionValueIds, ...data } of variants) {
+        const optionValues = optionValueIds.map(optionValueId => ({ id: optionValueId }));
+        const previous = product.variants.find(variant => variant.id === variantId);
+        const saved = variantId
+          ? await tx.productVariant.update({ where: { id: variantId }, data: { ...data, optionValues: { set: optionValues } } })
+          : await tx.productVariant.create({ data: { ...data, productId: id, optionValues: { connect: optionValues } } });
+        await recordPriceChange({
+          productId: id,
+          variantId: saved.id,
+          reason: 'manual',
+          previousPriceMinor: previous?.priceMinor ?? null,
+          priceMinor: saved.priceMinor,
+          changedById: req.user.id,
+        }, tx);
+      }
+    });
+    await notifyBackInStock(await syncProductStock(id), product.stock);
+    res.json(await prisma.product.findUnique({ where: { id }, include: productInclude }));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to save variants' });
+  }
+});
+
+app.post('/admin/option-types', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { name, position, values } = optionTypeSchema.parse(req.body);
+    if (await prisma.optionType.findUnique({ where: { name } })) {
+      return res.status(409).json({ error: 'An option type with this name already exists' });
+    }
+    const optionType = await prisma.optionType.create({
+      data: {
+        name,
+        position,
+        values: { create: Array.from(new Set(values)).map((value, index) => ({ name: value, position: index })) },
+      },
+      include: { values: { orderBy: { position: 'asc' } } },
+    });
+    res.json(optionType);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create option type' });
+  }
+});
+
+// Values are matched by name: new names are added, missing ones removed unless
+// a variant still uses them
+app.put('/admin/option-types/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, position, values } = optionTypeSchema.parse(req.body);
+    const optionType = await prisma.optionType.findUnique({
+      where: { id },
+      include: { values: { include: { _count: { select: { variants: true } } } } },
+    });
+    if (!optionType) return res.status(404).json({ error: 'Option type not found' });
+    const existing = await prisma.optionType.findUnique({ where: { name } });
+    if (existing && existing.id !== id) {
+      return res.status(409).json({ error: 'An option type with this name already exists' });
+    }
+    const names = Array.from(new Set(values));
+    const removed = optionType.values.filter(value => !names.includes(value.name));
+    const inUse = removed.find(value => value._count.variants > 0);
+    if (inUse) return res.status(409).json({ error: `${inUse.name} is used by product variants` });
+
+    await prisma.$transaction([
+      prisma.optionType.update({ where: { id }, data: { name, position } }),
+      prisma.optionValue.deleteMany({ where: { id: { in: removed.map(value => value.id) } } }),
+      ...names.map((value, index) =>
+        prisma.optionValue.upsert({
+          where: { optionTypeId_name: { optionTypeId: id, name: value } },
+          update: { position: index },
+          create: { optionTypeId: id, name: value, position: index },
+        }),
+      ),
+    ]);
+    res.json(await prisma.optionType.findUnique({ where: { id }, include: { values: { orderBy: { position: 'asc' } } } }));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update option type' });
+  }
+});
+
+app.delete('/admin/option-types/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (await prisma.product.count({ where: { optionTypes: { some: { id } } } }) > 0) {
+      return res.status(409).json({ error: 'Remove this option from its products first' });
+    }
+    await prisma.optionType.delete({ where: { id } });
+    res.json({ message: 'Option type deleted' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete option type' });
+  }
+});
+
+// Price lists: one per currency, with an exchange rate from the base currency
+// and optional explicit prices per variant (by SKU)
+app.get('/admin/price-lists', authenticateTokenOrApiKey, requirePermission('products:write'), async (_, res) => {
+  try {
+    const priceLists = await prisma.priceList.findMany({
+      include: { prices: { include: { variant: { select: { sku: true } } } } },
+      orderBy: { currency: 'asc' },
+    });
+    res.json(priceLists.map(({ prices, ...priceList }) => ({
+      ...priceList,
+      prices: prices.map(price => ({ sku: price.variant.sku, priceMinor: price.priceMinor })),
+    })));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch price lists' });
+  }
+});
+
+app.post('/admin/price-lists', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const data = priceListSchema.parse(req.body);
+    if (await prisma.priceList.findUnique({ where: { currency: data.currency } })) {
+      return res.status(409).json({ error: `A price list for ${data.currency} already exists` });
+    }
+    res.json(await prisma.priceList.create({ data }));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create price list' });
+  }
+});
+
+// The currency is fixed once a list exists; explicit prices are in its minor units
+app.put('/admin/price-lists/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { currency: _currency, ...data } = priceListSchema.parse(req.body);
+    if (!(await prisma.priceList.findUnique({ where: { id: req.params.id } }))) {
+      return res.status(404).json({ error: 'Price list not found' });
+    }
+    res.json(await prisma.priceList.update({ where: { id: req.params.id }, data }));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update price list' });
+  }
+});
+
+app.put('/admin/price-lists/:id/prices', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { prices } = priceListPricesSchema.parse(req.body);
+    if (!(await prisma.priceList.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Price list not found' });
+    }
+    const variants = await prisma.productVariant.findMany({ where: { sku: { in: prices.map(price => price.sku) } } });
+    const bySku = new Map(variants.map(variant => [variant.sku, variant.id]));
+    const unknown = prices.filter(price => !bySku.has(price.sku)).map(price => price.sku);
+    if (unknown.length > 0) return res.status(400).json({ error: `Unknown SKUs: ${unknown.join(', ')}` });
+    await prisma.$transaction(prices.map(({ sku, priceMinor }) => {
+      const priceListId_variantId = { priceListId: id, variantId: bySku.get(sku)! };
+      return priceMinor === null
+        ? prisma.priceListPrice.deleteMany({ where: priceListId_variantId })
+        : prisma.priceListPrice.upsert({
+            where: { priceListId_variantId },
+            create: { ...priceListId_variantId, priceMinor },
+            update: { priceMinor },
+          });
+    }));
+    res.json({ message: 'Prices updated', count: prices.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update prices' });
+  }
 });
 
-const productSchema = z.object({
-  name: z.string().min(1),
-  description: z.string().optional(),
-  price: z.number().positive(),
-  stock: z.number().int().min(0),
+// Orders placed in the currency keep their own snapshot of prices and rate
+app.delete('/admin/price-lists/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { count } = await prisma.priceList.deleteMany({ where: { id: req.params.id } });
+    if (count === 0) return res.status(404).json({ error: 'Price list not found' });
+    res.json({ message: 'Price list deleted' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete price list' });
+  }
 });
 
-const cartSchema = z.object({
-  productId: z.string(),
-  quantity: z.number().int().positive(),
-});
+// Coupons and automatic promotions. Deleting a coupon keeps the discount
+// lines of past orders, which carry their own copy of the code.
+const couponInclude = {
+  freeVariant: { select: { sku: true } },
+  _count: { select: { orderDiscounts: { where: { order: { status: redeemedStatus } } } } },
+} satisfies Prisma.CouponInclude;
 
-// Middleware to verify JWT
-const authenticateToken = (req: any, res: any, next: any) => {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
-  if (!token) return res.status(401).json({ error: 'Access token required' });
+const serializeCoupon = ({ _count, ...coupon }: Prisma.CouponGetPayload<{ include: typeof couponInclude }>) => ({
+  ...coupon,
+  freeSku: coupon.freeVariant?.sku ?? null,
+  redemptions: _count.orderDiscounts,
+});
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) return res.status(403).json({ error: 'Invalid token' });
-    req.user = user;
-    next();
-  });
+// Only the fields of the coupon's type are kept
+const couponData = async ({ freeSku, ...coupon }: z.infer<typeof couponSchema>) => {
+  const freeVariant = coupon.type === 'free_item' ? await prisma.productVariant.findUnique({ where: { sku: freeSku! } }) : null;
+  if (coupon.type === 'free_item' && !freeVariant) return null;
+  return {
+    ...coupon,
+    percentOff: coupon.type === 'percent' ? coupon.percentOff : null,
+    amountOffMinor: coupon.type === 'fixed' ? coupon.amountOffMinor : null,
+    freeVariantId: freeVariant?.id ?? null,
+  };
 };
 
-// Middleware to verify admin role
-const requireAdmin = async (req: any, res: any, next: any) => {
+app.get('/admin/coupons', authenticateTokenOrApiKey, requirePermission('promotions:manage'), async (_, res) => {
   try {
-    const user = await prisma.user.findUnique({ where: { id: req.user.id } });
-    if (!user || !user.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-    next();
+    const coupons = await prisma.coupon.findMany({ include: couponInclude, orderBy: { createdAt: 'desc' } });
+    res.json(coupons.map(serializeCoupon));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to verify admin status' });
+    res.status(500).json({ error: 'Failed to fetch coupons' });
   }
-};
-
-app.get('/', (_, res) => {
-  res.send('API running');
-});
-
-app.get('/health', (_, res) => {
-  res.json({ status: 'ok' });
 });
 
-// Auth routes
-app.post('/auth/register', async (req, res) => {
+app.post('/admin/coupons', authenticateTokenOrApiKey, requirePermission('promotions:manage'), async (req, res) => {
   try {
-    const { email, name, password } = registerSchema.parse(req.body);
-    const hashedPassword = await bcrypt.hash(password, 10);
-    const user = await prisma.user.create({
-      data: { email, name, password: hashedPassword },
-    });
-    const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET);
-    res.json({ user: { id: user.id, email: user.email, name: user.name }, token });
+    const input = couponSchema.parse(req.body);
+    if (await prisma.coupon.findUnique({ where: { code: input.code } })) {
+      return res.status(409).json({ error: `Coupon ${input.code} already exists` });
+    }
+    const data = await couponData(input);
+    if (!data) return res.status(400).json({ error: `Unknown SKU: ${input.freeSku}` });
+    res.json(serializeCoupon(await prisma.coupon.create({ data, include: couponInclude })));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input', details: error.issues });
     }
-    res.status(500).json({ error: 'Failed to register' });
+    res.status(500).json({ error: 'Failed to create coupon' });
   }
 });
 
-app.post('/auth/login', async (req, res) => {
+app.put('/admin/coupons/:id', authenticateTokenOrApiKey, requirePermission('promotions:manage'), async (req, res) => {
   try {
-    const { email, password } = loginSchema.parse(req.body);
-    const user = await prisma.user.findUnique({ where: { email } });
-    if (!user || !user.password || !(await bcrypt.compare(password, user.password))) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+    const input = couponSchema.parse(req.body);
+    if (!(await prisma.coupon.findUnique({ where: { id: req.params.id } }))) {
+      return res.status(404).json({ error: 'Coupon not found' });
     }
-    const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET);
-    res.json({ user: { id: user.id, email: user.email, name: user.name, isAdmin: user.isAdmin }, token });
+    const sameCode = await prisma.coupon.findUnique({ where: { code: input.code } });
+    if (sameCode && sameCode.id !== req.params.id) {
+      return res.status(409).json({ error: `Coupon ${input.code} already exists` });
+    }
+    const data = await couponData(input);
+    if (!data) return res.status(400).json({ error: `Unknown SKU: ${input.freeSku}` });
+    res.json(serializeCoupon(await prisma.coupon.update({ where: { id: req.params.id }, data, include: couponInclude })));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input', details: error.issues });
     }
-    res.status(500).json({ error: 'Failed to login' });
+    res.status(500).json({ error: 'Failed to update coupon' });
   }
 });
 
-// Products
-app.get('/products', async (_, res) => {
+app.delete('/admin/coupons/:id', authenticateTokenOrApiKey, requirePermission('promotions:manage'), async (req, res) => {
   try {
-    const products = await prisma.product.findMany();
-    res.json(products);
+    const { count } = await prisma.coupon.deleteMany({ where: { id: req.params.id } });
+    if (count === 0) return res.status(404).json({ error: 'Coupon not found' });
+    res.json({ message: 'Coupon deleted' });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch products' });
+    res.status(500).json({ error: 'Failed to delete coupon' });
   }
 });
 
-app.post('/products', async (req, res) => {
+app.get('/admin/reviews', authenticateTokenOrApiKey, requirePermission('reviews:moderate'), async (req, res) => {
   try {
-    const data = productSchema.parse(req.body);
-    const product = await prisma.product.create({
-      data,
+    const { status, cursor, limit } = adminReviewQuerySchema.parse(req.query);
+    const reviews = await prisma.review.findMany({
+      where: { status },
+      include: {
+        product: { select: { id: true, name: true } },
+        user: { select: { id: true, email: true, name: true } },
+        moderatedBy: { select: { email: true } },
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
     });
-    res.json(product);
+    const page = reviews.slice(0, limit);
+    res.json({ items: page, nextCursor: reviews.length > limit ? page[page.length - 1].id : null });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input', details: error.issues });
     }
-    res.status(500).json({ error: 'Failed to create product' });
+    res.status(500).json({ error: 'Failed to fetch reviews' });
   }
 });
 
-// Cart routes (protected)
-app.get('/cart', authenticateToken, async (req: any, res) => {
+app.put('/admin/reviews/:id/status', authenticateTokenOrApiKey, requirePermission('reviews:moderate'), async (req: any, res) => {
   try {
-    const cart = await prisma.cart.findUnique({
-      where: { userId: req.user.id },
-      include: { items: { include: { product: true } } },
+    const { status } = reviewModerationSchema.parse(req.body);
+    const review = await prisma.review.findUnique({ where: { id: req.params.id } });
+    if (!review) return res.status(404).json({ error: 'Review not found' });
+    const updated = await prisma.review.update({
+      where: { id: review.id },
+      data: { status, moderatedById: req.user.id, moderatedAt: new Date() },
     });
-    res.json(cart || { items: [] });
+    await refreshProductRating(prisma, review.productId);
+    res.json(updated);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch cart' });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to moderate review' });
   }
 });
 
-app.post('/cart', authenticateToken, async (req: any, res) => {
+app.post('/admin/categories', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
   try {
-    const { productId, quantity } = cartSchema.parse(req.body);
-    let cart = await prisma.cart.findUnique({ where: { userId: req.user.id } });
-    if (!cart) {
-      cart = await prisma.cart.create({ data: { userId: req.user.id } });
+    const { name, slug, parentId } = categorySchema.parse(req.body);
+    const categorySlug = slug || slugify(name);
+    if (!categorySlug) return res.status(400).json({ error: 'Category name needs at least one letter or digit' });
+    if (await prisma.category.findUnique({ where: { slug: categorySlug } })) {
+      return res.status(409).json({ error: 'A category with this slug already exists' });
     }
-    const existingItem = await prisma.cartItem.findFirst({
-      where: { cartId: cart.id, productId },
-    });
-    if (existingItem) {
-      await prisma.cartItem.update({
-        where: { id: existingItem.id },
-        data: { quantity: existingItem.quantity + quantity },
-      });
-    } else {
-      await prisma.cartItem.create({
-        data: { cartId: cart.id, productId, quantity },
-      });
+    if (parentId && !(await prisma.category.findUnique({ where: { id: parentId } }))) {
+      return res.status(400).json({ error: 'Parent category not found' });
     }
-    res.json({ message: 'Added to cart' });
+    const category = await prisma.category.create({ data: { name, slug: categorySlug, parentId } });
+    res.json(category);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input', details: error.issues });
     }
-    res.status(500).json({ error: 'Failed to add to cart' });
+    res.status(500).json({ error: 'Failed to create category' });
   }
 });
 
-app.delete('/cart/:productId', authenticateToken, async (req: any, res) => {
+app.put('/admin/categories/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
   try {
-    const cart = await prisma.cart.findUnique({ where: { userId: req.user.id } });
-    if (!cart) return res.status(404).json({ error: 'Cart not found' });
-    await prisma.cartItem.deleteMany({
-      where: { cartId: cart.id, productId: req.params.productId },
+    const { id } = req.params;
+    const { name, slug, parentId = null } = categorySchema.parse(req.body);
+    const categories = await prisma.category.findMany();
+    const category = categories.find(candidate => candidate.id === id);
+    if (!category) return res.status(404).json({ error: 'Category not found' });
+    const categorySlug = slug || category.slug;
+    if (categories.some(candidate => candidate.slug === categorySlug && candidate.id !== id)) {
+      return res.status(409).json({ error: 'A category with this slug already exists' });
+    }
+    if (parentId && !categories.some(candidate => candidate.id === parentId)) {
+      return res.status(400).json({ error: 'Parent category not found' });
+    }
+    if (createsCycle(categories, id, parentId)) {
+      return res.status(400).json({ error: 'A category cannot be moved under itself or its subcategories' });
+    }
+    const updated = await prisma.category.update({
+      where: { id },
+      data: { name, slug: categorySlug, parentId }
     });
-    res.json({ message: 'Removed from cart' });
+    res.json(updated);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to remove from cart' });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update category' });
   }
 });
 
-// Orders
-app.post('/orders', authenticateToken, async (req: any, res) => {
+// Products in a deleted category become uncategorised; subcategories must go first
+app.delete('/admin/categories/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
   try {
-    const cart = await prisma.cart.findUnique({
-      where: { userId: req.user.id },
-      include: { items: { include: { product: true } } },
-    });
-    if (!cart || cart.items.length === 0) {
-      return res.status(400).json({ error: 'Cart is empty' });
+    const { id } = req.params;
+    if (await prisma.category.count({ where: { parentId: id } }) > 0) {
+      return res.status(409).json({ error: 'Move or delete its subcategories first' });
     }
-    const total = cart.items.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
-    const order = await prisma.order.create({
-      data: {
-        userId: req.user.id,
-        total,
-        items: {
-          create: cart.items.map(item => ({
-            productId: item.productId,
-            quantity: item.quantity,
-            price: item.product.price,
-          })),
-        },
-      },
-      include: { items: { include: { product: true } } },
-    });
-    // Clear cart
-    await prisma.cartItem.deleteMany({ where: { cartId: cart.id } });
-    res.json(order);
+    await prisma.category.delete({ where: { id } });
+    res.json({ message: 'Category deleted' });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create order' });
+    res.status(500).json({ error: 'Failed to delete category' });
   }
 });
 
-app.get('/orders', authenticateToken, async (req: any, res) => {
+app.put('/admin/tags/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
   try {
-    const orders = await prisma.order.findMany({
-      where: { userId: req.user.id },
-      include: { items: { include: { product: true } } },
-    });
-    res.json(orders);
+    const { id } = req.params;
+    const { name } = tagSchema.parse(req.body);
+    const slug = slugify(name);
+    if (!slug) return res.status(400).json({ error: 'Tag name needs at least one letter or digit' });
+    const existing = await prisma.tag.findUnique({ where: { slug } });
+    if (existing && existing.id !== id) {
+      return res.status(409).json({ error: 'A tag with this name already exists' });
+    }
+    const tag = await prisma.tag.update({ where: { id }, data: { name, slug } });
+    res.json(tag);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch orders' });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update tag' });
   }
 });
 
-// Messages (for chat)
-app.get('/messages', async (_, res) => {
+app.delete('/admin/tags/:id', authenticateTokenOrApiKey, requirePermission('products:write'), async (req, res) => {
   try {
-    const messages = await prisma.message.findMany({
-      include: { user: true },
-      orderBy: { createdAt: 'asc' },
+    await prisma.tag.delete({ where: { id: req.params.id } });
+    res.json({ message: 'Tag deleted' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete tag' });
+  }
+});
+
+app.get('/admin/stats', authenticateTokenOrApiKey, requirePermission('stats:read'), async (_, res) => {
+  try {
+    const [userCount, productCount, orderCount, revenueByCurrency, remindersSent, remindersRestored, remindersRecovered, recoveredByCurrency] = await Promise.all([
+      prisma.user.count(),
+      prisma.product.count({ where: { status: { not: 'archived' } } }),
+      prisma.order.count(),
+      prisma.order.groupBy({
+        by: ['currency'],
+        where: { status: { in: [...PAID_STATUSES] } },
+        _sum: { totalMinor: true },
+        _count: true,
+        orderBy: { currency: 'asc' }
+      }),
+      prisma.cartReminder.count(),
+      prisma.cartReminder.count({ where: { restoredAt: { not: null } } }),
+      prisma.cartReminder.count({ where: { orderId: { not: null } } }),
+      prisma.order.groupBy({
+        by: ['currency'],
+        where: { cartReminder: { isNot: null }, status: { in: [...PAID_STATUSES] } },
+        _sum: { totalMinor: true },
+        _count: true,
+        orderBy: { currency: 'asc' }
+      })
+    ]);
+    // Amounts in different currencies are never added together
+    res.json({
+      users: userCount,
+      products: productCount,
+      orders: orderCount,
+      revenue: revenueByCurrency.map(row => ({
+        currency: row.currency,
+        totalMinor: row._sum.totalMinor || 0,
+        orders: row._count
+      })),
+      // Abandoned cart reminders; recoveryRate is the percentage that led to an order
+      cartRecovery: {
+        remindersSent,
+        restored: remindersRestored,
+        recovered: remindersRecovered,
+        recoveryRate: recoveryRate(remindersSent, remindersRecovered),
+        revenue: recoveredByCurrency.map(row => ({
+          currency: row.currency,
+          totalMinor: row._sum.totalMinor || 0,
+          orders: row._count
+        }))
+      }
     });
-    res.json(messages);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch messages' });
+    res.status(500).json({ error: 'Failed to fetch stats' });
   }
 });
 
-app.post('/messages', async (req, res) => {
+app.post('/admin/users/:id/unlock', authenticateTokenOrApiKey, requirePermission('users:manage'), async (req, res) => {
   try {
-    const { userId, content } = req.body;
-    const message = await prisma.message.create({
-      data: { userId, content },
-      include: { user: true },
+    const { id } = req.params;
+    const { count } = await prisma.user.updateMany({
+      where: { id },
+      data: { lockedUntil: null }
     });
-    res.json(message);
+    if (count === 0) return res.status(404).json({ error: 'User not found' });
+    const user = await prisma.user.findUniqueOrThrow({ where: { id }, select: { email: true } });
+    await loginAccountLimiter.reset(`login:account:${user.email.toLowerCase()}`);
+    res.json({ message: 'Account unlocked' });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create message' });
+    res.status(500).json({ error: 'Failed to unlock account' });
   }
 });
 
-// Admin routes
-app.get('/admin/users', authenticateToken, requireAdmin, async (_, res) => {
+app.get('/admin/login-attempts', authenticateTokenOrApiKey, requirePermission('users:read'), async (req, res) => {
   try {
-    const users = await prisma.user.findMany({
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        isAdmin: true,
-        createdAt: true,
-        _count: {
-          select: {
-            orders: true,
-            messages: true
-          }
-        }
-      }
+    const email = typeof req.query.email === 'string' ? req.query.email : undefined;
+    const attempts = await prisma.loginAttempt.findMany({
+      where: email ? { email } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: 100
     });
-    res.json(users);
+    res.json(attempts);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch users' });
+    res.status(500).json({ error: 'Failed to fetch login attempts' });
   }
 });
 
-app.get('/admin/orders', authenticateToken, requireAdmin, async (_, res) => {
+// Data export and deletion on behalf of a user
+app.get('/admin/users/:id/export', authenticateTokenOrApiKey, requirePermission('users:manage'), async (req, res) => {
   try {
-    const orders = await prisma.order.findMany({
-      include: {
-        user: {
-          select: { id: true, email: true, name: true }
-        },
-        items: {
-          include: {
-            product: true
-          }
-        }
-      },
-      orderBy: { createdAt: 'desc' }
+    await sendUserExport(req.params.id, req.query.format, res);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to export data' });
+  }
+});
+
+app.delete('/admin/users/:id', authenticateTokenOrApiKey, requirePermission('users:manage'), async (req: any, res) => {
+  try {
+    if (req.params.id === req.user.id) {
+      return res.status(400).json({ error: 'Use DELETE /me to delete your own account' });
+    }
+    const user = await prisma.user.findUnique({ where: { id: req.params.id } });
+    if (!user || user.deletedAt) return res.status(404).json({ error: 'User not found' });
+    await anonymizeUser(user.id);
+    res.json({ message: 'User deleted' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+// Oversight of every user's API keys
+app.get('/admin/api-keys', authenticateTokenOrApiKey, requirePermission('users:read'), async (_, res) => {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      include: { user: { select: { id: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
     });
-    res.json(orders);
+    res.json(apiKeys.map(apiKey => ({ ...serializeApiKey(apiKey), user: apiKey.user })));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch orders' });
+    res.status(500).json({ error: 'Failed to fetch API keys' });
   }
 });
 
-app.put('/admin/orders/:id/status', authenticateToken, requireAdmin, async (req, res) => {
+app.delete('/admin/api-keys/:id', authenticateTokenOrApiKey, requirePermission('users:manage'), async (req, res) => {
   try {
-    const { id } = req.params;
-    const { status } = req.body;
-    const order = await prisma.order.update({
-      where: { id },
-      data: { status }
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id: req.params.id, revokedAt: null },
+      data: { revokedAt: new Date() },
     });
-    res.json(order);
+    if (count === 0) return res.status(404).json({ error: 'API key not found' });
+    res.json({ message: 'API key revoked' });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update order status' });
+    res.status(500).json({ error: 'Failed to revoke API key' });
   }
 });
 
-app.put('/admin/products/:id', authenticateToken, requireAdmin, async (req, res) => {
+// Roles & permissions
+app.get('/admin/roles', authenticateTokenOrApiKey, requirePermission('users:read'), async (_, res) => {
   try {
-    const { id } = req.params;
-    const { name, description, price, stock } = productSchema.parse(req.body);
-    const product = await prisma.product.update({
-      where: { id },
-      data: { name, description, price, stock }
+    const roles = await prisma.role.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: { name: 'asc' }
     });
-    res.json(product);
+    res.json({ roles, permissions: PERMISSIONS });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch roles' });
+  }
+});
+
+app.post('/admin/roles', authenticateTokenOrApiKey, requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const data = roleSchema.parse(req.body);
+    const role = await prisma.role.create({ data });
+    res.json(role);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input', details: error.issues });
     }
-    res.status(500).json({ error: 'Failed to update product' });
+    res.status(500).json({ error: 'Failed to create role' });
   }
 });
 
-app.delete('/admin/products/:id', authenticateToken, requireAdmin, async (req, res) => {
+app.put('/admin/roles/:id', authenticateTokenOrApiKey, requirePermission('roles:manage'), async (req, res) => {
   try {
     const { id } = req.params;
-    await prisma.product.delete({ where: { id } });
-    res.json({ message: 'Product deleted' });
+    const data = roleSchema.parse(req.body);
+    const role = await prisma.role.update({ where: { id }, data });
+    res.json(role);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete product' });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update role' });
   }
 });
 
-app.get('/admin/stats', authenticateToken, requireAdmin, async (_, res) => {
+// The given role ids that name no role
+const unknownRoleIds = async (roleIds: string[]) => {
+  const roles = await prisma.role.findMany({ where: { id: { in: roleIds } }, select: { id: true } });
+  return roleIds.filter(id => !roles.some(role => role.id === id));
+};
+
+app.put('/admin/users/:id/roles', authenticateTokenOrApiKey, requirePermission('roles:manage'), async (req: any, res) => {
   try {
-    const [userCount, productCount, orderCount, totalRevenue] = await Promise.all([
-      prisma.user.count(),
-      prisma.product.count(),
-      prisma.order.count(),
-      prisma.order.aggregate({
-        _sum: { total: true }
-      })
+    const { id } = req.params;
+    const { roleIds } = userRolesSchema.parse(req.body);
+    // Prevents an admin from locking themselves out of role management
+    if (id === req.user.id) {
+      return res.status(400).json({ error: 'You cannot change your own roles' });
+    }
+    const unknown = await unknownRoleIds(roleIds);
+    if (unknown.length > 0) return res.status(400).json({ error: `Unknown roles: ${unknown.join(', ')}` });
+    await prisma.$transaction([
+      prisma.userRole.deleteMany({ where: { userId: id } }),
+      prisma.userRole.createMany({ data: roleIds.map(roleId => ({ userId: id, roleId })) })
     ]);
-    res.json({
-      users: userCount,
-      products: productCount,
-      orders: orderCount,
-      revenue: totalRevenue._sum.total || 0
+    res.json(await getUserPermissions(id));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update user roles' });
+  }
+});
+
+// Admin invitations
+app.get('/admin/invitations', authenticateTokenOrApiKey, requirePermission('roles:manage'), async (_, res) => {
+  try {
+    const invitations = await prisma.invitation.findMany({
+      where: { acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        email: true,
+        expiresAt: true,
+        createdAt: true,
+        roles: { select: { id: true, name: true } },
+        invitedBy: { select: { id: true, email: true, name: true } }
+      },
+      orderBy: { createdAt: 'desc' }
     });
+    res.json(invitations);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch stats' });
+    res.status(500).json({ error: 'Failed to fetch invitations' });
   }
 });
 
-// Temporary route to make first user admin (remove in production)
-app.post('/admin/make-admin/:userId', authenticateToken, async (req, res) => {
+app.post('/admin/invitations', authenticateTokenOrApiKey, requirePermission('roles:manage'), async (req: any, res) => {
   try {
-    const { userId } = req.params;
-    const user = await prisma.user.update({
-      where: { id: userId },
-      data: { isAdmin: true }
+    const { email, roleIds } = invitationSchema.parse(req.body);
+    const unknown = await unknownRoleIds(roleIds);
+    if (unknown.length > 0) return res.status(400).json({ error: `Unknown roles: ${unknown.join(', ')}` });
+    const token = crypto.randomBytes(32).toString('base64url');
+    const invitation = await prisma.invitation.create({
+      data: {
+        email,
+        tokenHash: hashToken(token),
+        invitedById: req.user.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        roles: { connect: roleIds.map(id => ({ id })) }
+      },
+      select: { id: true, email: true, expiresAt: true, roles: { select: { id: true, name: true } } }
+    });
+    await mailer.send({
+      to: email,
+      subject: 'You have been invited to the Ecom Chat admin portal',
+      text: `You have been invited to join the admin team as ${invitation.roles.map(role => role.name).join(', ')}.\n\nAccept the invitation here:\n\n${ADMIN_URL}/accept-invite?token=${token}\n\nThe link expires in 7 days.`
     });
-    res.json({ message: 'User made admin', user });
+    res.json(invitation);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to make user admin' });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create invitation' });
   }
 });
 
-app.listen(4000, () => {
-  console.log('Server running on http://localhost:4000');
+app.delete('/admin/invitations/:id', authenticateTokenOrApiKey, requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { count } = await prisma.invitation.updateMany({
+      where: { id },
+      data: { revokedAt: new Date() }
+    });
+    if (count === 0) return res.status(404).json({ error: 'Invitation not found' });
+    res.json({ message: 'Invitation revoked' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke invitation' });
+  }
 });
 
+// Tests import the app without starting the servers or the background jobs
+const isMain = require.main === module;
+
+if (isMain) {
+  app.listen(4000, () => {
+    console.log('Server running on http://localhost:4000');
+    setInterval(() => {
+      releaseHolds({ expiresAt: { lte: new Date() } }).catch(error => console.error('Failed to release stock holds:', error));
+      cancelUnpaidOrders().catch(error => console.error('Failed to cancel unpaid orders:', error));
+    }, STOCK_HOLD_RELEASE_INTERVAL_MS);
+    if (CART_REMINDER_INTERVAL_MS > 0) {
+      setInterval(() => {
+        sendCartReminders().catch(error => console.error('Cart reminder run failed:', error));
+      }, CART_REMINDER_INTERVAL_MS);
+    }
+  });
+}
+
 export default app; // Export for testing
 
 const server = createServer(app);
@@ -393,26 +4134,39 @@ const io = new Server(server, {
   }
 });
 
+// Sockets authenticate like requests: the client sends its access token as
+// auth.token when connecting, and the socket acts as that user from then on
+io.use(async (socket, next) => {
+  try {
+    const payload: any = jwt.verify(socket.handshake.auth?.token, JWT_SECRET);
+    if (!await isSessionLive(payload.sid)) return next(new Error('Session revoked'));
+    socket.data.user = payload;
+    next();
+  } catch (error) {
+    next(new Error('Invalid token'));
+  }
+});
+
 io.on('connection', (socket) => {
   console.log('User connected:', socket.id);
+  const userId: string = socket.data.user.id;
 
-  socket.on('join', (userId) => {
-    socket.join(userId);
+  // Rooms are named after users; a socket only gets into its own
+  socket.on('join', (room) => {
+    if (room === userId) socket.join(room);
   });
 
+  // The chat is one shared room: every message goes to all signed-in users,
+  // never into a particular user's room
   socket.on('sendMessage', async (data) => {
     try {
-      const { userId, content, recipientId } = data;
+      const parsed = messageSchema.safeParse(data);
+      if (!parsed.success) return;
       const message = await prisma.message.create({
-        data: { userId, content },
-        include: { user: true },
+        data: { userId, content: parsed.data.content },
+        include: { user: { select: publicUserSelect } },
       });
-      // Send to recipient if specified, else broadcast
-      if (recipientId) {
-        io.to(recipientId).emit('newMessage', message);
-      } else {
-        io.emit('newMessage', message);
-      }
+      io.emit('newMessage', message);
     } catch (error) {
       console.error('Error sending message:', error);
     }
@@ -423,6 +4177,8 @@ io.on('connection', (socket) => {
   });
 });
 
-server.listen(4001, () => {
-  console.log('Socket server running on http://localhost:4001');
-});
+if (isMain) {
+  server.listen(4001, () => {
+    console.log('Socket server running on http://localhost:4001');
+  });
+}
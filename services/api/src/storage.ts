@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface Storage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+  // Set when the API serves the files itself
+  localDir?: string;
+}
+
+// Dev storage: objects are files under `dir`, served by the API at `baseUrl`.
+// Keys are relative paths like products/<id>/<image>/thumb.webp.
+export const createLocalStorage = (dir: string, baseUrl: string): Storage => {
+  const resolve = (key: string) => {
+    const file = path.resolve(dir, key);
+    if (!file.startsWith(path.resolve(dir) + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  };
+  return {
+    localDir: dir,
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+    },
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+    url(key) {
+      return `${baseUrl.replace(/\/$/, '')}/${key}`;
+    },
+  };
+};
+
+export const createStorage = (): Storage => {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+  switch (driver) {
+    case 'local':
+      return createLocalStorage(
+        process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads'),
+        `${process.env.API_URL || 'http://localhost:4000'}/uploads`,
+      );
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+};
@@ -0,0 +1,70 @@
+import jwt from 'jsonwebtoken';
+import { MailMessage, MailTransport } from './mail';
+
+// Stand-in for PrismaClient in request-level tests, so routes run without a
+// database. Every model method is a jest.fn that resolves to undefined until a
+// test says otherwise; $transaction runs its callback against the same mock.
+// Test files swap it in before importing the server:
+//
+//   jest.mock('@prisma/client', () => ({
+//     ...jest.requireActual('@prisma/client'),
+//     PrismaClient: jest.fn(() => require('./testing').prismaMock),
+//   }));
+const models = new Map<string, Record<string, jest.Mock>>();
+
+const model = (name: string) => {
+  if (!models.has(name)) {
+    const methods: Record<string, jest.Mock> = {};
+    models.set(name, new Proxy(methods, { get: (target, method: string) => (target[method] ??= jest.fn()) }));
+  }
+  return models.get(name)!;
+};
+
+const transaction = jest.fn();
+
+const runTransaction = (arg: any) => (Array.isArray(arg) ? Promise.all(arg) : arg(prismaMock));
+
+export const prismaMock: any = new Proxy({}, {
+  get: (_target, property: string | symbol) => {
+    if (property === '$transaction') return transaction;
+    // Not a promise, and no connection to open or close
+    if (property === 'then' || typeof property === 'symbol') return undefined;
+    if (property.startsWith('$')) return async () => undefined;
+    return model(property);
+  },
+});
+
+// Mail the server sent, for tests that swap in mailMock the same way:
+//   jest.mock('./mail', () => ({ createMailTransport: () => require('./testing').mailMock }));
+export const sentMail: MailMessage[] = [];
+
+export const mailMock: MailTransport = {
+  send: async message => {
+    sentMail.push(message);
+  },
+};
+
+export const resetMocks = () => {
+  models.clear();
+  sentMail.length = 0;
+  transaction.mockReset();
+  transaction.mockImplementation(runTransaction);
+};
+
+resetMocks();
+
+// The server reads it at startup, so tests can sign payment webhooks with it
+export const WEBHOOK_SECRET = 'test-webhook-secret';
+process.env.PAYMENT_WEBHOOK_SECRET = WEBHOOK_SECRET;
+
+// Access token for a session, signed like the server's own (JWT_SECRET unset in tests)
+export const accessToken = (user: { id: string; email: string }, sessionId = 'session-1') =>
+  jwt.sign({ id: user.id, email: user.email, sid: sessionId }, process.env.JWT_SECRET || 'devsecret', { expiresIn: '15m' });
+
+// A live session for authenticateToken to find
+export const activeSession = (userId: string, sessionId = 'session-1') => ({
+  id: sessionId,
+  userId,
+  revokedAt: null,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+});
@@ -0,0 +1,38 @@
+import { base32Decode, base32Encode, decryptSecret, encryptSecret, generateCode, isEncryptedSecret, verifyCode } from './totp';
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('12345678901234567890');
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET)).toEqual(bytes);
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(generateCode(RFC_SECRET, Math.floor(59 / 30))).toBe('287082');
+    expect(generateCode(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+  });
+
+  it('accepts codes from the adjacent step only', () => {
+    const now = 1111111109 * 1000;
+    expect(verifyCode(RFC_SECRET, '081804', now)).toBe(Math.floor(1111111109 / 30));
+    expect(verifyCode(RFC_SECRET, '081804', now + 30_000)).not.toBeNull();
+    expect(verifyCode(RFC_SECRET, '081804', now + 90_000)).toBeNull();
+    expect(verifyCode(RFC_SECRET, 'abc', now)).toBeNull();
+  });
+
+  it('stores secrets encrypted under the server key', () => {
+    const stored = encryptSecret(RFC_SECRET, 'server-key');
+    expect(isEncryptedSecret(stored)).toBe(true);
+    expect(stored).not.toContain(RFC_SECRET);
+    expect(encryptSecret(RFC_SECRET, 'server-key')).not.toBe(stored);
+    expect(decryptSecret(stored, 'server-key')).toBe(RFC_SECRET);
+    expect(() => decryptSecret(stored, 'other-key')).toThrow();
+  });
+
+  it('reads secrets saved before encryption as they are', () => {
+    expect(decryptSecret(RFC_SECRET, 'server-key')).toBe(RFC_SECRET);
+  });
+});
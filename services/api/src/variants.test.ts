@@ -0,0 +1,37 @@
+import { validateVariants, variantTitle } from './variants';
+
+const size = { id: 'size', name: 'Size', position: 0, values: [{ id: 's', name: 'S', position: 0 }, { id: 'm', name: 'M', position: 1 }] };
+const color = { id: 'color', name: 'Color', position: 1, values: [{ id: 'red', name: 'Red', position: 0 }] };
+
+describe('validateVariants', () => {
+  it('accepts one variant per combination', () => {
+    const variants = [
+      { sku: 'TEE-S-RED', optionValueIds: ['s', 'red'] },
+      { sku: 'TEE-M-RED', optionValueIds: ['red', 'm'] },
+    ];
+    expect(validateVariants([size, color], variants)).toBeNull();
+  });
+
+  it('allows a single default variant without option types', () => {
+    expect(validateVariants([], [{ sku: 'MUG', optionValueIds: [] }])).toBeNull();
+    expect(validateVariants([], [{ sku: 'MUG', optionValueIds: [] }, { sku: 'MUG-2', optionValueIds: [] }])).not.toBeNull();
+  });
+
+  it('rejects missing values, repeated combinations and duplicate SKUs', () => {
+    expect(validateVariants([size, color], [{ sku: 'A', optionValueIds: ['s'] }])).toMatch(/one value for each option/);
+    expect(validateVariants([size], [{ sku: 'A', optionValueIds: ['s', 'm'] }])).toMatch(/one value for each option/);
+    expect(validateVariants([size], [{ sku: 'A', optionValueIds: ['s'] }, { sku: 'B', optionValueIds: ['s'] }])).toMatch(/repeats/);
+    expect(validateVariants([size], [{ sku: 'A', optionValueIds: ['s'] }, { sku: 'A', optionValueIds: ['m'] }])).toMatch(/Duplicate SKU/);
+  });
+});
+
+describe('variantTitle', () => {
+  it('joins values in option type order', () => {
+    const values = [
+      { name: 'Red', optionType: { name: 'Color', position: 1 } },
+      { name: 'M', optionType: { name: 'Size', position: 0 } },
+    ];
+    expect(variantTitle(values)).toBe('M / Red');
+    expect(variantTitle([])).toBe('');
+  });
+});
@@ -0,0 +1,45 @@
+// Variant matrix rules. A product picks option types (Size, Color); each of
+// its variants takes exactly one value per type, and no two variants share a
+// combination or a SKU. Without option types there is one default variant.
+export interface OptionTypeWithValues {
+  id: string;
+  name: string;
+  position: number;
+  values: { id: string; name: string; position: number }[];
+}
+
+export interface VariantInput {
+  sku: string;
+  optionValueIds: string[];
+}
+
+const combinationKey = (optionValueIds: string[]) => [...optionValueIds].sort().join('|');
+
+export const validateVariants = (optionTypes: OptionTypeWithValues[], variants: VariantInput[]) => {
+  if (variants.length === 0) return 'A product needs at least one variant';
+  if (optionTypes.length === 0 && variants.length > 1) return 'Choose option types before adding more variants';
+
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+  for (const variant of variants) {
+    const coversEveryType = optionTypes.every(
+      type => variant.optionValueIds.filter(id => type.values.some(value => value.id === id)).length === 1,
+    );
+    if (!coversEveryType || variant.optionValueIds.length !== optionTypes.length) {
+      return `Variant ${variant.sku} needs exactly one value for each option`;
+    }
+    if (skus.has(variant.sku)) return `Duplicate SKU ${variant.sku}`;
+    const key = combinationKey(variant.optionValueIds);
+    if (combinations.has(key)) return `Variant ${variant.sku} repeats another variant's options`;
+    skus.add(variant.sku);
+    combinations.add(key);
+  }
+  return null;
+};
+
+// "M / Blue", following the option type order; empty for a default variant
+export const variantTitle = (optionValues: { name: string; optionType: { position: number; name: string } }[]) =>
+  [...optionValues]
+    .sort((a, b) => a.optionType.position - b.optionType.position || a.optionType.name.localeCompare(b.optionType.name))
+    .map(value => value.name)
+    .join(' / ');
@@ -0,0 +1,17 @@
+import { backInStockEmail, restocked } from './wishlists';
+
+describe('restocked', () => {
+  it('only fires when stock comes back from zero', () => {
+    expect(restocked(0, 5)).toBe(true);
+    expect(restocked(2, 5)).toBe(false);
+    expect(restocked(0, 0)).toBe(false);
+  });
+});
+
+describe('backInStockEmail', () => {
+  it('names the product and links to the shop', () => {
+    const email = backInStockEmail('Blue Mug', 'https://shop.example');
+    expect(email.subject).toBe('Blue Mug is back in stock');
+    expect(email.text).toContain('https://shop.example');
+  });
+});
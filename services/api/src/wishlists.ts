@@ -0,0 +1,13 @@
+// Customers park items outside the cart in two lists: a wishlist, and "saved
+// for later" for cart lines they moved out of the cart (quantity kept).
+export const SAVED_LISTS = ['wishlist', 'saved'] as const;
+
+export type SavedList = (typeof SAVED_LISTS)[number];
+
+// Back-in-stock alerts fire on the move from no stock to some, not on every restock
+export const restocked = (previousStock: number, stock: number) => previousStock <= 0 && stock > 0;
+
+export const backInStockEmail = (productName: string, shopUrl: string) => ({
+  subject: `${productName} is back in stock`,
+  text: `Good news: ${productName} is available again.\n\nShop now before it sells out:\n\n${shopUrl}\n\nYou asked to be told once; we will not email you about it again.`,
+});
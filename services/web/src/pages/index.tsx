@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -6,54 +6,219 @@ interface Product {
   id: string;
   name: string;
   description?: string;
-  price: number;
+  priceMinor: number;
+  // Cheapest variant in the requested currency, including running sales
+  displayPriceMinor: number;
+  displayCompareAtPriceMinor: number | null;
+  saleEndsAt: string | null;
+  currency: string;
   stock: number;
+  status?: 'draft' | 'active' | 'archived';
+  ratingAverage?: number;
+  ratingCount?: number;
+  category?: { id: string; name: string; slug: string } | null;
+  tags?: { id: string; name: string; slug: string }[];
+  optionTypes?: { id: string; name: string; values: { id: string; name: string }[] }[];
+  variants?: ProductVariant[];
+  images?: { id: string; url: string; mediumUrl: string; thumbnailUrl: string }[];
+}
+
+interface ProductVariant {
+  id: string;
+  sku: string;
+  priceMinor: number | null;
+  displayPriceMinor: number;
+  displayCompareAtPriceMinor: number | null;
+  saleEndsAt: string | null;
+  stock: number;
+  optionValues: { id: string; optionTypeId: string; name: string }[];
+}
+
+interface Review {
+  id: string;
+  rating: number;
+  title?: string | null;
+  body: string;
+  author: string;
+  createdAt: string;
+}
+
+interface ProductReviews {
+  productId: string;
+  items: Review[];
+  summary: { average: number; count: number };
+  nextCursor: string | null;
+}
+
+interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  children: Category[];
+}
+
+interface Facets {
+  categories: { id: string; count: number }[];
+  tags: { slug: string; name: string; count: number }[];
 }
 
 interface CartItem {
   id: string;
   product: Product;
+  variantTitle: string;
+  unitPriceMinor: number;
+  compareAtPriceMinor: number | null;
   quantity: number;
+  lineTotalMinor: number;
+  warnings: CartWarning[];
+}
+
+type CartWarning =
+  | { code: 'unavailable' }
+  | { code: 'out_of_stock' }
+  | { code: 'insufficient_stock'; available: number }
+  | { code: 'price_changed'; previousPriceMinor: number; priceMinor: number };
+
+interface Discount {
+  code: string;
+  description: string;
+  amountMinor: number;
 }
 
 interface Cart {
+  currency: string;
   items: CartItem[];
+  // The entered coupon; error is set when it no longer qualifies
+  coupon: { code: string; description: string; error: string | null } | null;
+  discounts: Discount[];
+  subtotalMinor: number;
+  discountMinor: number;
+  totalMinor: number;
 }
 
+const emptyCart: Cart = { currency: '', items: [], coupon: null, discounts: [], subtotalMinor: 0, discountMinor: 0, totalMinor: 0 };
+
 interface Order {
   id: string;
-  total: number;
+  discountMinor: number;
+  totalMinor: number;
+  currency: string;
   status: string;
   items: { product: Product; quantity: number }[];
 }
 
+// Test cards of the API's mock payment provider
+const paymentMethods = [
+  { value: 'mock_success', label: 'Test card: approved' },
+  { value: 'mock_decline', label: 'Test card: declined' },
+  { value: 'mock_3ds', label: 'Test card: 3-D Secure' },
+];
+
+interface Payment {
+  id: string;
+  status: string;
+  nextActionUrl: string | null;
+  failureReason: string | null;
+}
+
+type SavedListName = 'wishlist' | 'saved';
+
+interface SavedItem {
+  id: string;
+  product: Product;
+  variantTitle: string;
+  unitPriceMinor: number;
+  quantity: number;
+  inStock: boolean;
+  stockAlert: boolean;
+}
+
+interface SavedList {
+  currency: string;
+  items: SavedItem[];
+}
+
+const emptySavedList: SavedList = { currency: '', items: [] };
+
 interface Message {
   id: string;
   content: string;
   userId: string;
-  user: { name?: string; email: string };
+  user: { id: string; name: string | null };
   createdAt: string;
 }
 
+interface Currency {
+  code: string;
+  name: string;
+  digits: number;
+  base: boolean;
+}
+
 interface User {
   id: string;
   email: string;
   name?: string;
+  emailVerified?: boolean;
 }
 
+// Prices arrive as integer minor units (cents) plus a currency code
+const formatMoney = (minor: number, currency: string) => {
+  const format = new Intl.NumberFormat(undefined, { style: 'currency', currency });
+  return format.format(minor / 10 ** (format.resolvedOptions().maximumFractionDigits ?? 2));
+};
+
 export default function Home() {
   const [status, setStatus] = useState<string>('loading...');
   const [products, setProducts] = useState<Product[]>([]);
+  const [productTotal, setProductTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingProducts, setLoadingProducts] = useState(false);
+  const [search, setSearch] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [inStockOnly, setInStockOnly] = useState(false);
+  const [sort, setSort] = useState('relevance');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [category, setCategory] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [facets, setFacets] = useState<Facets>({ categories: [], tags: [] });
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  // Empty means the store's base currency
+  const [currency, setCurrency] = useState('');
+  const productRequest = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string>('');
-  const [cart, setCart] = useState<Cart>({ items: [] });
+  const [cart, setCart] = useState<Cart>(emptyCart);
+  // Chosen option value per option type, keyed by product id
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, Record<string, string>>>({});
+  const [productReviews, setProductReviews] = useState<ProductReviews | null>(null);
+  const [reviewForm, setReviewForm] = useState({ rating: 5, title: '', body: '' });
   const [orders, setOrders] = useState<Order[]>([]);
+  const [savedLists, setSavedLists] = useState<Record<SavedListName, SavedList>>({ wishlist: emptySavedList, saved: emptySavedList });
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState(paymentMethods[0].value);
+  // Until when the cart's stock is set aside for checkout (POST /checkout/hold)
+  const [heldUntil, setHeldUntil] = useState<string | null>(null);
   const [socket, setSocket] = useState<Socket | null>(null);
 
   // Auth forms
-  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+  const [authMode, setAuthMode] = useState<'login' | 'register' | 'forgot' | 'reset'>('login');
+  const [resetToken, setResetToken] = useState('');
+  const [partialToken, setPartialToken] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [oidcProviders, setOidcProviders] = useState<{ id: string; label: string }[]>([]);
+
+  // Account security (two-factor authentication)
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCode: string } | null>(null);
+  const [securityCode, setSecurityCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [deletePassword, setDeletePassword] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
@@ -78,133 +243,832 @@ export default function Home() {
       }
     }
 
-    // Fetch products
-    fetchProducts();
+    // Links from verification / password reset / cart reminder emails, social
+    // login redirects and the way back from a payment challenge
+    const params = new URLSearchParams(window.location.search);
+    const verifyToken = params.get('verifyToken');
+    const emailResetToken = params.get('resetToken');
+    const restoreCartToken = params.get('restoreCart');
+    const oidcTicket = params.get('oidcTicket');
+    const oidcError = params.get('oidcError');
+    const paymentReturn = params.get('paymentReturn');
+    if (verifyToken || emailResetToken || restoreCartToken || oidcTicket || oidcError || paymentReturn) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    // The order's status follows by socket once the payment has settled
+    if (paymentReturn) {
+      alert('Thanks! Your payment is being confirmed.');
+    }
+    // The cart is restored once the customer is signed in (see restoreCart)
+    if (restoreCartToken) {
+      localStorage.setItem('restoreCart', restoreCartToken);
+      if (!savedToken) alert('Log in to pick up your saved cart');
+    }
+    if (oidcTicket) {
+      exchangeOidcTicket(oidcTicket);
+    }
+    if (oidcError) {
+      alert(oidcError);
+    }
+    if (verifyToken) {
+      verifyEmail(verifyToken);
+    }
+    if (emailResetToken) {
+      setResetToken(emailResetToken);
+      setAuthMode('reset');
+    }
+
+    setCurrency(localStorage.getItem('currency') || '');
+    fetchOidcProviders();
+    fetchCategories();
+    fetchCurrencies();
   }, []);
 
   useEffect(() => {
     if (user && token) {
+      restoreCart();
       fetchCart();
       fetchOrders();
+      fetchSavedLists();
       fetchMessages();
 
-      // Connect to socket
-      const newSocket = io('http://localhost:4001');
-      setSocket(newSocket);
+      // Connect to socket; it acts as the user the access token belongs to
+      const newSocket = io('http://localhost:4001', { auth: { token } });
+      setSocket(newSocket);
+
+      newSocket.emit('join', user.id);
+
+      newSocket.on('newMessage', (message: Message) => {
+        setMessages(prev => [...prev, message]);
+      });
+
+      newSocket.on('backInStock', ({ name }: { productId: string; name: string }) => {
+        alert(`${name} is back in stock!`);
+        fetchProducts();
+        fetchSavedLists();
+      });
+
+      newSocket.on('orderStatus', ({ status }: { orderId: string; status: string }) => {
+        fetchOrders();
+        if (status === 'paid') alert('Payment received. Thank you for your order!');
+        if (status === 'payment_failed') alert('Your payment failed. You can pay again from your orders.');
+      });
+
+      return () => {
+        newSocket.disconnect();
+      };
+    }
+  }, [user, token]);
+
+  // Search and filters reload the list (debounced while typing)
+  useEffect(() => {
+    const timer = setTimeout(() => fetchProducts(), 300);
+    return () => clearTimeout(timer);
+  }, [search, minPrice, maxPrice, inStockOnly, sort, category, selectedTags, currency]);
+
+  // Guests have a cart too, so this also loads it on the first visit
+  useEffect(() => {
+    fetchCart();
+    if (user) fetchSavedLists();
+  }, [currency]);
+
+  // Infinite scroll: load the next page when the sentinel below the list shows up
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || loadingProducts) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) fetchProducts(nextCursor);
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [user, nextCursor, loadingProducts, search, minPrice, maxPrice, inStockOnly, sort, category, selectedTags, currency]);
+
+  const fetchCategories = async () => {
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/categories`);
+      if (res.ok) setCategories(await res.json());
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const fetchCurrencies = async () => {
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/currencies`);
+      if (res.ok) setCurrencies(await res.json());
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const changeCurrency = (code: string) => {
+    localStorage.setItem('currency', code);
+    setCurrency(code);
+  };
+
+  // Query string for endpoints that price things in the shopper's currency
+  const currencyQuery = () => (currency ? `?currency=${currency}` : '');
+
+  const fetchProducts = async (cursor?: string) => {
+    const params = new URLSearchParams({ sort, limit: '20' });
+    if (search.trim()) params.set('q', search.trim());
+    if (minPrice) params.set('minPrice', minPrice);
+    if (maxPrice) params.set('maxPrice', maxPrice);
+    if (inStockOnly) params.set('inStock', 'true');
+    if (category) params.set('category', category);
+    if (selectedTags.length > 0) params.set('tags', selectedTags.join(','));
+    if (cursor) params.set('cursor', cursor);
+    if (currency) params.set('currency', currency);
+
+    // Responses for an outdated search are dropped
+    const request = ++productRequest.current;
+    setLoadingProducts(true);
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/products?${params}`);
+      const data = await res.json();
+      if (request !== productRequest.current) return;
+      if (!res.ok) return console.error(data.error);
+      setProducts((current) => (cursor ? [...current, ...data.items] : data.items));
+      setProductTotal(data.total);
+      setFacets(data.facets);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      if (request === productRequest.current) setLoadingProducts(false);
+    }
+  };
+
+  // Access tokens are short-lived: on a 401 we rotate the refresh token once
+  // and replay the request, otherwise the session is gone and we log out.
+  // Requests failing together share one refresh: the refresh token rotates on
+  // use, so a second refresh with the same token would be refused.
+  const refreshing = useRef<Promise<string | null> | null>(null);
+
+  const refreshSession = () => {
+    refreshing.current ??= rotateRefreshToken().finally(() => {
+      refreshing.current = null;
+    });
+    return refreshing.current;
+  };
+
+  const rotateRefreshToken = async (): Promise<string | null> => {
+    const savedRefreshToken = localStorage.getItem('refreshToken');
+    if (!savedRefreshToken) return null;
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken: savedRefreshToken }),
+      });
+      if (!res.ok) return null;
+      const data = await res.json();
+      setToken(data.token);
+      localStorage.setItem('token', data.token);
+      localStorage.setItem('refreshToken', data.refreshToken);
+      return data.token;
+    } catch (error) {
+      console.error(error);
+      return null;
+    }
+  };
+
+  const authFetch = async (path: string, init: RequestInit = {}) => {
+    const send = (accessToken: string) =>
+      fetch(`${process.env.NEXT_PUBLIC_API_URL}${path}`, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${accessToken}` },
+      });
+    const sentToken = localStorage.getItem('token') || token;
+    const res = await send(sentToken);
+    if (res.status !== 401) return res;
+    // Another request may have refreshed the session while this one was out
+    const currentToken = localStorage.getItem('token');
+    if (currentToken && currentToken !== sentToken) return send(currentToken);
+    const refreshedToken = await refreshSession();
+    if (!refreshedToken) {
+      clearSession();
+      return res;
+    }
+    return send(refreshedToken);
+  };
+
+  // Guests name their cart with the token the API returned when they first
+  // added something; once signed in the session identifies the cart instead
+  const cartTokenHeader = (): Record<string, string> => {
+    const cartToken = localStorage.getItem('cartToken');
+    return cartToken ? { 'X-Cart-Token': cartToken } : {};
+  };
+
+  const cartFetch = (path: string, init: RequestInit = {}) => {
+    if (localStorage.getItem('token')) return authFetch(path, init);
+    return fetch(`${process.env.NEXT_PUBLIC_API_URL}${path}`, {
+      ...init,
+      headers: { ...init.headers, ...cartTokenHeader() },
+    });
+  };
+
+  const fetchCart = async () => {
+    try {
+      const res = await cartFetch(`/cart${currencyQuery()}`);
+      const data = await res.json();
+      if (!res.ok) return console.error(data.error);
+      setCart(data);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  // Opens the reviews of a product, or loads the next page when a cursor is given
+  const fetchReviews = async (productId: string, cursor?: string) => {
+    try {
+      const params = new URLSearchParams({ limit: '5' });
+      if (cursor) params.set('cursor', cursor);
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/products/${productId}/reviews?${params}`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setProductReviews((current) => ({
+        productId,
+        items: cursor && current?.productId === productId ? [...current.items, ...data.items] : data.items,
+        summary: data.summary,
+        nextCursor: data.nextCursor,
+      }));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const submitReview = async (productId: string) => {
+    try {
+      const res = await authFetch(`/products/${productId}/reviews`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating: reviewForm.rating, title: reviewForm.title || undefined, body: reviewForm.body }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      setReviewForm({ rating: 5, title: '', body: '' });
+      alert('Thanks! Your review will appear once it has been approved.');
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const fetchOrders = async () => {
+    try {
+      const res = await authFetch('/orders');
+      const data = await res.json();
+      setOrders(data);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const fetchSavedLists = async () => {
+    try {
+      const [wishlist, saved] = await Promise.all(
+        (['wishlist', 'saved'] as const).map(async (list) => {
+          const res = await authFetch(`/me/lists/${list}${currencyQuery()}`);
+          return res.ok ? ((await res.json()) as SavedList) : emptySavedList;
+        }),
+      );
+      setSavedLists({ wishlist, saved });
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const saveToList = async (product: Product, list: SavedListName) => {
+    const variant = selectedVariant(product);
+    if (!variant) {
+      alert('Choose a value for each option first');
+      return;
+    }
+    try {
+      const res = await authFetch(`/me/lists/${list}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: product.id, variantId: variant.id }),
+      });
+      if (!res.ok) alert((await res.json()).error);
+      fetchSavedLists();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const removeSavedItem = async (list: SavedListName, itemId: string) => {
+    try {
+      await authFetch(`/me/lists/${list}/items/${itemId}`, { method: 'DELETE' });
+      fetchSavedLists();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const moveSavedItemToCart = async (list: SavedListName, itemId: string) => {
+    try {
+      const res = await authFetch(`/me/lists/${list}/items/${itemId}/move-to-cart`, { method: 'POST' });
+      if (!res.ok) alert((await res.json()).error);
+      fetchSavedLists();
+      fetchCart();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const saveForLater = async (itemId: string) => {
+    try {
+      const res = await authFetch(`/cart/items/${itemId}/save-for-later`, { method: 'POST' });
+      if (!res.ok) alert((await res.json()).error);
+      fetchSavedLists();
+      fetchCart();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const requestStockAlert = async (productId: string) => {
+    try {
+      const res = await authFetch(`/products/${productId}/stock-alerts`, { method: 'POST' });
+      alert((await res.json())[res.ok ? 'message' : 'error']);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const fetchMessages = async () => {
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/messages`);
+      const data = await res.json();
+      setMessages(data);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const verifyEmail = async (verifyToken: string) => {
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/verify-email`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: verifyToken }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setUser(prev => (prev ? { ...prev, emailVerified: true } : prev));
+        alert('Email verified!');
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const resendVerification = async () => {
+    try {
+      const res = await authFetch('/auth/resend-verification', { method: 'POST' });
+      const data = await res.json();
+      alert(res.ok ? 'Verification email sent' : data.error);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handlePasswordRecovery = async () => {
+    const endpoint = authMode === 'forgot' ? 'forgot-password' : 'reset-password';
+    const body = authMode === 'forgot' ? { email } : { token: resetToken, password };
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        alert(authMode === 'forgot' ? 'Check your email for a reset link' : 'Password updated, please log in');
+        setResetToken('');
+        setPassword('');
+        setAuthMode('login');
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const fetchOidcProviders = async () => {
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/oidc/providers`);
+      if (res.ok) setOidcProviders(await res.json());
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const applyLoginResult = (data: any) => {
+    if (data.twoFactorRequired) {
+      setPartialToken(data.partialToken);
+      return;
+    }
+    setPartialToken('');
+    setTwoFactorCode('');
+    setUser(data.user);
+    setToken(data.token);
+    localStorage.setItem('token', data.token);
+    localStorage.setItem('refreshToken', data.refreshToken);
+    // The guest cart now lives in the account's cart
+    if (data.mergedCart) {
+      localStorage.removeItem('cartToken');
+      const adjustments = data.mergedCart.adjustments as { sku: string; requested: number; quantity: number }[];
+      if (adjustments.length > 0) {
+        alert(
+          'Some items in your cart were limited to the available stock:\n' +
+            adjustments.map((line) => `${line.sku}: ${line.quantity} of ${line.requested}`).join('\n'),
+        );
+      }
+    }
+    setEmail('');
+    setPassword('');
+    setName('');
+  };
+
+  const exchangeOidcTicket = async (ticket: string) => {
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/oidc/exchange`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...cartTokenHeader() },
+        body: JSON.stringify({ ticket }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        applyLoginResult(data);
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleAuth = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (authMode === 'forgot' || authMode === 'reset') {
+      return handlePasswordRecovery();
+    }
+    const endpoint = partialToken ? '2fa/verify' : authMode === 'login' ? 'login' : 'register';
+    const body = partialToken
+      ? { partialToken, code: twoFactorCode }
+      : authMode === 'login' ? { email, password } : { email, name, password };
+
+    try {
+      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...cartTokenHeader() },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        applyLoginResult(data);
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const openSecurity = async () => {
+    setShowSecurity(!showSecurity);
+    setEnrollment(null);
+    setRecoveryCodes([]);
+    try {
+      const res = await authFetch('/me');
+      if (res.ok) setTwoFactorEnabled((await res.json()).twoFactorEnabled);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const startTwoFactorSetup = async () => {
+    try {
+      const res = await authFetch('/auth/2fa/setup', { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) setEnrollment(data);
+      else alert(data.error);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  // enable / disable / recovery-codes all take the current authenticator code
+  const submitTwoFactorCode = async (action: 'enable' | 'disable' | 'recovery-codes') => {
+    try {
+      const res = await authFetch(`/auth/2fa/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: securityCode }),
+      });
+      const data = await res.json();
+      if (!res.ok) return alert(data.error);
+      setSecurityCode('');
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes || []);
+      if (action !== 'recovery-codes') setTwoFactorEnabled(action === 'enable');
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const clearSession = () => {
+    setUser(null);
+    setToken('');
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    setCart(emptyCart);
+    setHeldUntil(null);
+    setOrders([]);
+    setSavedLists({ wishlist: emptySavedList, saved: emptySavedList });
+  };
+
+  const logout = async () => {
+    const savedRefreshToken = localStorage.getItem('refreshToken');
+    if (savedRefreshToken) {
+      try {
+        await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/logout`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken: savedRefreshToken }),
+        });
+      } catch (error) {
+        console.error(error);
+      }
+    }
+    clearSession();
+  };
+
+  const logoutAllDevices = async () => {
+    if (!confirm('Sign out of all devices?')) return;
+    try {
+      await authFetch('/auth/logout-all', { method: 'POST' });
+    } catch (error) {
+      console.error(error);
+    }
+    clearSession();
+  };
+
+  const toggleTag = (slug: string) =>
+    setSelectedTags(selectedTags.includes(slug) ? selectedTags.filter((tag) => tag !== slug) : [...selectedTags, slug]);
+
+  // Category navigation with facet counts (each count includes subcategories)
+  const renderCategories = (nodes: Category[], depth = 0): React.ReactNode[] =>
+    nodes.flatMap((node) => {
+      const count = facets.categories.find((facet) => facet.id === node.id)?.count || 0;
+      return [
+        <button
+          key={node.id}
+          onClick={() => setCategory(category === node.slug ? '' : node.slug)}
+          style={{ display: 'block', width: '100%', textAlign: 'left', padding: '6px 8px', paddingLeft: 8 + depth * 15, background: category === node.slug ? '#667eea' : 'transparent', color: category === node.slug ? 'white' : count ? '#333' : '#aaa', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+        >
+          {node.name} <span style={{ opacity: 0.7 }}>({count})</span>
+        </button>,
+        ...renderCategories(node.children, depth + 1),
+      ];
+    });
+
+  const downloadExport = async (format: 'json' | 'zip') => {
+    try {
+      const res = await authFetch(`/me/export?format=${format}`);
+      if (!res.ok) return alert((await res.json()).error);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(await res.blob());
+      link.download = `my-data.${format}`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const deleteAccount = async () => {
+    if (!confirm('Delete your account? Your profile, cart and messages are erased. This cannot be undone.')) return;
+    try {
+      const res = await authFetch('/me', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: deletePassword || undefined, code: securityCode || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) return alert(data.error);
+      setDeletePassword('');
+      setShowSecurity(false);
+      clearSession();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  // The variant matching every chosen option, or the only variant of a product without options
+  const selectedVariant = (product: Product) => {
+    const variants = product.variants || [];
+    if (!product.optionTypes?.length) return variants[0];
+    const chosen = selectedOptions[product.id] || {};
+    return variants.find((variant) =>
+      product.optionTypes!.every((optionType) =>
+        variant.optionValues.some((value) => value.optionTypeId === optionType.id && value.id === chosen[optionType.id])
+      )
+    );
+  };
 
-      newSocket.emit('join', user.id);
+  const selectOption = (productId: string, optionTypeId: string, valueId: string) => {
+    setSelectedOptions({ ...selectedOptions, [productId]: { ...selectedOptions[productId], [optionTypeId]: valueId } });
+  };
 
-      newSocket.on('newMessage', (message: Message) => {
-        setMessages(prev => [...prev, message]);
+  const addToCart = async (product: Product) => {
+    const variant = selectedVariant(product);
+    if (!variant) {
+      alert('Choose a value for each option first');
+      return;
+    }
+    try {
+      const res = await cartFetch('/cart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: product.id, variantId: variant.id, quantity: 1 }),
       });
-
-      return () => {
-        newSocket.disconnect();
-      };
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      if (data.cartToken) localStorage.setItem('cartToken', data.cartToken);
+      fetchCart();
+    } catch (error) {
+      console.error(error);
     }
-  }, [user, token]);
+  };
 
-  const fetchProducts = async () => {
+  const updateQuantity = async (itemId: string, quantity: number) => {
     try {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/products`);
-      const data = await res.json();
-      setProducts(data);
+      const res = await cartFetch(`/cart/items/${itemId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quantity }),
+      });
+      if (!res.ok) alert((await res.json()).error);
+      fetchCart();
     } catch (error) {
       console.error(error);
     }
   };
 
-  const fetchCart = async () => {
+  const cartWarningText = (warning: CartWarning) => {
+    switch (warning.code) {
+      case 'unavailable':
+        return 'No longer available';
+      case 'out_of_stock':
+        return 'Out of stock';
+      case 'insufficient_stock':
+        return `Only ${warning.available} left`;
+      case 'price_changed':
+        return `Price changed from ${formatMoney(warning.previousPriceMinor, cart.currency)} to ${formatMoney(warning.priceMinor, cart.currency)}`;
+    }
+  };
+
+  // Follows up a cart reminder link opened earlier, if any
+  const restoreCart = async () => {
+    const restoreToken = localStorage.getItem('restoreCart');
+    if (!restoreToken) return;
+    localStorage.removeItem('restoreCart');
     try {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/cart`, {
-        headers: { Authorization: `Bearer ${token}` },
+      const res = await authFetch('/cart/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: restoreToken }),
       });
-      const data = await res.json();
-      setCart(data);
+      if (!res.ok) {
+        alert((await res.json()).error);
+        return;
+      }
+      fetchCart();
     } catch (error) {
       console.error(error);
     }
   };
 
-  const fetchOrders = async () => {
+  const applyCoupon = async () => {
+    if (!couponCode.trim()) return;
     try {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/orders`, {
-        headers: { Authorization: `Bearer ${token}` },
+      const res = await cartFetch(`/cart/coupon${currencyQuery()}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: couponCode }),
       });
-      const data = await res.json();
-      setOrders(data);
+      if (!res.ok) {
+        alert((await res.json()).error);
+        return;
+      }
+      setCouponCode('');
+      fetchCart();
     } catch (error) {
       console.error(error);
     }
   };
 
-  const fetchMessages = async () => {
+  const removeCoupon = async () => {
     try {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/messages`);
-      const data = await res.json();
-      setMessages(data);
+      await cartFetch('/cart/coupon', { method: 'DELETE' });
+      fetchCart();
     } catch (error) {
       console.error(error);
     }
   };
 
-  const handleAuth = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const endpoint = authMode === 'login' ? 'login' : 'register';
-    const body = authMode === 'login' ? { email, password } : { email, name, password };
+  const removeFromCart = async (itemId: string) => {
+    try {
+      await cartFetch(`/cart/items/${itemId}`, { method: 'DELETE' });
+      fetchCart();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  // Sends the customer to the payment challenge when there is one; otherwise
+  // the order's status follows by socket
+  const followPayment = (payment: Payment | null) => {
+    if (payment?.nextActionUrl) {
+      window.location.href = payment.nextActionUrl;
+      return;
+    }
+    if (payment?.status === 'failed') {
+      alert(`Payment failed: ${payment.failureReason}`);
+      return;
+    }
+    if (payment) alert('Order created! Your payment is being processed.');
+    else alert('Order created!');
+  };
 
+  const payOrder = async (orderId: string) => {
     try {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/${endpoint}`, {
+      const res = await authFetch(`/orders/${orderId}/payments`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
+        body: JSON.stringify({ paymentMethod }),
       });
       const data = await res.json();
-      if (res.ok) {
-        setUser(data.user);
-        setToken(data.token);
-        localStorage.setItem('token', data.token);
-        setEmail('');
-        setPassword('');
-        setName('');
-      } else {
+      if (!res.ok) {
         alert(data.error);
+        return;
       }
+      fetchOrders();
+      followPayment(data);
     } catch (error) {
       console.error(error);
     }
   };
 
-  const logout = () => {
-    setUser(null);
-    setToken('');
-    localStorage.removeItem('token');
-    setCart({ items: [] });
-    setOrders([]);
+  // Stock ran short or the cart changed: show the lines to fix and the cart as it is now
+  const alertCheckoutError = (status: number, data: { error: string; items?: { message: string }[] }) => {
+    if (status === 409) {
+      fetchCart();
+      if (data.items) {
+        alert(`Not enough stock:\n${data.items.map(item => item.message).join('\n')}`);
+        return;
+      }
+    }
+    alert(data.error);
   };
 
-  const addToCart = async (productId: string) => {
+  // Checking out sets the cart's stock aside while the customer picks a
+  // payment method and places the order
+  const startCheckout = async () => {
+    if (!user) {
+      alert('Log in or register to check out. Your cart will be kept.');
+      return;
+    }
     try {
-      await fetch(`${process.env.NEXT_PUBLIC_API_URL}/cart`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ productId, quantity: 1 }),
-      });
+      const res = await authFetch('/checkout/hold', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alertCheckoutError(res.status, data);
+        return;
+      }
+      setHeldUntil(data.expiresAt);
       fetchCart();
     } catch (error) {
       console.error(error);
     }
   };
 
-  const removeFromCart = async (productId: string) => {
+  const cancelCheckout = async () => {
     try {
-      await fetch(`${process.env.NEXT_PUBLIC_API_URL}/cart/${productId}`, {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      await authFetch('/checkout/hold', { method: 'DELETE' });
+      setHeldUntil(null);
       fetchCart();
     } catch (error) {
       console.error(error);
@@ -213,14 +1077,19 @@ export default function Home() {
 
   const createOrder = async () => {
     try {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/orders`, {
+      const res = await authFetch('/orders', {
         method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency: currency || undefined, paymentMethod }),
       });
       if (res.ok) {
+        const order = await res.json();
+        setHeldUntil(null);
         fetchCart();
         fetchOrders();
-        alert('Order created!');
+        followPayment(order.payment);
+      } else {
+        alertCheckoutError(res.status, await res.json());
       }
     } catch (error) {
       console.error(error);
@@ -230,7 +1099,7 @@ export default function Home() {
   const sendMessage = async () => {
     if (!newMessage.trim() || !user) return;
     try {
-      socket?.emit('sendMessage', { userId: user.id, content: newMessage });
+      socket?.emit('sendMessage', { content: newMessage });
       setNewMessage('');
     } catch (error) {
       console.error(error);
@@ -261,12 +1130,12 @@ export default function Home() {
         Backend status: {status}
       </motion.p>
 
-      {!user ? (
+      {!user && (
         <motion.div
           initial={{ opacity: 0, x: -50 }}
           animate={{ opacity: 1, x: 0 }}
           transition={{ delay: 0.6, duration: 0.5 }}
-          style={{ maxWidth: 400, margin: '0 auto', background: 'white', padding: 30, borderRadius: 10, boxShadow: '0 10px 30px rgba(0,0,0,0.1)' }}
+          style={{ maxWidth: 400, margin: '0 auto 30px', background: 'white', padding: 30, borderRadius: 10, boxShadow: '0 10px 30px rgba(0,0,0,0.1)' }}
         >
           <motion.h2
             initial={{ y: -20 }}
@@ -274,39 +1143,59 @@ export default function Home() {
             transition={{ delay: 0.8, duration: 0.3 }}
             style={{ textAlign: 'center', marginBottom: 20 }}
           >
-            {authMode === 'login' ? 'Login' : 'Register'}
+            {{ login: 'Login', register: 'Register', forgot: 'Forgot Password', reset: 'Choose a New Password' }[authMode]}
           </motion.h2>
           <form onSubmit={handleAuth}>
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              transition={{ delay: 1, duration: 0.3 }}
-              style={{ marginBottom: 15 }}
-            >
-              <input
-                type="email"
-                placeholder="Email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                style={{ width: '100%', padding: 10, border: '1px solid #ddd', borderRadius: 5, fontSize: 16 }}
-              />
-            </motion.div>
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              transition={{ delay: 1.1, duration: 0.3 }}
-              style={{ marginBottom: 15 }}
-            >
-              <input
-                type="password"
-                placeholder="Password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                style={{ width: '100%', padding: 10, border: '1px solid #ddd', borderRadius: 5, fontSize: 16 }}
-              />
-            </motion.div>
+            {partialToken && (
+              <div style={{ marginBottom: 15 }}>
+                <p style={{ marginTop: 0, color: '#666' }}>Enter the code from your authenticator app, or a recovery code.</p>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="Authentication code"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  required
+                  autoFocus
+                  style={{ width: '100%', padding: 10, border: '1px solid #ddd', borderRadius: 5, fontSize: 16 }}
+                />
+              </div>
+            )}
+            {authMode !== 'reset' && !partialToken && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 1, duration: 0.3 }}
+                style={{ marginBottom: 15 }}
+              >
+                <input
+                  type="email"
+                  placeholder="Email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  style={{ width: '100%', padding: 10, border: '1px solid #ddd', borderRadius: 5, fontSize: 16 }}
+                />
+              </motion.div>
+            )}
+            {authMode !== 'forgot' && !partialToken && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 1.1, duration: 0.3 }}
+                style={{ marginBottom: 15 }}
+              >
+                <input
+                  type="password"
+                  placeholder={authMode === 'reset' ? 'New Password' : 'Password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  style={{ width: '100%', padding: 10, border: '1px solid #ddd', borderRadius: 5, fontSize: 16 }}
+                />
+              </motion.div>
+            )}
             {authMode === 'register' && (
               <motion.div
                 initial={{ opacity: 0, height: 0 }}
@@ -330,26 +1219,48 @@ export default function Home() {
               type="submit"
               style={{ width: '100%', padding: 12, background: '#667eea', color: 'white', border: 'none', borderRadius: 5, fontSize: 16, cursor: 'pointer' }}
             >
-              {authMode === 'login' ? 'Login' : 'Register'}
+              {partialToken ? 'Verify' : { login: 'Login', register: 'Register', forgot: 'Send Reset Link', reset: 'Update Password' }[authMode]}
             </motion.button>
           </form>
+          {authMode === 'login' && !partialToken && oidcProviders.map(provider => (
+            <a
+              key={provider.id}
+              href={`${process.env.NEXT_PUBLIC_API_URL}/auth/oidc/${provider.id}/start?app=web`}
+              style={{ display: 'block', boxSizing: 'border-box', width: '100%', padding: 10, marginTop: 10, textAlign: 'center', background: 'white', color: '#333', border: '1px solid #ddd', borderRadius: 5, fontSize: 16, textDecoration: 'none' }}
+            >
+              Continue with {provider.label}
+            </a>
+          ))}
+          {authMode === 'login' && (
+            <button
+              onClick={() => setAuthMode('forgot')}
+              style={{ width: '100%', padding: 8, background: 'transparent', color: '#667eea', border: 'none', fontSize: 14, cursor: 'pointer', marginTop: 10 }}
+            >
+              Forgot password?
+            </button>
+          )}
           <motion.button
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             transition={{ delay: 1.4, duration: 0.3 }}
-            onClick={() => setAuthMode(authMode === 'login' ? 'register' : 'login')}
+            onClick={() => {
+              setPartialToken('');
+              setAuthMode(authMode === 'login' ? 'register' : 'login');
+            }}
             style={{ width: '100%', padding: 10, background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: 5, fontSize: 16, cursor: 'pointer', marginTop: 10 }}
           >
-            Switch to {authMode === 'login' ? 'Register' : 'Login'}
+            {authMode === 'login' ? 'Switch to Register' : 'Back to Login'}
           </motion.button>
         </motion.div>
-      ) : (
-        <motion.div
-          initial={{ opacity: 0, y: 50 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.6, duration: 0.5 }}
-          style={{ maxWidth: 1200, margin: '0 auto' }}
-        >
+      )}
+
+      <motion.div
+        initial={{ opacity: 0, y: 50 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.6, duration: 0.5 }}
+        style={{ maxWidth: 1200, margin: '0 auto' }}
+      >
+        {user && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -357,116 +1268,603 @@ export default function Home() {
             style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 30 }}
           >
             <motion.p style={{ color: 'white', fontSize: 18 }}>Welcome, {user.name || user.email}!</motion.p>
-            <motion.button
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-              onClick={logout}
-              style={{ padding: '8px 16px', background: '#ff4757', color: 'white', border: 'none', borderRadius: '5px', cursor: 'pointer' }}
-            >
-              Logout
-            </motion.button>
+            <div style={{ display: 'flex', gap: 10 }}>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={openSecurity}
+                style={{ padding: '8px 16px', background: 'transparent', color: 'white', border: '1px solid white', borderRadius: '5px', cursor: 'pointer' }}
+              >
+                Security
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={logoutAllDevices}
+                style={{ padding: '8px 16px', background: 'transparent', color: 'white', border: '1px solid white', borderRadius: '5px', cursor: 'pointer' }}
+              >
+                Sign out of all devices
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={logout}
+                style={{ padding: '8px 16px', background: '#ff4757', color: 'white', border: 'none', borderRadius: '5px', cursor: 'pointer' }}
+              >
+                Logout
+              </motion.button>
+            </div>
           </motion.div>
+        )}
 
-          <motion.div
-            initial={{ opacity: 0, x: -50 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 1, duration: 0.5 }}
-            style={{ background: 'white', padding: 20, borderRadius: 10, marginBottom: 20, boxShadow: '0 5px 15px rgba(0,0,0,0.1)' }}
-          >
-            <motion.h2
-              initial={{ y: -10 }}
-              animate={{ y: 0 }}
-              transition={{ delay: 1.2, duration: 0.3 }}
+        {user && showSecurity && (
+          <div style={{ background: 'white', padding: 20, borderRadius: 10, marginBottom: 20, boxShadow: '0 5px 15px rgba(0,0,0,0.1)' }}>
+            <h2 style={{ marginTop: 0 }}>Two-Factor Authentication</h2>
+            {recoveryCodes.length > 0 && (
+              <div style={{ marginBottom: 15 }}>
+                <p>Save these recovery codes. Each can be used once if you lose your authenticator:</p>
+                <pre style={{ background: '#f9f9f9', padding: 10, borderRadius: 5 }}>{recoveryCodes.join('\n')}</pre>
+              </div>
+            )}
+            {!twoFactorEnabled && !enrollment && (
+              <button
+                onClick={startTwoFactorSetup}
+                style={{ padding: 10, background: '#667eea', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+              >
+                Enable two-factor authentication
+              </button>
+            )}
+            {enrollment && (
+              <div>
+                <p>Scan this QR code with your authenticator app, then enter the 6-digit code it shows.</p>
+                <img src={enrollment.qrCode} alt="Authenticator QR code" width={180} height={180} />
+                <p style={{ fontSize: 13, color: '#666' }}>Manual key: <code>{enrollment.secret}</code></p>
+              </div>
+            )}
+            {(enrollment || twoFactorEnabled) && (
+              <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap' }}>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="Authentication code"
+                  value={securityCode}
+                  onChange={(e) => setSecurityCode(e.target.value)}
+                  style={{ padding: 10, border: '1px solid #ddd', borderRadius: 5 }}
+                />
+                {enrollment ? (
+                  <button
+                    onClick={() => submitTwoFactorCode('enable')}
+                    style={{ padding: 10, background: '#28a745', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                  >
+                    Confirm
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => submitTwoFactorCode('recovery-codes')}
+                      style={{ padding: 10, background: '#007bff', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                    >
+                      New recovery codes
+                    </button>
+                    <button
+                      onClick={() => submitTwoFactorCode('disable')}
+                      style={{ padding: 10, background: '#ff4757', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                    >
+                      Disable
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            <h2>Your Data</h2>
+            <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginBottom: 15 }}>
+              <button
+                onClick={() => downloadExport('json')}
+                style={{ padding: 10, background: '#667eea', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+              >
+                Download my data (JSON)
+              </button>
+              <button
+                onClick={() => downloadExport('zip')}
+                style={{ padding: 10, background: '#667eea', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+              >
+                Download my data (ZIP)
+              </button>
+            </div>
+            <p style={{ fontSize: 13, color: '#666' }}>
+              Deleting your account erases your profile, cart and messages. Orders are kept anonymously for accounting.
+              {twoFactorEnabled && ' Enter your authentication code above as well.'}
+            </p>
+            <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap' }}>
+              <input
+                type="password"
+                placeholder="Current password"
+                value={deletePassword}
+                onChange={(e) => setDeletePassword(e.target.value)}
+                style={{ padding: 10, border: '1px solid #ddd', borderRadius: 5 }}
+              />
+              <button
+                onClick={deleteAccount}
+                style={{ padding: 10, background: '#ff4757', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+              >
+                Delete account
+              </button>
+            </div>
+          </div>
+        )}
+
+        {user?.emailVerified === false && (
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', background: '#fff3cd', color: '#856404', padding: 15, borderRadius: 10, marginBottom: 20 }}>
+            <span>Please verify your email address before checking out.</span>
+            <button
+              onClick={resendVerification}
+              style={{ padding: '6px 12px', background: '#856404', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
             >
-              Products
-            </motion.h2>
-            <motion.ul
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              transition={{ delay: 1.4, duration: 0.5 }}
-              style={{ listStyle: 'none', padding: 0 }}
+              Resend email
+            </button>
+          </div>
+        )}
+
+        <motion.div
+          initial={{ opacity: 0, x: -50 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 1, duration: 0.5 }}
+          style={{ background: 'white', padding: 20, borderRadius: 10, marginBottom: 20, boxShadow: '0 5px 15px rgba(0,0,0,0.1)' }}
+        >
+          <motion.h2
+            initial={{ y: -10 }}
+            animate={{ y: 0 }}
+            transition={{ delay: 1.2, duration: 0.3 }}
+          >
+            Products
+          </motion.h2>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 10, marginBottom: 15 }}>
+            <input
+              type="search"
+              placeholder="Search products..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              style={{ flex: 1, minWidth: 200, padding: 10, border: '1px solid #ddd', borderRadius: 5 }}
+            />
+            <input
+              type="number"
+              min={0}
+              placeholder={`Min ${currencies.find((option) => option.base)?.code ?? ''}`}
+              title="Price filters use the store's base currency"
+              value={minPrice}
+              onChange={(e) => setMinPrice(e.target.value)}
+              style={{ width: 90, padding: 10, border: '1px solid #ddd', borderRadius: 5 }}
+            />
+            <input
+              type="number"
+              min={0}
+              placeholder={`Max ${currencies.find((option) => option.base)?.code ?? ''}`}
+              title="Price filters use the store's base currency"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+              style={{ width: 90, padding: 10, border: '1px solid #ddd', borderRadius: 5 }}
+            />
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value)}
+              style={{ padding: 10, border: '1px solid #ddd', borderRadius: 5 }}
             >
-              {products.map((product, index) => (
-                <motion.li
-                  key={product.id}
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: 1.5 + index * 0.1, duration: 0.3 }}
-                  whileHover={{ scale: 1.02 }}
-                  style={{ padding: 15, border: '1px solid #ddd', borderRadius: 5, marginBottom: 10, background: '#f9f9f9', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
+              <option value="relevance">Best match</option>
+              <option value="newest">Newest</option>
+              <option value="price_asc">Price: low to high</option>
+              <option value="price_desc">Price: high to low</option>
+              <option value="name">Name</option>
+              <option value="rating">Top rated</option>
+            </select>
+            {currencies.length > 1 && (
+              <select
+                value={currency || currencies.find((option) => option.base)?.code}
+                onChange={(e) => changeCurrency(currencies.find((option) => option.code === e.target.value)?.base ? '' : e.target.value)}
+                style={{ padding: 10, border: '1px solid #ddd', borderRadius: 5 }}
+              >
+                {currencies.map((option) => (
+                  <option key={option.code} value={option.code}>{option.code}</option>
+                ))}
+              </select>
+            )}
+            <label style={{ display: 'flex', alignItems: 'center', gap: 5 }}>
+              <input type="checkbox" checked={inStockOnly} onChange={(e) => setInStockOnly(e.target.checked)} />
+              In stock
+            </label>
+          </div>
+          {facets.tags.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 15 }}>
+              {facets.tags.map((tag) => (
+                <button
+                  key={tag.slug}
+                  onClick={() => toggleTag(tag.slug)}
+                  style={{ padding: '4px 10px', borderRadius: 15, border: '1px solid #667eea', background: selectedTags.includes(tag.slug) ? '#667eea' : 'white', color: selectedTags.includes(tag.slug) ? 'white' : '#667eea', cursor: 'pointer', fontSize: 13 }}
                 >
-                  <div>
-                    <strong>{product.name}</strong> - ${product.price} (Stock: {product.stock})
-                  </div>
-                  <motion.button
-                    whileHover={{ scale: 1.05, backgroundColor: '#28a745' }}
-                    whileTap={{ scale: 0.95 }}
-                    onClick={() => addToCart(product.id)}
-                    style={{ padding: 8, background: '#007bff', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                  #{tag.name} ({tag.count})
+                </button>
+              ))}
+            </div>
+          )}
+          <p style={{ color: '#666', marginTop: 0 }}>
+            {productTotal} product{productTotal === 1 ? '' : 's'}{search.trim() && ` matching "${search.trim()}"`}
+          </p>
+          <div style={{ display: 'flex', gap: 20, alignItems: 'flex-start' }}>
+            {categories.length > 0 && (
+              <nav style={{ width: 200, flexShrink: 0 }}>
+                <button
+                  onClick={() => setCategory('')}
+                  style={{ display: 'block', width: '100%', textAlign: 'left', padding: '6px 8px', background: category ? 'transparent' : '#667eea', color: category ? '#333' : 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                >
+                  All products
+                </button>
+                {renderCategories(categories)}
+              </nav>
+            )}
+            <div style={{ flex: 1 }}>
+              <motion.ul
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 1.4, duration: 0.5 }}
+                style={{ listStyle: 'none', padding: 0 }}
+              >
+                {products.map((product, index) => {
+                  const variant = selectedVariant(product);
+                  // The chosen variant, or the cheapest one until options are picked
+                  const price = variant ?? product;
+                  return (
+                    <motion.li
+                      key={product.id}
+                      initial={{ opacity: 0, x: -20 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: index < 20 ? 1.5 + index * 0.1 : 0, duration: 0.3 }}
+                      whileHover={{ scale: 1.02 }}
+                      style={{ padding: 15, border: '1px solid #ddd', borderRadius: 5, marginBottom: 10, background: '#f9f9f9', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
+                    >
+                      {product.images?.[0] && (
+                        <img
+                          src={product.images[0].thumbnailUrl}
+                          alt={product.name}
+                          loading="lazy"
+                          style={{ width: 80, height: 80, objectFit: 'cover', borderRadius: 5, marginRight: 15, flexShrink: 0 }}
+                        />
+                      )}
+                      <div style={{ flex: 1 }}>
+                        <strong>{product.name}</strong> - {formatMoney(price.displayPriceMinor, product.currency)}
+                        {price.displayCompareAtPriceMinor !== null && (
+                          <s style={{ color: '#999', marginLeft: 6 }}>{formatMoney(price.displayCompareAtPriceMinor, product.currency)}</s>
+                        )}
+                        {price.saleEndsAt && (
+                          <span style={{ color: '#dc3545', fontSize: 12, marginLeft: 6 }}>Sale ends {new Date(price.saleEndsAt).toLocaleString()}</span>
+                        )}
+                        {' '}(Stock: {variant ? variant.stock : product.stock})
+                        <button
+                          onClick={() => (productReviews?.productId === product.id ? setProductReviews(null) : fetchReviews(product.id))}
+                          style={{ marginLeft: 8, background: 'none', border: 'none', color: '#667eea', cursor: 'pointer', fontSize: 13 }}
+                        >
+                          {product.ratingCount ? `★ ${product.ratingAverage?.toFixed(1)} (${product.ratingCount})` : 'No reviews yet'}
+                        </button>
+                        {!!product.optionTypes?.length && (
+                          <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+                            {product.optionTypes.map((optionType) => (
+                              <select
+                                key={optionType.id}
+                                value={selectedOptions[product.id]?.[optionType.id] || ''}
+                                onChange={(e) => selectOption(product.id, optionType.id, e.target.value)}
+                                style={{ padding: 4, borderRadius: 5, border: '1px solid #ddd' }}
+                              >
+                                <option value="">{optionType.name}</option>
+                                {optionType.values
+                                  .filter((value) => product.variants?.some((candidate) => candidate.optionValues.some((option) => option.id === value.id)))
+                                  .map((value) => (
+                                    <option key={value.id} value={value.id}>{value.name}</option>
+                                  ))}
+                              </select>
+                            ))}
+                          </div>
+                        )}
+                        {productReviews?.productId === product.id && (
+                          <div style={{ marginTop: 10, paddingTop: 10, borderTop: '1px solid #ddd', fontSize: 14 }}>
+                            {productReviews.items.length === 0 && <p style={{ color: '#666', margin: '0 0 8px' }}>No reviews yet.</p>}
+                            {productReviews.items.map((review) => (
+                              <div key={review.id} style={{ marginBottom: 8 }}>
+                                <span style={{ color: '#ffc107' }}>{'★'.repeat(review.rating)}{'☆'.repeat(5 - review.rating)}</span>{' '}
+                                <strong>{review.title}</strong>
+                                <div>{review.body}</div>
+                                <small style={{ color: '#999' }}>{review.author}, {new Date(review.createdAt).toLocaleDateString()}</small>
+                              </div>
+                            ))}
+                            {productReviews.nextCursor && (
+                              <button
+                                onClick={() => fetchReviews(product.id, productReviews.nextCursor!)}
+                                style={{ background: 'none', border: 'none', color: '#667eea', cursor: 'pointer', padding: 0, marginBottom: 8 }}
+                              >
+                                More reviews
+                              </button>
+                            )}
+                            {user && (
+                              <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                                <select
+                                  value={reviewForm.rating}
+                                  onChange={(e) => setReviewForm({ ...reviewForm, rating: Number(e.target.value) })}
+                                  style={{ padding: 4, borderRadius: 5, border: '1px solid #ddd', width: 140 }}
+                                >
+                                  {[5, 4, 3, 2, 1].map((rating) => (
+                                    <option key={rating} value={rating}>{'★'.repeat(rating)}</option>
+                                  ))}
+                                </select>
+                                <input
+                                  placeholder="Title (optional)"
+                                  value={reviewForm.title}
+                                  onChange={(e) => setReviewForm({ ...reviewForm, title: e.target.value })}
+                                  style={{ padding: 6, borderRadius: 5, border: '1px solid #ddd' }}
+                                />
+                                <textarea
+                                  placeholder="What did you think? Only customers who bought this product can review it."
+                                  value={reviewForm.body}
+                                  onChange={(e) => setReviewForm({ ...reviewForm, body: e.target.value })}
+                                  style={{ padding: 6, borderRadius: 5, border: '1px solid #ddd', minHeight: 60 }}
+                                />
+                                <button
+                                  onClick={() => submitReview(product.id)}
+                                  disabled={!reviewForm.body.trim()}
+                                  style={{ padding: 6, background: '#667eea', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer', width: 140 }}
+                                >
+                                  Submit review
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      <motion.button
+                        whileHover={{ scale: 1.05, backgroundColor: '#28a745' }}
+                        whileTap={{ scale: 0.95 }}
+                        onClick={() => addToCart(product)}
+                        disabled={!!variant && variant.stock === 0}
+                        style={{ padding: 8, background: '#007bff', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                      >
+                        {variant && variant.stock === 0 ? 'Out of stock' : 'Add to Cart'}
+                      </motion.button>
+                      {user && (
+                        <div style={{ display: 'flex', gap: 5, marginTop: 5 }}>
+                          <button
+                            onClick={() => saveToList(product, 'wishlist')}
+                            style={{ padding: 6, background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: 5, cursor: 'pointer' }}
+                          >
+                            ♡ Wishlist
+                          </button>
+                          {product.stock === 0 && (
+                            <button
+                              onClick={() => requestStockAlert(product.id)}
+                              style={{ padding: 6, background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: 5, cursor: 'pointer' }}
+                            >
+                              Notify me
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </motion.li>
+                  );
+                })}
+              </motion.ul>
+              <div ref={loadMoreRef} style={{ textAlign: 'center', color: '#666', padding: 10 }}>
+                {loadingProducts ? 'Loading...' : !nextCursor && products.length > 0 ? 'No more products' : ''}
+              </div>
+            </div>
+          </div>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, x: 50 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 1.6, duration: 0.5 }}
+          style={{ background: 'white', padding: 20, borderRadius: 10, marginBottom: 20, boxShadow: '0 5px 15px rgba(0,0,0,0.1)' }}
+        >
+          <motion.h2
+            initial={{ y: -10 }}
+            animate={{ y: 0 }}
+            transition={{ delay: 1.8, duration: 0.3 }}
+          >
+            Cart
+          </motion.h2>
+          <motion.ul
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 2, duration: 0.5 }}
+            style={{ listStyle: 'none', padding: 0 }}
+          >
+            {cart.items.map((item, index) => (
+              <motion.li
+                key={item.id}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 2.1 + index * 0.1, duration: 0.3 }}
+                style={{ padding: 15, border: '1px solid #ddd', borderRadius: 5, marginBottom: 10, background: '#f9f9f9', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
+              >
+                <div>
+                  {item.product.name}{item.variantTitle && ` (${item.variantTitle})`} x{item.quantity} - {formatMoney(item.lineTotalMinor, cart.currency)}
+                  {item.compareAtPriceMinor !== null && (
+                    <s style={{ color: '#999', marginLeft: 6 }}>{formatMoney(item.compareAtPriceMinor * item.quantity, cart.currency)}</s>
+                  )}
+                  {item.warnings.map((warning) => (
+                    <div key={warning.code} style={{ color: '#dc3545', fontSize: 13 }}>{cartWarningText(warning)}</div>
+                  ))}
+                </div>
+                <div style={{ display: 'flex', gap: 5, marginLeft: 'auto', marginRight: 10 }}>
+                  <button
+                    onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                    disabled={item.quantity <= 1}
+                    style={{ padding: '4px 10px', border: '1px solid #ddd', borderRadius: 5, cursor: 'pointer' }}
                   >
-                    Add to Cart
-                  </motion.button>
-                </motion.li>
+                    -
+                  </button>
+                  <button
+                    onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                    style={{ padding: '4px 10px', border: '1px solid #ddd', borderRadius: 5, cursor: 'pointer' }}
+                  >
+                    +
+                  </button>
+                </div>
+                {user && (
+                  <button
+                    onClick={() => saveForLater(item.id)}
+                    style={{ padding: 8, marginRight: 5, background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: 5, cursor: 'pointer' }}
+                  >
+                    Save for later
+                  </button>
+                )}
+                <motion.button
+                  whileHover={{ scale: 1.05, backgroundColor: '#dc3545' }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => removeFromCart(item.id)}
+                  style={{ padding: 8, background: '#ff4757', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                >
+                  Remove
+                </motion.button>
+              </motion.li>
+            ))}
+          </motion.ul>
+          {cart.items.length > 0 && (
+            <div style={{ textAlign: 'right' }}>
+              <p>Subtotal: {formatMoney(cart.subtotalMinor, cart.currency)}</p>
+              {cart.discounts.map((discount) => (
+                <p key={discount.code} style={{ color: '#28a745' }}>
+                  {discount.description || discount.code}: -{formatMoney(discount.amountMinor, cart.currency)}
+                </p>
               ))}
-            </motion.ul>
-          </motion.div>
+              <p style={{ fontWeight: 'bold' }}>Total: {formatMoney(cart.totalMinor, cart.currency)}</p>
+              {cart.coupon ? (
+                <div>
+                  Coupon <strong>{cart.coupon.code}</strong>
+                  <button
+                    onClick={removeCoupon}
+                    style={{ marginLeft: 10, padding: '4px 10px', border: '1px solid #ddd', borderRadius: 5, cursor: 'pointer' }}
+                  >
+                    Remove
+                  </button>
+                  {cart.coupon.error && <div style={{ color: '#dc3545', fontSize: 13 }}>{cart.coupon.error}</div>}
+                </div>
+              ) : (
+                <div style={{ display: 'flex', gap: 5, justifyContent: 'flex-end' }}>
+                  <input
+                    type="text"
+                    placeholder="Coupon code"
+                    value={couponCode}
+                    onChange={(e) => setCouponCode(e.target.value)}
+                    style={{ padding: 8, border: '1px solid #ddd', borderRadius: 5 }}
+                  />
+                  <button
+                    onClick={applyCoupon}
+                    style={{ padding: '8px 12px', background: '#667eea', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                  >
+                    Apply
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+          {cart.items.length > 0 && (
+            <select
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value)}
+              style={{ marginTop: 20, padding: 8, border: '1px solid #ddd', borderRadius: 5, width: '100%' }}
+            >
+              {paymentMethods.map(method => (
+                <option key={method.value} value={method.value}>{method.label}</option>
+              ))}
+            </select>
+          )}
+          {cart.items.length > 0 && heldUntil && (
+            <div style={{ marginTop: 20 }}>
+              <p style={{ color: '#666', fontSize: 13 }}>Your items are reserved until {new Date(heldUntil).toLocaleTimeString()}.</p>
+              <div style={{ display: 'flex', gap: 10 }}>
+                <button
+                  onClick={createOrder}
+                  style={{ flex: 1, padding: 12, background: '#28a745', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                >
+                  Place order
+                </button>
+                <button
+                  onClick={cancelCheckout}
+                  style={{ padding: 12, border: '1px solid #ddd', borderRadius: 5, cursor: 'pointer' }}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+          {cart.items.length > 0 && !heldUntil && (
+            <motion.button
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 2.3, duration: 0.3 }}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={startCheckout}
+              style={{ marginTop: 20, padding: 12, background: '#28a745', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer', width: '100%' }}
+            >
+              Checkout
+            </motion.button>
+          )}
+        </motion.div>
 
+        {user && (
           <motion.div
             initial={{ opacity: 0, x: 50 }}
             animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 1.6, duration: 0.5 }}
+            transition={{ delay: 2.2, duration: 0.5 }}
             style={{ background: 'white', padding: 20, borderRadius: 10, marginBottom: 20, boxShadow: '0 5px 15px rgba(0,0,0,0.1)' }}
           >
-            <motion.h2
-              initial={{ y: -10 }}
-              animate={{ y: 0 }}
-              transition={{ delay: 1.8, duration: 0.3 }}
-            >
-              Cart
-            </motion.h2>
-            <motion.ul
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              transition={{ delay: 2, duration: 0.5 }}
-              style={{ listStyle: 'none', padding: 0 }}
-            >
-              {cart.items.map((item, index) => (
-                <motion.li
-                  key={item.id}
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: 2.1 + index * 0.1, duration: 0.3 }}
-                  style={{ padding: 15, border: '1px solid #ddd', borderRadius: 5, marginBottom: 10, background: '#f9f9f9', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
-                >
-                  <div>
-                    {item.product.name} x{item.quantity} - ${item.product.price * item.quantity}
-                  </div>
-                  <motion.button
-                    whileHover={{ scale: 1.05, backgroundColor: '#dc3545' }}
-                    whileTap={{ scale: 0.95 }}
-                    onClick={() => removeFromCart(item.product.id)}
-                    style={{ padding: 8, background: '#ff4757', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
-                  >
-                    Remove
-                  </motion.button>
-                </motion.li>
-              ))}
-            </motion.ul>
-            {cart.items.length > 0 && (
-              <motion.button
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 2.3, duration: 0.3 }}
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                onClick={createOrder}
-                style={{ marginTop: 20, padding: 12, background: '#28a745', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer', width: '100%' }}
-              >
-                Checkout
-              </motion.button>
-            )}
+            {([['saved', 'Saved for Later'], ['wishlist', 'Wishlist']] as const).map(([list, title]) => (
+              <div key={list}>
+                <h2>{title}</h2>
+                {savedLists[list].items.length === 0 && <p style={{ color: '#666' }}>Nothing here yet.</p>}
+                <ul style={{ listStyle: 'none', padding: 0 }}>
+                  {savedLists[list].items.map((item) => (
+                    <li
+                      key={item.id}
+                      style={{ padding: 15, border: '1px solid #ddd', borderRadius: 5, marginBottom: 10, background: '#f9f9f9', display: 'flex', gap: 5, alignItems: 'center' }}
+                    >
+                      <div style={{ flex: 1 }}>
+                        {item.product.name}{item.variantTitle && ` (${item.variantTitle})`}
+                        {list === 'saved' && ` x${item.quantity}`} - {formatMoney(item.unitPriceMinor, savedLists[list].currency)}
+                        {!item.inStock && (
+                          <div style={{ color: '#dc3545', fontSize: 13 }}>
+                            Out of stock{item.stockAlert && ' · we will email you when it is back'}
+                          </div>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => moveSavedItemToCart(list, item.id)}
+                        disabled={!item.inStock}
+                        style={{ padding: 8, background: '#007bff', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                      >
+                        Move to cart
+                      </button>
+                      {item.product.stock === 0 && !item.stockAlert && (
+                        <button
+                          onClick={() => requestStockAlert(item.product.id).then(fetchSavedLists)}
+                          style={{ padding: 8, background: 'transparent', color: '#667eea', border: '1px solid #667eea', borderRadius: 5, cursor: 'pointer' }}
+                        >
+                          Notify me
+                        </button>
+                      )}
+                      <button
+                        onClick={() => removeSavedItem(list, item.id)}
+                        style={{ padding: 8, background: '#ff4757', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
           </motion.div>
+        )}
 
+        {user && (
           <motion.div
             initial={{ opacity: 0, y: 50 }}
             animate={{ opacity: 1, y: 0 }}
@@ -494,12 +1892,23 @@ export default function Home() {
                   transition={{ delay: 2.9 + index * 0.1, duration: 0.3 }}
                   style={{ padding: 15, border: '1px solid #ddd', borderRadius: 5, marginBottom: 10, background: '#f9f9f9' }}
                 >
-                  Order #{order.id} - Total: ${order.total} - Status: {order.status}
+                  Order #{order.id} - Total: {formatMoney(order.totalMinor, order.currency)}
+                  {order.discountMinor > 0 && ` (saved ${formatMoney(order.discountMinor, order.currency)})`} - Status: {order.status}
+                  {(order.status === 'pending' || order.status === 'payment_failed') && (
+                    <button
+                      onClick={() => payOrder(order.id)}
+                      style={{ marginLeft: 10, padding: '4px 10px', background: '#28a745', color: 'white', border: 'none', borderRadius: 5, cursor: 'pointer' }}
+                    >
+                      Pay now
+                    </button>
+                  )}
                 </motion.li>
               ))}
             </motion.ul>
           </motion.div>
+        )}
 
+        {user && (
           <motion.div
             initial={{ opacity: 0, scale: 0.9 }}
             animate={{ opacity: 1, scale: 1 }}
@@ -537,7 +1946,7 @@ export default function Home() {
                     marginRight: msg.userId === user!.id ? '0' : '30%'
                   }}
                 >
-                  <strong>{msg.user.name || msg.user.email}:</strong> {msg.content}
+                  <strong>{msg.user.name || 'Customer'}:</strong> {msg.content}
                 </motion.div>
               ))}
             </motion.div>
@@ -565,8 +1974,8 @@ export default function Home() {
               </motion.button>
             </motion.div>
           </motion.div>
-        </motion.div>
-      )}
+        )}
+      </motion.div>
     </motion.div>
   );
 }